@@ -0,0 +1,67 @@
+#!/usr/bin/env node
+/**
+ * Minimal stdio MCP server exposing a single `echo` tool.
+ * Useful for checking MCP wiring without installing a real server:
+ *
+ *   { "mcpServers": { "echo": { "command": "node", "args": ["examples/echo-mcp-server.mjs"] } } }
+ */
+
+import { createInterface } from "node:readline";
+
+const TOOLS = [
+  {
+    name: "echo",
+    description: "Echo the given text back",
+    inputSchema: {
+      type: "object",
+      properties: { text: { type: "string", description: "Text to echo" } },
+      required: ["text"],
+    },
+  },
+];
+
+function reply(id, result) {
+  process.stdout.write(JSON.stringify({ jsonrpc: "2.0", id, result }) + "\n");
+}
+
+function fail(id, code, message) {
+  process.stdout.write(JSON.stringify({ jsonrpc: "2.0", id, error: { code, message } }) + "\n");
+}
+
+createInterface({ input: process.stdin }).on("line", (line) => {
+  let message;
+  try {
+    message = JSON.parse(line);
+  } catch {
+    return;
+  }
+  // Notifications carry no id and need no reply
+  if (message.id === undefined) return;
+
+  switch (message.method) {
+    case "initialize":
+      reply(message.id, {
+        protocolVersion: message.params?.protocolVersion ?? "2024-11-05",
+        capabilities: { tools: {} },
+        serverInfo: { name: "echo", version: "1.0.0" },
+      });
+      break;
+    case "tools/list":
+      reply(message.id, { tools: TOOLS });
+      break;
+    case "tools/call":
+      if (message.params?.name !== "echo") {
+        fail(message.id, -32602, `Unknown tool: ${message.params?.name}`);
+        break;
+      }
+      reply(message.id, {
+        content: [{ type: "text", text: String(message.params.arguments?.text ?? "") }],
+      });
+      break;
+    case "ping":
+      reply(message.id, {});
+      break;
+    default:
+      fail(message.id, -32601, `Method not found: ${message.method}`);
+  }
+});
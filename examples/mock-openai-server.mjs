@@ -0,0 +1,73 @@
+#!/usr/bin/env node
+/**
+ * Minimal OpenAI-compatible chat completions server for trying provider
+ * profiles offline. Every request is answered with a canned reply that
+ * quotes the last user message, streamed or not as requested.
+ *
+ *   node examples/mock-openai-server.mjs [port]
+ *
+ *   { "providers": { "mock": { "baseUrl": "http://127.0.0.1:8787/v1", "models": ["mock-model"] } } }
+ */
+
+import { createServer } from "node:http";
+
+const port = Number(process.argv[2] ?? 8787);
+
+function lastUserText(body) {
+  const messages = Array.isArray(body.messages) ? body.messages : [];
+  const last = [...messages].reverse().find((m) => m.role === "user");
+  if (!last) return "";
+  if (typeof last.content === "string") return last.content;
+  return (last.content ?? []).map((part) => part.text ?? "").join("");
+}
+
+createServer((req, res) => {
+  const chunks = [];
+  req.on("data", (chunk) => chunks.push(chunk));
+  req.on("end", () => {
+    console.log(`${req.method} ${req.url}`);
+
+    if (req.method === "GET" && req.url?.endsWith("/models")) {
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(JSON.stringify({ object: "list", data: [{ id: "mock-model", object: "model" }] }));
+      return;
+    }
+
+    if (req.method !== "POST" || !req.url?.endsWith("/chat/completions")) {
+      res.writeHead(404, { "content-type": "application/json" });
+      res.end(JSON.stringify({ error: { message: `No route for ${req.method} ${req.url}` } }));
+      return;
+    }
+
+    let body = {};
+    try {
+      body = JSON.parse(Buffer.concat(chunks).toString("utf-8") || "{}");
+    } catch {
+      // Fall through with an empty body
+    }
+    const reply = `Mock reply to: ${lastUserText(body).slice(0, 200)}`;
+    const base = { id: `chatcmpl-${Date.now()}`, created: Math.floor(Date.now() / 1000), model: body.model ?? "mock-model" };
+
+    if (body.stream) {
+      res.writeHead(200, { "content-type": "text/event-stream", "cache-control": "no-cache" });
+      for (const word of reply.split(/(?<= )/)) {
+        const delta = { ...base, object: "chat.completion.chunk", choices: [{ index: 0, delta: { role: "assistant", content: word }, finish_reason: null }] };
+        res.write(`data: ${JSON.stringify(delta)}\n\n`);
+      }
+      const done = { ...base, object: "chat.completion.chunk", choices: [{ index: 0, delta: {}, finish_reason: "stop" }] };
+      res.write(`data: ${JSON.stringify(done)}\n\n`);
+      res.end("data: [DONE]\n\n");
+      return;
+    }
+
+    res.writeHead(200, { "content-type": "application/json" });
+    res.end(JSON.stringify({
+      ...base,
+      object: "chat.completion",
+      choices: [{ index: 0, message: { role: "assistant", content: reply }, finish_reason: "stop" }],
+      usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+    }));
+  });
+}).listen(port, "127.0.0.1", () => {
+  console.log(`Mock OpenAI server listening on http://127.0.0.1:${port}/v1`);
+});
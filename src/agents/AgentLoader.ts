@@ -0,0 +1,136 @@
+/**
+ * Agent loader — discovers project-defined custom agents.
+ *
+ * Agents are markdown files at:
+ *   .agents/agents/<agent-name>.md
+ *
+ * Frontmatter holds the metadata (name, displayName, description, tools) and
+ * the markdown body is the agent's prompt. Agents are handed to the SDK as
+ * custom agents, which the model can delegate work to as subagents.
+ */
+
+import { readFileSync, readdirSync, existsSync, statSync } from "node:fs";
+import { join, basename, resolve } from "node:path";
+import { parseFrontmatter } from "../commands/CommandLoader.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface AgentDefinition {
+  /** Unique agent name (frontmatter `name`, or the filename without .md) */
+  name: string;
+  /** Name shown in the UI; falls back to `name` */
+  displayName: string;
+  /** What the agent is for, from frontmatter */
+  description: string;
+  /** Tool allowlist; null means every tool */
+  tools: string[] | null;
+  /** Markdown body (after frontmatter) */
+  prompt: string;
+  /** Absolute path to the agent file */
+  filePath: string;
+}
+
+// ---------------------------------------------------------------------------
+// Frontmatter helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse a `tools` value written either as `view, edit` or `[view, edit]`.
+ * An empty or missing value means no restriction.
+ */
+function parseToolList(value: string | undefined): string[] | null {
+  if (!value) return null;
+  const inner = value.replace(/^\[(.*)\]$/, "$1");
+  const tools = inner
+    .split(",")
+    .map((tool) => tool.trim().replace(/^["'](.*)["']$/, "$1"))
+    .filter(Boolean);
+  return tools.length > 0 ? tools : null;
+}
+
+function unquote(value: string | undefined): string | undefined {
+  return value?.replace(/^["'](.*)["']$/, "$1");
+}
+
+// ---------------------------------------------------------------------------
+// Agent discovery
+// ---------------------------------------------------------------------------
+
+const AGENTS_DIR = ".agents/agents";
+
+function getAgentsRoot(): string {
+  return resolve(process.cwd(), AGENTS_DIR);
+}
+
+/**
+ * Scan the agents directory for agent files and return definitions.
+ * Files without a prompt body are skipped.
+ */
+export function discoverAgents(): AgentDefinition[] {
+  const agentsRoot = getAgentsRoot();
+  if (!existsSync(agentsRoot) || !statSync(agentsRoot).isDirectory()) return [];
+
+  let agentFiles: string[];
+  try {
+    agentFiles = readdirSync(agentsRoot).filter((f) => f.endsWith(".md"));
+  } catch {
+    return [];
+  }
+
+  const agents: AgentDefinition[] = [];
+
+  for (const file of agentFiles) {
+    const filePath = join(agentsRoot, file);
+    try {
+      const raw = readFileSync(filePath, "utf-8");
+      const parsed = parseFrontmatter(raw);
+      if (!parsed.body) continue;
+
+      const name = unquote(parsed.frontmatter.name) || basename(file, ".md");
+      agents.push({
+        name,
+        displayName: unquote(parsed.frontmatter.displayName) || name,
+        description: unquote(parsed.frontmatter.description) ?? "",
+        tools: parseToolList(parsed.frontmatter.tools),
+        prompt: parsed.body,
+        filePath,
+      });
+    } catch {
+      // Skip unreadable agent files
+    }
+  }
+
+  return agents;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export class AgentRegistry {
+  private agents: Map<string, AgentDefinition> = new Map();
+
+  constructor() {
+    this.reload();
+  }
+
+  /** Re-scan the agents directory. */
+  reload(): void {
+    this.agents.clear();
+    for (const agent of discoverAgents()) {
+      this.agents.set(agent.name, agent);
+    }
+  }
+
+  /** Get an agent by name. */
+  get(name: string): AgentDefinition | undefined {
+    return this.agents.get(name);
+  }
+
+  /** List all discovered agents. */
+  list(): AgentDefinition[] {
+    return Array.from(this.agents.values());
+  }
+}
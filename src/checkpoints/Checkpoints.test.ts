@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { execFileSync } from "node:child_process";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, realpathSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  createCheckpoint,
+  finishCheckpoint,
+  listCheckpoints,
+  previewCheckpoint,
+  restoreCheckpoint,
+} from "./Checkpoints.js";
+
+const originalCwd = process.cwd();
+let repo: string;
+
+function git(...args: string[]): string {
+  return execFileSync("git", args, { encoding: "utf8" });
+}
+
+beforeEach(() => {
+  repo = realpathSync(mkdtempSync(join(tmpdir(), "anvil-checkpoints-")));
+  process.chdir(repo);
+  git("init", "-q");
+  writeFileSync("a.txt", "one\n");
+  git("add", "a.txt");
+  git("-c", "user.name=test", "-c", "user.email=test@localhost", "commit", "-qm", "init");
+});
+
+afterEach(() => {
+  process.chdir(originalCwd);
+  rmSync(repo, { recursive: true, force: true });
+});
+
+describe("checkpoints", () => {
+  test("restore puts changed, deleted and created files back", async () => {
+    writeFileSync("untracked.txt", "untracked\n");
+    const checkpoint = await createCheckpoint(`${Date.now()}-run`, "break things");
+
+    writeFileSync("a.txt", "wrecked\n");
+    rmSync("untracked.txt");
+    writeFileSync("new.txt", "new\n");
+
+    const preview = await previewCheckpoint(checkpoint);
+    expect(preview.files).toEqual([
+      { path: "a.txt", action: "restore" },
+      { path: "new.txt", action: "delete" },
+      { path: "untracked.txt", action: "restore" },
+    ]);
+    await restoreCheckpoint(checkpoint, preview.files);
+
+    expect(readFileSync("a.txt", "utf8")).toBe("one\n");
+    expect(readFileSync("untracked.txt", "utf8")).toBe("untracked\n");
+    expect(existsSync("new.txt")).toBe(false);
+    // The index and the stash are left alone
+    expect(git("status", "--porcelain")).toBe("?? untracked.txt\n");
+    expect(git("stash", "list")).toBe("");
+  });
+
+  test("only files the run touched are restored", async () => {
+    writeFileSync("b.txt", "two\n");
+    const started = await createCheckpoint(`${Date.now()}-run`, "edit a");
+    writeFileSync("a.txt", "run edit\n");
+    writeFileSync("run-new.txt", "new\n");
+    await finishCheckpoint(started);
+
+    // The user keeps working after the run
+    writeFileSync("b.txt", "user edit\n");
+    writeFileSync("user-new.txt", "mine\n");
+
+    const [checkpoint] = await listCheckpoints();
+    expect(checkpoint.endCommit).not.toBeNull();
+    const preview = await previewCheckpoint(checkpoint);
+    expect(preview.files).toEqual([
+      { path: "a.txt", action: "restore" },
+      { path: "run-new.txt", action: "delete" },
+    ]);
+    expect(preview.diff).not.toContain("b.txt");
+    await restoreCheckpoint(checkpoint, preview.files);
+
+    expect(readFileSync("a.txt", "utf8")).toBe("one\n");
+    expect(existsSync("run-new.txt")).toBe(false);
+    expect(readFileSync("b.txt", "utf8")).toBe("user edit\n");
+    expect(existsSync("user-new.txt")).toBe(true);
+  });
+
+  test("snapshots work when the runtime paths are gitignored", async () => {
+    writeFileSync(".gitignore", ".anvil/journal/\n.anvil/exports/\n");
+    mkdirSync(".anvil/journal", { recursive: true });
+    writeFileSync(".anvil/journal/session.jsonl", "{}\n");
+
+    const checkpoint = await createCheckpoint(`${Date.now()}-run`, "first");
+    writeFileSync("a.txt", "changed\n");
+
+    expect((await listCheckpoints()).map((c) => c.id)).toEqual([checkpoint.id]);
+    expect((await previewCheckpoint(checkpoint)).files).toEqual([{ path: "a.txt", action: "restore" }]);
+  });
+
+  test("runtime paths are never snapshotted or deleted", async () => {
+    const checkpoint = await createCheckpoint(`${Date.now()}-run`, "first");
+    mkdirSync(".anvil/journal", { recursive: true });
+    writeFileSync(".anvil/journal/session.jsonl", "{}\n");
+
+    const preview = await previewCheckpoint(checkpoint);
+    expect(preview.files).toEqual([]);
+    await restoreCheckpoint(checkpoint, preview.files);
+    expect(existsSync(".anvil/journal/session.jsonl")).toBe(true);
+  });
+});
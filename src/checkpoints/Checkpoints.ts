@@ -0,0 +1,338 @@
+/**
+ * Working-tree checkpoints — snapshots taken before each run so `/undo` can
+ * put files back after an agent wrecks them.
+ *
+ * A checkpoint is a commit of the whole working tree, untracked files
+ * included (ignored files are not), stored under a private ref:
+ *   refs/anvil/checkpoints/<run-id>
+ * When the run ends the tree is snapshotted again, as a child commit, under:
+ *   refs/anvil/checkpoint-ends/<run-id>
+ * The two bound what the run touched, so restoring leaves alone files that
+ * only the user changed.
+ *
+ * Snapshots are built in a throwaway index copied from the real one, so the
+ * index, the stash and HEAD are never touched. Restoring writes files from the
+ * checkpoint the same way. Anvil's runtime files (journal, exports) are left
+ * out. Settings are read from `.anvil/checkpoints.json`
+ * in the project and `~/.anvil/checkpoints.json` (project fields override
+ * user fields):
+ *
+ *   { "enabled": true, "maxAgeDays": 7 }
+ */
+
+import { execFile } from "node:child_process";
+import { copyFileSync, existsSync, rmSync } from "node:fs";
+import { join, relative, resolve } from "node:path";
+import { promisify } from "node:util";
+import { getConfigPath, readJsonConfig } from "../utils/config.js";
+
+const execFileAsync = promisify(execFile);
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface Checkpoint {
+  /** The run ID (or "undo-<time>" for the snapshot taken before an undo) */
+  id: string;
+  commit: string;
+  /** What was about to happen, e.g. the prompt */
+  label: string;
+  createdAt: Date;
+  /** Snapshot from when the run ended; null while it runs or if its end wasn't recorded */
+  endCommit: string | null;
+}
+
+/** What restoring a checkpoint does to one file */
+export interface CheckpointFileChange {
+  path: string;
+  /** "restore" rewrites or recreates the file, "delete" removes a file created since */
+  action: "restore" | "delete";
+}
+
+export interface CheckpointPreview {
+  checkpoint: Checkpoint;
+  /** Files the run touched that differ from the checkpoint now */
+  files: CheckpointFileChange[];
+  /** Unified diff of the changes restoring would make */
+  diff: string;
+  truncated: boolean;
+}
+
+export interface CheckpointSettings {
+  enabled: boolean;
+  /** Checkpoints older than this are deleted */
+  maxAgeDays: number;
+}
+
+type CheckpointsFile = Partial<Record<keyof CheckpointSettings, unknown>>;
+
+const CHECKPOINTS_FILE = "checkpoints.json";
+const REF_PREFIX = "refs/anvil/checkpoints/";
+const END_REF_PREFIX = "refs/anvil/checkpoint-ends/";
+const MAX_LABEL_LENGTH = 72;
+const MAX_DIFF_LINES = 400;
+// Paths per checkout-index call, to stay under the command-line length limit
+const RESTORE_BATCH_SIZE = 500;
+const GIT_MAX_BUFFER = 64 * 1024 * 1024;
+// Anvil's own runtime files, which an undo must neither snapshot nor delete
+const RUNTIME_PATHS = ["journal", "exports", "http.json", "sessions.json"];
+// Checkpoint commits aren't anyone's work; a fixed identity also works where user.name is unset
+const GIT_IDENTITY = {
+  GIT_AUTHOR_NAME: "anvil",
+  GIT_AUTHOR_EMAIL: "anvil@localhost",
+  GIT_COMMITTER_NAME: "anvil",
+  GIT_COMMITTER_EMAIL: "anvil@localhost",
+};
+
+export const DEFAULT_CHECKPOINT_SETTINGS: CheckpointSettings = { enabled: true, maxAgeDays: 7 };
+
+// ---------------------------------------------------------------------------
+// Settings
+// ---------------------------------------------------------------------------
+
+/**
+ * Load checkpoint settings from the user and project config files.
+ * Invalid files and fields are skipped and reported in `errors`.
+ */
+export function loadCheckpointSettings(): { settings: CheckpointSettings; errors: string[] } {
+  const settings = { ...DEFAULT_CHECKPOINT_SETTINGS };
+  const errors: string[] = [];
+
+  // User first so project settings override them
+  for (const scope of ["user", "project"] as const) {
+    const filePath = getConfigPath(scope, CHECKPOINTS_FILE);
+    let file: CheckpointsFile | null;
+    try {
+      file = readJsonConfig<CheckpointsFile>(filePath);
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+      continue;
+    }
+    if (!file) continue;
+
+    if (file.enabled !== undefined) {
+      if (typeof file.enabled === "boolean") settings.enabled = file.enabled;
+      else errors.push(`${filePath}: "enabled" must be true or false`);
+    }
+    if (file.maxAgeDays !== undefined) {
+      if (typeof file.maxAgeDays === "number" && file.maxAgeDays > 0) settings.maxAgeDays = file.maxAgeDays;
+      else errors.push(`${filePath}: "maxAgeDays" must be a positive number`);
+    }
+  }
+
+  return { settings, errors };
+}
+
+// ---------------------------------------------------------------------------
+// Git plumbing
+// ---------------------------------------------------------------------------
+
+async function git(args: string[], env?: Record<string, string>): Promise<string> {
+  const { stdout } = await execFileAsync("git", args, {
+    encoding: "utf8",
+    maxBuffer: GIT_MAX_BUFFER,
+    env: env ? { ...process.env, ...env } : process.env,
+  });
+  return stdout;
+}
+
+/** Whether the working directory is inside a git work tree. */
+export async function isGitWorkTree(): Promise<boolean> {
+  try {
+    return (await git(["rev-parse", "--is-inside-work-tree"])).trim() === "true";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Run `fn` with GIT_INDEX_FILE pointing at a scratch index in the git dir,
+ * seeded from the real index (so unchanged files needn't be rehashed) when
+ * `seed` is set. The scratch index is always removed.
+ */
+async function withScratchIndex<T>(seed: boolean, fn: (env: Record<string, string>) => Promise<T>): Promise<T> {
+  const gitDir = (await git(["rev-parse", "--absolute-git-dir"])).trim();
+  const indexPath = join(gitDir, `anvil-checkpoint-index-${process.pid}-${Date.now()}`);
+  const realIndex = join(gitDir, "index");
+  try {
+    if (seed && existsSync(realIndex)) copyFileSync(realIndex, indexPath);
+    return await fn({ GIT_INDEX_FILE: indexPath });
+  } finally {
+    rmSync(indexPath, { force: true });
+  }
+}
+
+/**
+ * Runtime paths `git add` has to be told to skip. Ones the project already
+ * ignores are left out: naming an ignored path makes `git add` fail.
+ */
+async function runtimeExcludes(): Promise<string[]> {
+  const paths = RUNTIME_PATHS.map((name) => relative(process.cwd(), getConfigPath("project", name)));
+  let ignored: Set<string>;
+  try {
+    ignored = new Set((await git(["check-ignore", "--", ...paths])).split("\n").filter(Boolean));
+  } catch {
+    // Exits 1 when none of them is ignored
+    ignored = new Set();
+  }
+  return paths.filter((path) => !ignored.has(path)).map((path) => `:(exclude)${path}`);
+}
+
+/** Tree object of the working tree as it is now, untracked files included. */
+async function snapshotTree(): Promise<string> {
+  const excluded = await runtimeExcludes();
+  return withScratchIndex(true, async (env) => {
+    // The whole work tree even when started from a subdirectory
+    await git(["add", "--all", "--", ":/", ...excluded], env);
+    return (await git(["write-tree"], env)).trim();
+  });
+}
+
+async function headCommit(): Promise<string | null> {
+  try {
+    return (await git(["rev-parse", "--verify", "--quiet", "HEAD"])).trim() || null;
+  } catch {
+    // No commits yet
+    return null;
+  }
+}
+
+function oneLine(text: string): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > MAX_LABEL_LENGTH ? flat.slice(0, MAX_LABEL_LENGTH - 1) + "…" : flat;
+}
+
+/** Files that differ between two trees, with what restoring `to` over `from` does to each. */
+async function changedFiles(from: string, to: string): Promise<CheckpointFileChange[]> {
+  // -z: NUL-separated status/path pairs, with paths unquoted
+  const fields = (await git(["diff", "--name-status", "--no-renames", "-z", from, to])).split("\0");
+  const files: CheckpointFileChange[] = [];
+  for (let i = 0; i + 1 < fields.length; i += 2) {
+    files.push({ path: fields[i + 1], action: fields[i] === "D" ? "delete" : "restore" });
+  }
+  return files;
+}
+
+// Run IDs start with the time in milliseconds; undo snapshots are "undo-<time>"
+function createdAtFromId(id: string): Date {
+  const millis = Number(id.replace(/^undo-/, "").split("-")[0]);
+  return new Date(Number.isFinite(millis) ? millis : 0);
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Snapshot the working tree under `refs/anvil/checkpoints/<id>`. */
+export async function createCheckpoint(id: string, label: string): Promise<Checkpoint> {
+  const tree = await snapshotTree();
+  const head = await headCommit();
+  const subject = oneLine(label) || "checkpoint";
+  const commit = (
+    await git(["commit-tree", tree, ...(head ? ["-p", head] : []), "-m", subject], GIT_IDENTITY)
+  ).trim();
+  await git(["update-ref", `${REF_PREFIX}${id}`, commit]);
+  return { id, commit, label: subject, createdAt: createdAtFromId(id), endCommit: null };
+}
+
+/** Snapshot the working tree as the checkpoint's run ends, under `refs/anvil/checkpoint-ends/<id>`. */
+export async function finishCheckpoint(checkpoint: Checkpoint): Promise<Checkpoint> {
+  const tree = await snapshotTree();
+  const endCommit = (
+    await git(["commit-tree", tree, "-p", checkpoint.commit, "-m", `After: ${checkpoint.label}`], GIT_IDENTITY)
+  ).trim();
+  await git(["update-ref", `${END_REF_PREFIX}${checkpoint.id}`, endCommit]);
+  return { ...checkpoint, endCommit };
+}
+
+/** Checkpoints of this repository, newest first. */
+export async function listCheckpoints(): Promise<Checkpoint[]> {
+  const output = await git([
+    "for-each-ref",
+    "--format=%(refname)%00%(objectname)%00%(subject)",
+    REF_PREFIX,
+    END_REF_PREFIX,
+  ]);
+  const starts: Array<{ id: string; commit: string; label: string }> = [];
+  const ends = new Map<string, string>();
+  for (const line of output.split("\n").filter(Boolean)) {
+    const [ref, commit, label] = line.split("\0");
+    if (ref.startsWith(END_REF_PREFIX)) {
+      ends.set(ref.slice(END_REF_PREFIX.length), commit);
+    } else {
+      starts.push({ id: ref.slice(REF_PREFIX.length), commit, label });
+    }
+  }
+  return starts
+    .map(({ id, commit, label }) => ({
+      id,
+      commit,
+      label,
+      createdAt: createdAtFromId(id),
+      endCommit: ends.get(id) ?? null,
+    }))
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+/** Delete checkpoints older than `maxAgeDays`; returns how many were deleted. */
+export async function pruneCheckpoints(maxAgeDays: number, now: Date = new Date()): Promise<number> {
+  const cutoff = now.getTime() - maxAgeDays * 24 * 60 * 60 * 1000;
+  const expired = (await listCheckpoints()).filter((checkpoint) => checkpoint.createdAt.getTime() < cutoff);
+  for (const checkpoint of expired) {
+    await git(["update-ref", "-d", `${REF_PREFIX}${checkpoint.id}`]);
+    if (checkpoint.endCommit) await git(["update-ref", "-d", `${END_REF_PREFIX}${checkpoint.id}`]);
+  }
+  return expired.length;
+}
+
+/**
+ * What restoring `checkpoint` would change in the working tree as it is now,
+ * limited to the files its run touched. Without a recorded end (the run is
+ * still going, or anvil exited mid-run) that's everything changed since.
+ */
+export async function previewCheckpoint(checkpoint: Checkpoint): Promise<CheckpointPreview> {
+  const current = await snapshotTree();
+  const touched = new Set(
+    (await changedFiles(checkpoint.commit, checkpoint.endCommit ?? current)).map((file) => file.path)
+  );
+  const files = (await changedFiles(current, checkpoint.commit)).filter((file) => touched.has(file.path));
+  if (files.length === 0) {
+    return { checkpoint, files, diff: "", truncated: false };
+  }
+
+  // Paths from `git diff` are relative to the repository root; the diff is cut short anyway
+  const root = (await git(["rev-parse", "--show-toplevel"])).trim();
+  const paths = files.slice(0, RESTORE_BATCH_SIZE).map((file) => file.path);
+  const patch = await git(["-C", root, "--literal-pathspecs", "diff", "--no-renames", current, checkpoint.commit, "--", ...paths]);
+  const lines = patch.split("\n");
+  const truncated = lines.length > MAX_DIFF_LINES || files.length > paths.length;
+  return {
+    checkpoint,
+    files,
+    diff: (truncated ? lines.slice(0, MAX_DIFF_LINES) : lines).join("\n"),
+    truncated,
+  };
+}
+
+/**
+ * Put `files` (from `previewCheckpoint`) back as they were at `checkpoint`:
+ * changed and deleted files are rewritten, files created since are removed.
+ * Nothing else is touched; the index and HEAD are left alone.
+ */
+export async function restoreCheckpoint(checkpoint: Checkpoint, files: CheckpointFileChange[]): Promise<void> {
+  const root = (await git(["rev-parse", "--show-toplevel"])).trim();
+  for (const file of files.filter((f) => f.action === "delete")) {
+    rmSync(resolve(root, file.path), { force: true });
+  }
+
+  const restore = files.filter((f) => f.action === "restore").map((f) => f.path);
+  if (restore.length === 0) return;
+  await withScratchIndex(false, async (env) => {
+    await git(["read-tree", checkpoint.commit], env);
+    // Paths from `git diff` are relative to the repository root
+    for (let i = 0; i < restore.length; i += RESTORE_BATCH_SIZE) {
+      await git(["-C", root, "checkout-index", "--force", "--", ...restore.slice(i, i + RESTORE_BATCH_SIZE)], env);
+    }
+  });
+}
@@ -39,7 +39,7 @@ export interface ParsedCommand {
 // Frontmatter parser (minimal, no dependencies)
 // ---------------------------------------------------------------------------
 
-function parseFrontmatter(content: string): ParsedCommand {
+export function parseFrontmatter(content: string): ParsedCommand {
   const trimmed = content.trimStart();
   if (!trimmed.startsWith("---")) {
     return { frontmatter: {}, body: content };
@@ -0,0 +1,184 @@
+/**
+ * Context budget — when to warn about and compact a filling context window.
+ *
+ * Thresholds are percentages of the token limit reported by `usage.info`,
+ * configured in two JSON files (project fields override user fields):
+ *   <project>/.anvil/context.json
+ *   ~/.anvil/context.json
+ *
+ *   {
+ *     "warnAt": 70,
+ *     "compactAt": 90,
+ *     "compactionPrompt": "Summarize ...",
+ *     "pinnedFiles": ["AGENTS.md", "docs/architecture.md"]
+ *   }
+ *
+ * `null` turns a threshold off. Compaction summarizes the conversation and
+ * continues in a fresh session seeded with the summary, the pinned files and
+ * plan.md.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { getConfigPath, readJsonConfig } from "../utils/config.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ContextBudgetConfig {
+  /** Percentage of the token limit that logs a warning, or null for none */
+  warnAt: number | null;
+  /** Percentage of the token limit that compacts the conversation, or null to only compact with /compact */
+  compactAt: number | null;
+  /** Asks for the summary; the conversation is appended to it */
+  compactionPrompt: string;
+  /** Files (relative to the project root) whose contents are carried into the compacted session */
+  pinnedFiles: string[];
+}
+
+export type ContextBudgetLevel = "ok" | "warn" | "compact";
+
+export interface PinnedFile {
+  path: string;
+  content: string;
+  truncated: boolean;
+}
+
+type ContextFile = Partial<Record<keyof ContextBudgetConfig, unknown>>;
+
+const CONTEXT_FILE = "context.json";
+const MAX_PINNED_FILE_CHARS = 50_000;
+
+export const DEFAULT_COMPACTION_PROMPT = `Summarize the conversation below so you can continue it in a fresh context: the goal, decisions made, files and code changed (with paths), the current state of the work, open questions and next steps. Keep details that would be expensive to rediscover. Reply with the summary only.`;
+
+const COMPACTION_SEED_INTRO = `This session continues an earlier conversation that was compacted to free up context. Pick up where it left off; here is what was kept.`;
+
+export const DEFAULT_CONTEXT_BUDGET: ContextBudgetConfig = {
+  warnAt: 70,
+  compactAt: 90,
+  compactionPrompt: DEFAULT_COMPACTION_PROMPT,
+  pinnedFiles: [],
+};
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+function parseThreshold(name: string, value: unknown): number | null | string {
+  if (value === null) return null;
+  if (typeof value !== "number" || value <= 0 || value > 100) return `"${name}" must be a percentage between 1 and 100, or null`;
+  return value;
+}
+
+function applyFile(config: ContextBudgetConfig, file: ContextFile): { config: ContextBudgetConfig; errors: string[] } {
+  const next = { ...config };
+  const errors: string[] = [];
+
+  for (const name of ["warnAt", "compactAt"] as const) {
+    if (file[name] === undefined) continue;
+    const parsed = parseThreshold(name, file[name]);
+    if (typeof parsed === "string") {
+      errors.push(parsed);
+    } else {
+      next[name] = parsed;
+    }
+  }
+  if (file.compactionPrompt !== undefined) {
+    if (typeof file.compactionPrompt === "string" && file.compactionPrompt.trim()) {
+      next.compactionPrompt = file.compactionPrompt;
+    } else {
+      errors.push(`"compactionPrompt" must be a non-empty string`);
+    }
+  }
+  if (file.pinnedFiles !== undefined) {
+    if (Array.isArray(file.pinnedFiles) && file.pinnedFiles.every((p) => typeof p === "string")) {
+      next.pinnedFiles = file.pinnedFiles;
+    } else {
+      errors.push(`"pinnedFiles" must be a list of paths`);
+    }
+  }
+
+  return { config: next, errors };
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Load the context budget from the user and project config files on top of
+ * the defaults. Invalid files and fields are skipped and reported in `errors`.
+ */
+export function loadContextBudget(): { config: ContextBudgetConfig; errors: string[] } {
+  let config = DEFAULT_CONTEXT_BUDGET;
+  const errors: string[] = [];
+
+  // User first so project settings override them
+  for (const scope of ["user", "project"] as const) {
+    const filePath = getConfigPath(scope, CONTEXT_FILE);
+    let file: ContextFile | null;
+    try {
+      file = readJsonConfig<ContextFile>(filePath);
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+      continue;
+    }
+    if (!file) continue;
+
+    const applied = applyFile(config, file);
+    config = applied.config;
+    errors.push(...applied.errors.map((message) => `${filePath}: ${message}`));
+  }
+
+  return { config, errors };
+}
+
+/** Share of the token limit in use, 0–100 (0 while the limit is unknown). */
+export function contextUsagePercent(currentTokens: number, tokenLimit: number): number {
+  return tokenLimit > 0 ? Math.round((currentTokens / tokenLimit) * 100) : 0;
+}
+
+export function contextBudgetLevel(percent: number, config: ContextBudgetConfig): ContextBudgetLevel {
+  if (config.compactAt !== null && percent >= config.compactAt) return "compact";
+  if (config.warnAt !== null && percent >= config.warnAt) return "warn";
+  return "ok";
+}
+
+/**
+ * Read the pinned files; missing or unreadable ones are reported in `errors`,
+ * and long ones are cut off so a single file can't refill the context.
+ */
+export function readPinnedFiles(paths: string[]): { files: PinnedFile[]; errors: string[] } {
+  const files: PinnedFile[] = [];
+  const errors: string[] = [];
+  for (const path of paths) {
+    const filePath = resolve(process.cwd(), path);
+    if (!existsSync(filePath)) {
+      errors.push(`pinned file ${path} not found`);
+      continue;
+    }
+    try {
+      const content = readFileSync(filePath, "utf-8");
+      const truncated = content.length > MAX_PINNED_FILE_CHARS;
+      files.push({ path, content: truncated ? content.slice(0, MAX_PINNED_FILE_CHARS) : content, truncated });
+    } catch (error) {
+      errors.push(`couldn't read pinned file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return { files, errors };
+}
+
+/** The context a compacted session's first prompt carries. */
+export function buildCompactionSeed(summary: string, pinnedFiles: PinnedFile[], plan: string | null): string {
+  const sections = [COMPACTION_SEED_INTRO, `## Summary of the conversation\n\n${summary}`];
+  for (const file of pinnedFiles) {
+    const note = file.truncated ? " (truncated)" : "";
+    const fence = file.content.includes("```") ? "````" : "```";
+    sections.push(`## Pinned file: ${file.path}${note}\n\n${fence}\n${file.content.trimEnd()}\n${fence}`);
+  }
+  if (plan) {
+    sections.push(`## Current plan (plan.md)\n\n${plan.trim()}`);
+  }
+  return sections.join("\n\n");
+}
@@ -1,24 +1,87 @@
 import { CopilotClient, CopilotSession } from "@github/copilot-sdk";
-import type { ModelInfo, SessionEvent } from "@github/copilot-sdk";
-import type { HarnessEvent, SessionInfo, TranscriptItem, ChatMessage, ToolCallItem } from "../harness/events.js";
+import type { CustomAgentConfig, MCPLocalServerConfig, MessageOptions, ModelInfo, PermissionRequest, PermissionRequestResult, SessionConfig, SessionEvent, Tool, ToolResultObject } from "@github/copilot-sdk";
+import type { HarnessEvent, SessionInfo, TranscriptItem, ChatMessage, ToolCallItem, PermissionKind, PromptAttachment } from "../harness/events.js";
 import { createAssistantMessage, createLogEvent } from "../harness/events.js";
+import type { PluginTool } from "../harness/plugins.js";
+import type { McpServerDefinition } from "../mcp/McpConfig.js";
+import type { AgentDefinition } from "../agents/AgentLoader.js";
+import { resolveProvider } from "../providers/ProviderConfig.js";
+import type { ProviderProfile } from "../providers/ProviderConfig.js";
+import { describeCopilotModel } from "../models/ModelCatalog.js";
+import type {
+  AgentBackend,
+  BackendEventHandler,
+  EphemeralPromptOptions,
+  ModelDescription,
+  PermissionPrompt,
+  PermissionRequestHandler,
+  ReasoningEffort,
+  UserInputHandler,
+} from "../harness/backend.js";
 import * as path from "path";
+import { readFileSync } from "node:fs";
+
+/**
+ * Pull displayable text out of a tool execution result. The session event carries
+ * `{ content }`, while older payloads used the raw ToolResultObject fields.
+ */
+function extractToolOutput(result: unknown): string | undefined {
+  if (!result) return undefined;
+  if (typeof result === "string") return result;
+  if (typeof result !== "object") return undefined;
+
+  const resultObj = result as Record<string, unknown>;
+  for (const key of ["content", "textResultForLlm", "sessionLog"]) {
+    if (typeof resultObj[key] === "string") {
+      return resultObj[key] as string;
+    }
+  }
+  return undefined;
+}
 
-export type AdapterEventHandler = (event: HarnessEvent) => void;
-
-export type UserInputHandler = (
-  request: { question: string; choices?: string[]; allowFreeform?: boolean }
-) => Promise<{ answer: string; wasFreeform: boolean }>;
+type AssistantUsageData = Extract<SessionEvent, { type: "assistant.usage" }>["data"];
+
+/** Token counts of one `assistant.usage` event, for the usage ledger. */
+function usageEvent(runId: string, data: AssistantUsageData): HarnessEvent {
+  return {
+    type: "run.usage",
+    runId,
+    model: data.model,
+    inputTokens: data.inputTokens ?? 0,
+    outputTokens: data.outputTokens ?? 0,
+    cacheReadTokens: data.cacheReadTokens,
+    cacheWriteTokens: data.cacheWriteTokens,
+    cost: data.cost,
+  };
+}
 
-export interface ModelDescription {
-  id: string;
-  name: string;
+const HEALTH_CHECK_INTERVAL_MS = 10_000;
+const HEALTH_CHECK_TIMEOUT_MS = 5_000;
+const RECONNECT_BASE_DELAY_MS = 1_000;
+const RECONNECT_MAX_DELAY_MS = 30_000;
+const RECONNECT_MAX_ATTEMPTS = 8;
+
+/** Reject if `promise` doesn't settle within `ms`. */
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(message)), ms);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
 }
 
-export class CopilotSessionAdapter {
+export class CopilotSessionAdapter implements AgentBackend {
   private client: CopilotClient | null = null;
   private session: CopilotSession | null = null;
-  private eventHandler: AdapterEventHandler | null = null;
+  private eventHandler: BackendEventHandler | null = null;
   private currentRunId: string | null = null;
   private streamingBuffer = "";
   private reasoningBuffer = "";
@@ -32,7 +95,18 @@ export class CopilotSessionAdapter {
   private planWatcher: any = null;
   private workspacePath: string | null = null;
   private userInputHandler: UserInputHandler | null = null;
+  private permissionHandler: PermissionRequestHandler | null = null;
+  private toolProvider: (() => PluginTool[]) | null = null;
+  private mcpServers: McpServerDefinition[] = [];
+  private agentProvider: (() => AgentDefinition[]) | null = null;
+  private reasoningEffortProvider: ((sessionId: string) => ReasoningEffort | null) | null = null;
+  private providers: ProviderProfile[] = [];
   private _currentSessionId: string | null = null;
+  private servedModelRunId: string | null = null;
+  private healthTimer: ReturnType<typeof setInterval> | null = null;
+  // Shared by every caller that notices the CLI is gone, so only one restart runs
+  private recovery: Promise<boolean> | null = null;
+  private isShuttingDown = false;
   private _projectPrefix: string;
 
   constructor() {
@@ -40,7 +114,7 @@ export class CopilotSessionAdapter {
     this._projectPrefix = path.basename(process.cwd()) + "-";
   }
 
-  onEvent(handler: AdapterEventHandler): void {
+  onEvent(handler: BackendEventHandler): void {
     this.eventHandler = handler;
   }
 
@@ -48,6 +122,34 @@ export class CopilotSessionAdapter {
     this.userInputHandler = handler;
   }
 
+  onPermissionRequest(handler: PermissionRequestHandler): void {
+    this.permissionHandler = handler;
+  }
+
+  /** Custom tools are read from the provider each time a session is created or resumed. */
+  setToolProvider(provider: () => PluginTool[]): void {
+    this.toolProvider = provider;
+  }
+
+  /** Custom agents are read from the provider each time a session is created or resumed. */
+  setAgentProvider(provider: () => AgentDefinition[]): void {
+    this.agentProvider = provider;
+  }
+
+  setReasoningEffortProvider(provider: (sessionId: string) => ReasoningEffort | null): void {
+    this.reasoningEffortProvider = provider;
+  }
+
+  /** MCP servers passed to sessions created or resumed after this call. */
+  setMcpServers(servers: McpServerDefinition[]): void {
+    this.mcpServers = servers;
+  }
+
+  /** BYOK provider profiles; their models are listed after initialize(). */
+  setProviders(providers: ProviderProfile[]): void {
+    this.providers = providers;
+  }
+
   get currentModel(): string | null {
     return this._currentModel;
   }
@@ -74,16 +176,33 @@ export class CopilotSessionAdapter {
     try {
       this.client = new CopilotClient({
         autoStart: true,
+        // The SDK's restart is a single attempt that drops all sessions;
+        // the health monitor below restarts with backoff and resumes instead
+        autoRestart: false,
         logLevel: "error",
       });
 
       await this.client.start();
 
-      const models = await this.client.listModels();
-      this._availableModels = models.map((m: ModelInfo) => ({
-        id: m.id,
-        name: m.name,
-      }));
+      let copilotModels: ModelDescription[] = [];
+      try {
+        const models = await this.client.listModels();
+        copilotModels = models.map((m: ModelInfo) => describeCopilotModel(m));
+      } catch (error) {
+        // Air-gapped setups can still run entirely on provider models
+        if (this.providers.length === 0) throw error;
+        const message = error instanceof Error ? error.message : String(error);
+        this.emit(createLogEvent("warn", `Could not list Copilot models, using provider models only: ${message}`));
+      }
+      const providerModels = this.listProviderModels();
+      this._availableModels = [...copilotModels, ...providerModels];
+
+      if (model && !this._availableModels.some((m) => m.id === model)) {
+        throw new Error(`Unknown model: ${model}`);
+      }
+
+      // Without Copilot models the CLI default is unusable, so start on a provider model
+      const initialModel = model ?? (copilotModels.length === 0 ? providerModels[0]?.id : undefined);
 
       // Generate a project-scoped session ID
       const sessionId = this._projectPrefix + Date.now().toString(36);
@@ -91,16 +210,12 @@ export class CopilotSessionAdapter {
       this.session = await this.client.createSession({
         sessionId,
         streaming: true,
-        model,
-        onUserInputRequest: this.userInputHandler
-          ? async (request: any) => {
-              return this.userInputHandler!(request);
-            }
-          : undefined,
+        ...this.modelOptions(initialModel),
+        ...this.sessionOptions(),
       });
 
       this._currentSessionId = sessionId;
-      this._currentModel = model ?? this._availableModels[0]?.id ?? null;
+      this._currentModel = initialModel ?? this._availableModels[0]?.id ?? null;
       this.workspacePath = this.session.workspacePath ?? null;
 
       this.setupSessionEventHandlers();
@@ -109,6 +224,8 @@ export class CopilotSessionAdapter {
       if (this.workspacePath) {
         this.setupPlanWatcher();
       }
+
+      this.startHealthMonitor();
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       const lowerMessage = message.toLowerCase();
@@ -135,6 +252,180 @@ export class CopilotSessionAdapter {
     }
   }
 
+  /**
+   * Options applied to every session the adapter creates or resumes, including
+   * ephemeral ones, so custom tools and prompts from the agent always reach the harness.
+   */
+  private sessionOptions(): Pick<SessionConfig, "tools" | "mcpServers" | "customAgents" | "onUserInputRequest" | "onPermissionRequest"> {
+    return {
+      tools: this.buildCustomTools(),
+      mcpServers: this.buildMcpServers(),
+      customAgents: this.buildCustomAgents(),
+      onUserInputRequest: this.userInputHandler
+        ? async (request) => {
+            return this.userInputHandler!(request);
+          }
+        : undefined,
+      onPermissionRequest: this.permissionHandler
+        ? async (request) => {
+            return this.requestPermission(request);
+          }
+        : undefined,
+    };
+  }
+
+  private listProviderModels(): ModelDescription[] {
+    return this.providers.flatMap((profile) =>
+      profile.models.map((model) => ({
+        id: `${profile.name}/${model.id}`,
+        name: model.name,
+        provider: profile.name,
+        contextWindow: model.contextWindow,
+        vision: model.vision,
+        reasoning: model.reasoning,
+      }))
+    );
+  }
+
+  private reasoningEffortFor(sessionId: string | null): ReasoningEffort | null {
+    return sessionId ? this.reasoningEffortProvider?.(sessionId) ?? null : null;
+  }
+
+  /**
+   * Session model options for a model ID. Provider models are listed as
+   * "<profile>/<model>"; the SDK gets the bare model name plus the profile's
+   * endpoint and credentials. Copilot models pass through unchanged.
+   * Reasoning effort is only sent to models that support it.
+   */
+  private modelOptions(
+    modelId: string | null | undefined,
+    reasoningEffort: ReasoningEffort | null = null
+  ): Pick<SessionConfig, "model" | "provider" | "reasoningEffort"> {
+    const description = this._availableModels.find((m) => m.id === modelId);
+    const effort = reasoningEffort && description?.reasoning ? { reasoningEffort } : {};
+    const profile = description?.provider
+      ? this.providers.find((p) => p.name === description.provider)
+      : undefined;
+    if (!profile || !modelId) {
+      return { model: modelId ?? undefined, ...effort };
+    }
+    return {
+      model: modelId.slice(profile.name.length + 1),
+      provider: resolveProvider(profile),
+      ...effort,
+    };
+  }
+
+  private buildCustomTools(): Tool[] | undefined {
+    const tools = this.toolProvider?.() ?? [];
+    if (tools.length === 0) return undefined;
+
+    return tools.map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+      handler: async (args: unknown): Promise<unknown> => {
+        try {
+          const result = await tool.handler((args ?? {}) as Record<string, unknown>);
+          return result ?? "";
+        } catch (error) {
+          // Surface the plugin's own error message to both the model and the transcript
+          const message = error instanceof Error ? error.message : String(error);
+          const failure: ToolResultObject = {
+            textResultForLlm: `Error: ${message}`,
+            resultType: "failure",
+            error: message,
+          };
+          return failure;
+        }
+      },
+    }));
+  }
+
+  private buildMcpServers(): Record<string, MCPLocalServerConfig> | undefined {
+    if (this.mcpServers.length === 0) return undefined;
+
+    return Object.fromEntries(
+      this.mcpServers.map((server) => [
+        server.name,
+        {
+          type: "local",
+          command: server.command,
+          args: server.args,
+          env: server.env,
+          cwd: server.cwd,
+          tools: server.tools,
+          timeout: server.timeout,
+        },
+      ])
+    );
+  }
+
+  private buildCustomAgents(): CustomAgentConfig[] | undefined {
+    const agents = this.agentProvider?.() ?? [];
+    if (agents.length === 0) return undefined;
+
+    return agents.map((agent) => ({
+      name: agent.name,
+      displayName: agent.displayName,
+      description: agent.description || undefined,
+      tools: agent.tools,
+      prompt: agent.prompt,
+    }));
+  }
+
+  private async requestPermission(request: PermissionRequest): Promise<PermissionRequestResult> {
+    const outcome = await this.permissionHandler!(this.describePermissionRequest(request));
+    switch (outcome) {
+      case "approved":
+        return { kind: "approved" };
+      case "denied-by-rules":
+        return { kind: "denied-by-rules" };
+      case "denied-by-user":
+        return { kind: "denied-interactively-by-user" };
+    }
+  }
+
+  /**
+   * Flatten the kind-specific fields of an SDK permission request.
+   * The SDK types the payload loosely, so every field is read defensively.
+   */
+  private describePermissionRequest(request: PermissionRequest): PermissionPrompt {
+    const str = (value: unknown): string | undefined =>
+      typeof value === "string" && value.length > 0 ? value : undefined;
+
+    const prompt: PermissionPrompt = {
+      kind: request.kind,
+      intention: str(request.intention) ?? request.kind,
+      toolCallId: request.toolCallId,
+    };
+
+    switch (request.kind) {
+      case "shell":
+        prompt.target = str(request.fullCommandText);
+        break;
+      case "write":
+        prompt.target = str(request.fileName);
+        prompt.diff = str(request.diff);
+        break;
+      case "read":
+        prompt.target = str(request.path);
+        break;
+      case "url":
+        prompt.target = str(request.url);
+        break;
+      case "mcp": {
+        const server = str(request.serverName);
+        const tool = str(request.toolName);
+        prompt.target = server && tool ? `${server}/${tool}` : tool ?? server;
+        prompt.intention = str(request.toolTitle) ?? prompt.intention;
+        break;
+      }
+    }
+
+    return prompt;
+  }
+
   private setupSessionEventHandlers(): void {
     if (!this.session) return;
 
@@ -285,6 +576,7 @@ export class CopilotSessionAdapter {
               toolCallId: event.data?.toolCallId ?? "",
               toolName: event.data?.toolName ?? "unknown",
               arguments: typeof args === "object" && args !== null ? args as Record<string, unknown> : undefined,
+              mcpServerName: event.data?.mcpServerName,
             });
           }
           break;
@@ -328,27 +620,12 @@ export class CopilotSessionAdapter {
           if (gen !== this.expectedRunGeneration) return;
 
           if (this.currentRunId) {
-            let output: string | undefined;
-            const result = event.data?.result;
-            if (result) {
-              if (typeof result === "string") {
-                output = result;
-              } else if (typeof result === "object" && result !== null) {
-                const resultObj = result as Record<string, unknown>;
-                if (typeof resultObj.textResultForLlm === "string") {
-                  output = resultObj.textResultForLlm;
-                } else if (typeof resultObj.sessionLog === "string") {
-                  output = resultObj.sessionLog;
-                }
-              }
-            }
-
             this.emit({
               type: "tool.completed",
               runId: this.currentRunId,
               toolCallId: event.data?.toolCallId ?? "",
               success: event.data?.success ?? false,
-              output,
+              output: extractToolOutput(event.data?.result),
               error: event.data?.error?.message,
             });
           }
@@ -442,7 +719,12 @@ export class CopilotSessionAdapter {
         }
 
         case "session.model_change": {
-          this._currentModel = event.data?.newModel ?? null;
+          const newModel = event.data?.newModel ?? null;
+          // The CLI reports provider models by bare name; keep the "<profile>/<model>" ID
+          const current = this._availableModels.find((m) => m.id === this._currentModel);
+          if (!current?.provider || !this._currentModel?.endsWith(`/${newModel}`)) {
+            this._currentModel = newModel;
+          }
           this.emit({
             type: "model.changed",
             model: this._currentModel,
@@ -461,6 +743,23 @@ export class CopilotSessionAdapter {
         }
 
         case "assistant.usage": {
+          // Report the model that actually served the run (first usage event per run)
+          const servedBy = event.data?.model;
+          if (servedBy && this.currentRunId && this.isProcessing && gen === this.expectedRunGeneration
+              && this.servedModelRunId !== this.currentRunId) {
+            this.servedModelRunId = this.currentRunId;
+            this.emit({
+              type: "run.model",
+              runId: this.currentRunId,
+              model: servedBy,
+            });
+            this.emit(createLogEvent("info", `Run served by ${servedBy}`, this.currentRunId));
+          }
+
+          if (this.currentRunId && this.isProcessing && gen === this.expectedRunGeneration) {
+            this.emit(usageEvent(this.currentRunId, event.data));
+          }
+
           // Extract remaining premium requests from quota snapshots if available
           const quotaSnapshots = event.data?.quotaSnapshots;
           let remainingPremiumRequests: number | null = null;
@@ -552,9 +851,13 @@ export class CopilotSessionAdapter {
     });
   }
 
-  async sendPrompt(prompt: string, runId: string, images?: string[]): Promise<void> {
-    if (!this.session) {
-      throw new Error("Session not initialized");
+  async sendPrompt(prompt: string, runId: string, images?: string[], mentions?: PromptAttachment[]): Promise<void> {
+    // A restart may be under way (or may have given up); wait for a live session first
+    if (this.recovery || !this.session || this.client?.getState() !== "connected") {
+      const recovered = await this.recover("CLI not connected");
+      if (!recovered) {
+        throw new Error("Copilot CLI is not connected");
+      }
     }
 
     this.expectedRunGeneration++;
@@ -566,50 +869,80 @@ export class CopilotSessionAdapter {
     this.isProcessing = true;
     this.hasEmittedContentForTurn = false;
 
-    // Build attachments from images
-    const attachments = images?.map((imagePath) => ({
-      type: "file" as const,
-      path: imagePath,
-    }));
+    const attachments = this.buildAttachments(images, mentions);
 
     try {
-      await this.session.send({ 
+      await this.session!.send({ 
         prompt, 
         attachments: attachments && attachments.length > 0 ? attachments : undefined 
       });
     } catch (error) {
-      // Check if the error is due to an expired/invalid session
       const message = error instanceof Error ? error.message : String(error);
-      const lowerMessage = message.toLowerCase();
-      
-      if (lowerMessage.includes("session") || 
-          lowerMessage.includes("expired") ||
-          lowerMessage.includes("invalid") ||
-          lowerMessage.includes("closed") ||
-          lowerMessage.includes("terminated")) {
-        // Attempt to renew the session
-        this.emit(createLogEvent("warn", "Session expired, renewing...", runId));
-        await this.renewSession();
-        
-        // Bump generation to invalidate any stale events from the old session
-        this.expectedRunGeneration++;
-        this.currentRunGeneration = this.expectedRunGeneration;
-        this.streamingBuffer = "";
-        this.reasoningBuffer = "";
-        this.hasEmittedContentForTurn = false;
-
-        this.emit(createLogEvent("info", "Session renewed, retrying prompt...", runId));
-        
-        // Retry the prompt with the new session
-        await this.session!.send({ 
-          prompt, 
-          attachments: attachments && attachments.length > 0 ? attachments : undefined 
-        });
-      } else {
-        // Re-throw if it's not a session-related error
+
+      // Only a dead connection is worth a restart; other errors are the prompt's own
+      if (await this.isClientHealthy()) {
+        this.isProcessing = false;
         throw error;
       }
+
+      this.emit(createLogEvent("warn", `Copilot CLI unreachable (${message}), reconnecting...`, runId));
+      // The run never reached the CLI, so recovery must not finish it
+      this.isProcessing = false;
+      const recovered = await this.recover(message);
+      if (!recovered) {
+        throw new Error("Copilot CLI is not connected");
+      }
+
+      // Bump generation to invalidate any stale events from the old session
+      this.expectedRunGeneration++;
+      this.currentRunGeneration = this.expectedRunGeneration;
+      this.currentRunId = runId;
+      this.streamingBuffer = "";
+      this.reasoningBuffer = "";
+      this.isCancelled = false;
+      this.isProcessing = true;
+      this.hasEmittedContentForTurn = false;
+
+      this.emit(createLogEvent("info", "Reconnected, retrying prompt...", runId));
+      await this.session!.send({ 
+        prompt, 
+        attachments: attachments && attachments.length > 0 ? attachments : undefined 
+      });
+    }
+  }
+
+  /** SDK attachments for image paths and @-mentioned files, directories and line ranges. */
+  private buildAttachments(images?: string[], mentions?: PromptAttachment[]): MessageOptions["attachments"] {
+    const attachments: NonNullable<MessageOptions["attachments"]> = (images ?? []).map((imagePath) => ({
+      type: "file" as const,
+      path: imagePath,
+    }));
+
+    for (const mention of mentions ?? []) {
+      if (mention.type !== "selection") {
+        attachments.push(mention);
+        continue;
+      }
+      // Send the selected text too, so the range doesn't depend on how the CLI counts lines
+      let selected: string[] = [];
+      try {
+        selected = readFileSync(mention.filePath, "utf-8").split("\n").slice(mention.startLine - 1, mention.endLine);
+      } catch {
+        // The CLI can still read the file itself
+      }
+      attachments.push({
+        type: "selection",
+        filePath: mention.filePath,
+        displayName: mention.displayName,
+        selection: {
+          start: { line: mention.startLine, character: 0 },
+          end: { line: mention.endLine, character: selected[selected.length - 1]?.length ?? 0 },
+        },
+        text: selected.length > 0 ? selected.join("\n") : undefined,
+      });
     }
+
+    return attachments;
   }
 
   async abort(): Promise<void> {
@@ -640,12 +973,96 @@ export class CopilotSessionAdapter {
     }
   }
 
-  private async renewSession(): Promise<void> {
-    if (!this.client) {
-      throw new Error("Client not initialized");
+  // -------------------------------------------------------------------------
+  // Health monitoring and crash recovery
+  // -------------------------------------------------------------------------
+
+  private startHealthMonitor(): void {
+    this.stopHealthMonitor();
+    this.healthTimer = setInterval(() => {
+      if (this.recovery || this.isShuttingDown) return;
+      void this.isClientHealthy().then((healthy) => {
+        if (!healthy) {
+          void this.recover("Health check failed");
+        }
+      });
+    }, HEALTH_CHECK_INTERVAL_MS);
+  }
+
+  private stopHealthMonitor(): void {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+    }
+  }
+
+  private async isClientHealthy(): Promise<boolean> {
+    if (!this.client || this.client.getState() !== "connected") return false;
+    try {
+      await withTimeout(this.client.ping(), HEALTH_CHECK_TIMEOUT_MS, "Ping timed out");
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Restart the CLI and resume the current session under the same ID,
+   * retrying with exponential backoff. Resolves to false after the last
+   * attempt fails; the next prompt starts a fresh round of attempts.
+   */
+  private recover(reason: string): Promise<boolean> {
+    if (this.isShuttingDown) return Promise.resolve(false);
+    if (!this.recovery) {
+      this.recovery = this.runRecovery(reason).finally(() => {
+        this.recovery = null;
+      });
+    }
+    return this.recovery;
+  }
+
+  private async runRecovery(reason: string): Promise<boolean> {
+    if (!this.client) return false;
+
+    // A run in flight died with the CLI; finish it so the UI doesn't wait forever
+    const interruptedRunId = this.isProcessing ? this.currentRunId : null;
+    if (interruptedRunId) {
+      this.isProcessing = false;
+      this.expectedRunGeneration++;
+      this.currentRunId = null;
+      this.emit(createLogEvent("error", "Run interrupted: Copilot CLI stopped responding", interruptedRunId));
+      this.emit({ type: "run.finished", runId: interruptedRunId, createdAt: new Date() });
     }
 
-    const currentModel = this._currentModel;
+    let lastError = reason;
+    for (let attempt = 1; attempt <= RECONNECT_MAX_ATTEMPTS; attempt++) {
+      if (this.isShuttingDown) return false;
+      this.emit({ type: "connection.changed", state: "reconnecting", attempt, error: lastError });
+
+      try {
+        await this.restartClient();
+        this.emit({ type: "connection.changed", state: "connected" });
+        this.emit(createLogEvent("info", `Reconnected to Copilot CLI (session ${this._currentSessionId})`));
+        return true;
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : String(error);
+        this.emit(createLogEvent("warn", `Reconnect attempt ${attempt} failed: ${lastError}`));
+      }
+
+      if (attempt < RECONNECT_MAX_ATTEMPTS) {
+        const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1), RECONNECT_MAX_DELAY_MS);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+
+    this.emit({ type: "connection.changed", state: "disconnected", error: lastError });
+    this.emit(createLogEvent("error", `Copilot CLI disconnected: ${lastError}. Send a prompt to retry.`));
+    return false;
+  }
+
+  /** Restart the CLI process and reattach to the current session. */
+  private async restartClient(): Promise<void> {
+    const client = this.client!;
 
     if (this.planWatcher) {
       try {
@@ -655,20 +1072,35 @@ export class CopilotSessionAdapter {
       }
       this.planWatcher = null;
     }
+    this.session = null;
 
-    if (this.session) {
-      try {
-        await this.session.destroy();
-      } catch {
-        // Ignore destroy errors
-      }
+    try {
+      await client.stop();
+    } catch {
+      await client.forceStop();
     }
+    await client.start();
 
-    this.session = await this.client.createSession({
-      streaming: true,
-      model: currentModel ?? undefined,
-    });
+    const sessionId = this._currentSessionId ?? this._projectPrefix + Date.now().toString(36);
+    try {
+      this.session = await client.resumeSession(sessionId, {
+        streaming: true,
+        ...this.modelOptions(this._currentModel, this.reasoningEffortFor(sessionId)),
+        ...this.sessionOptions(),
+      });
+    } catch (error) {
+      // Sessions that never persisted anything can't be resumed; recreate under the same ID
+      const message = error instanceof Error ? error.message : String(error);
+      this.emit(createLogEvent("warn", `Could not resume session ${sessionId} (${message}), recreating it`));
+      this.session = await client.createSession({
+        sessionId,
+        streaming: true,
+        ...this.modelOptions(this._currentModel, this.reasoningEffortFor(sessionId)),
+        ...this.sessionOptions(),
+      });
+    }
 
+    this._currentSessionId = sessionId;
     this.workspacePath = this.session.workspacePath ?? null;
     this.setupSessionEventHandlers();
 
@@ -691,56 +1123,68 @@ export class CopilotSessionAdapter {
       throw new Error("No active session to switch model");
     }
 
-    if (this.planWatcher) {
-      try {
-        this.planWatcher.close();
-      } catch {
-        // Ignore
-      }
-      this.planWatcher = null;
+    if (this._availableModels.length > 0 && !this._availableModels.some((m) => m.id === modelId)) {
+      throw new Error(`Unknown model: ${modelId}`);
     }
 
-    if (this.session) {
-      try {
-        await this.session.destroy();
-      } catch {
-        // Ignore destroy errors
-      }
-    }
+    await this.reattachSession(modelId, this.reasoningEffortFor(sessionId));
 
-    const sessionOpts = {
-      sessionId,
-      streaming: true as const,
+    this._currentModel = modelId;
+    this.emit({
+      type: "model.changed",
       model: modelId,
-      onUserInputRequest: this.userInputHandler
-        ? async (request: any) => {
-            return this.userInputHandler!(request);
-          }
-        : undefined,
-    };
+    });
+  }
 
-    try {
-      this.session = await this.client.resumeSession(sessionId, {
-        streaming: true,
-        model: modelId,
-        onUserInputRequest: sessionOpts.onUserInputRequest,
-      });
-    } catch {
-      this.session = await this.client.createSession(sessionOpts);
+  async setReasoningEffort(effort: ReasoningEffort | null): Promise<void> {
+    if (!this.client) {
+      throw new Error("Client not initialized");
     }
 
-    this._currentModel = modelId;
-    this.workspacePath = this.session.workspacePath ?? null;
-    this.setupSessionEventHandlers();
+    if (this.isProcessing) {
+      throw new Error("Cannot change reasoning effort while processing");
+    }
 
-    if (this.workspacePath) {
-      this.setupPlanWatcher();
+    await this.reattachSession(this._currentModel, effort);
+  }
+
+  /**
+   * Resume the current session with new model options.
+   * Resumes on top of the live session rather than destroying it first:
+   * destroy would end the session on the CLI side, and if the resume is
+   * rejected the current session object stays registered and keeps serving.
+   */
+  private async reattachSession(modelId: string | null, effort: ReasoningEffort | null): Promise<void> {
+    const sessionId = this._currentSessionId;
+    if (!this.client || !sessionId) {
+      throw new Error("No active session");
     }
 
-    this.emit({
-      type: "model.changed",
-      model: modelId,
+    const session = await this.client.resumeSession(sessionId, {
+      streaming: true,
+      ...this.modelOptions(modelId, effort),
+      ...this.sessionOptions(),
     });
+
+    const previousWorkspacePath = this.workspacePath;
+    this.session = session;
+    this.workspacePath = session.workspacePath ?? null;
+    this.setupSessionEventHandlers();
+
+    // Same session ID normally means the same workspace, so the watcher keeps running
+    if (this.workspacePath !== previousWorkspacePath || !this.planWatcher) {
+      if (this.planWatcher) {
+        try {
+          this.planWatcher.close();
+        } catch {
+          // Ignore
+        }
+        this.planWatcher = null;
+      }
+      if (this.workspacePath) {
+        this.setupPlanWatcher();
+      }
+    }
   }
 
   private setupPlanWatcher(): void {
@@ -845,12 +1289,8 @@ export class CopilotSessionAdapter {
     this.session = await this.client.createSession({
       sessionId,
       streaming: true,
-      model: this._currentModel ?? undefined,
-      onUserInputRequest: this.userInputHandler
-        ? async (request: any) => {
-            return this.userInputHandler!(request);
-          }
-        : undefined,
+      ...this.modelOptions(this._currentModel),
+      ...this.sessionOptions(),
     });
 
     this._currentSessionId = sessionId;
@@ -900,12 +1340,8 @@ export class CopilotSessionAdapter {
     // Resume the target session
     this.session = await this.client.resumeSession(sessionId, {
       streaming: true,
-      model: this._currentModel ?? undefined,
-      onUserInputRequest: this.userInputHandler
-        ? async (request: any) => {
-            return this.userInputHandler!(request);
-          }
-        : undefined,
+      ...this.modelOptions(this._currentModel, this.reasoningEffortFor(sessionId)),
+      ...this.sessionOptions(),
     });
 
     this._currentSessionId = sessionId;
@@ -929,12 +1365,31 @@ export class CopilotSessionAdapter {
     });
   }
 
+  async getSessionTranscript(sessionId: string): Promise<TranscriptItem[]> {
+    if (!this.client) {
+      throw new Error("Client not initialized");
+    }
+
+    if (sessionId === this._currentSessionId) {
+      return this.getSessionHistory();
+    }
+
+    // A separate, read-only attachment: nothing is subscribed and the current session is untouched
+    const session = await this.client.resumeSession(sessionId, { disableResume: true });
+    try {
+      return this.transcriptFromEvents(await session.getMessages());
+    } finally {
+      try {
+        await session.destroy();
+      } catch {
+        // Ignore destroy errors
+      }
+    }
+  }
+
   /**
    * Retrieve the conversation history from the current session and convert
    * SDK events into TranscriptItems suitable for rendering in the UI.
-   *
-   * Only non-ephemeral user.message, assistant.message, tool.execution_start,
-   * and tool.execution_complete events are included.
    */
   private async getSessionHistory(): Promise<TranscriptItem[]> {
     if (!this.session) return [];
@@ -946,6 +1401,14 @@ export class CopilotSessionAdapter {
       return [];
     }
 
+    return this.transcriptFromEvents(events);
+  }
+
+  /**
+   * Only non-ephemeral user.message, assistant.message, tool.execution_start,
+   * and tool.execution_complete events are included.
+   */
+  private transcriptFromEvents(events: SessionEvent[]): TranscriptItem[] {
     const transcript: TranscriptItem[] = [];
     // Map toolCallId -> index in transcript for patching tool completions
     const toolCallIndex = new Map<string, number>();
@@ -1031,10 +1494,7 @@ export class CopilotSessionAdapter {
   async runEphemeralPrompt(
     prompt: string,
     runId: string,
-    options?: {
-      model?: string;
-      onEvent?: (event: HarnessEvent) => void;
-    }
+    options?: EphemeralPromptOptions
   ): Promise<void> {
     if (!this.client) {
       throw new Error("Client not initialized");
@@ -1055,14 +1515,10 @@ export class CopilotSessionAdapter {
       ephemeralSession = await this.client.createSession({
         sessionId: ephemeralSessionId,
         streaming: true,
-        model,
+        ...this.modelOptions(model),
         // Disable infinite sessions to prevent persistence
         infiniteSessions: { enabled: false },
-        onUserInputRequest: this.userInputHandler
-          ? async (request: any) => {
-              return this.userInputHandler!(request);
-            }
-          : undefined,
+        ...this.sessionOptions(),
       });
 
       // Track accumulated streaming content for the ephemeral session,
@@ -1128,26 +1584,12 @@ export class CopilotSessionAdapter {
 
           case "tool.execution_complete": {
             if (onEvent) {
-              let output: string | undefined;
-              const result = event.data?.result;
-              if (result) {
-                if (typeof result === "string") {
-                  output = result;
-                } else if (typeof result === "object" && result !== null) {
-                  const resultObj = result as Record<string, unknown>;
-                  if (typeof resultObj.textResultForLlm === "string") {
-                    output = resultObj.textResultForLlm;
-                  } else if (typeof resultObj.sessionLog === "string") {
-                    output = resultObj.sessionLog;
-                  }
-                }
-              }
               onEvent({
                 type: "tool.completed",
                 runId,
                 toolCallId: event.data?.toolCallId ?? "",
                 success: event.data?.success ?? false,
-                output,
+                output: extractToolOutput(event.data?.result),
                 error: event.data?.error?.message,
               });
             }
@@ -1165,6 +1607,13 @@ export class CopilotSessionAdapter {
             break;
           }
 
+          case "assistant.usage": {
+            if (onEvent && event.data) {
+              onEvent(usageEvent(runId, event.data));
+            }
+            break;
+          }
+
           case "assistant.intent": {
             const intent = event.data?.intent;
             if (intent && onEvent) {
@@ -1204,6 +1653,9 @@ export class CopilotSessionAdapter {
   }
 
   async shutdown(): Promise<void> {
+    this.isShuttingDown = true;
+    this.stopHealthMonitor();
+
     if (this.planWatcher) {
       try {
         this.planWatcher.close();
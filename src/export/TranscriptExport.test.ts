@@ -0,0 +1,144 @@
+import { describe, expect, test } from "bun:test";
+import type { EphemeralRun } from "../harness/Harness.js";
+import type { ChatMessage, ToolCallItem } from "../harness/events.js";
+import {
+  buildExportDocument,
+  parseExportFormat,
+  renderExport,
+  type ExportOptions,
+  type TranscriptSnapshot,
+} from "./TranscriptExport.js";
+
+const at = new Date("2026-03-04T05:06:07.000Z");
+
+const question: ChatMessage = { id: "m1", kind: "message", role: "user", content: "Rename <Foo> & fix it", createdAt: at };
+const answer: ChatMessage = {
+  id: "m2",
+  kind: "message",
+  role: "assistant",
+  content: "Done:\n```ts\nconst foo = 1;\n```",
+  reasoning: "Simple rename",
+  createdAt: at,
+};
+const edit: ToolCallItem = {
+  id: "t1",
+  kind: "tool-call",
+  toolCallId: "call-1",
+  toolName: "edit",
+  arguments: { path: "src/a.ts", old_str: "Foo\n", new_str: "Bar\n" },
+  progress: ["reading src/a.ts"],
+  status: "completed",
+  startedAt: at,
+  completedAt: new Date(at.getTime() + 2500),
+  output: "secret output",
+};
+const failed: ToolCallItem = {
+  id: "t2",
+  kind: "tool-call",
+  toolCallId: "call-2",
+  toolName: "shell",
+  arguments: { command: "npm test" },
+  progress: [],
+  status: "failed",
+  startedAt: at,
+  completedAt: new Date(at.getTime() + 40),
+  error: "exit code 1",
+};
+const smartCommit: EphemeralRun = {
+  runId: "r2",
+  displayText: "Smart commit",
+  transcript: [{ ...answer, id: "m3", content: "Committed", reasoning: undefined }],
+  streamingContent: "",
+  status: "completed",
+  startedAt: at,
+};
+
+const snapshot: TranscriptSnapshot = {
+  sessionId: "s1",
+  model: "gpt-test",
+  transcript: [question, edit, failed, answer],
+  plan: "1. Rename\n2. Test\n",
+  ephemeralRuns: [smartCommit],
+};
+
+function exportAs(options: Partial<ExportOptions> & Pick<ExportOptions, "format">): string {
+  const doc = buildExportDocument(snapshot, { redactToolOutputs: false, includeEphemeral: false, ...options });
+  return renderExport(doc, options.format);
+}
+
+describe("parseExportFormat", () => {
+  test("accepts the formats and md", () => {
+    expect(["md", "Markdown", "html", "JSON", "pdf"].map(parseExportFormat)).toEqual([
+      "markdown",
+      "markdown",
+      "html",
+      "json",
+      null,
+    ]);
+  });
+});
+
+describe("markdown", () => {
+  test("renders messages, tool calls, diffs and the plan", () => {
+    const markdown = exportAs({ format: "markdown" });
+    expect(markdown).toStartWith("# Session s1\n\n- Model: gpt-test\n- Exported: ");
+    expect(markdown).toContain("### User · 2026-03-04 05:06:07\n\nRename <Foo> & fix it");
+    expect(markdown).toContain("<details><summary>Reasoning</summary>\n\nSimple rename\n\n</details>");
+    expect(markdown).toContain("#### ✓ `edit` (2.5s)");
+    expect(markdown).toContain("-Foo\n+Bar");
+    expect(markdown).toContain("Output:\n\n```\nsecret output\n```");
+    expect(markdown).toContain("#### ✗ `shell` (40ms)");
+    expect(markdown).toContain("**Error:** exit code 1");
+    expect(markdown).toContain("## Plan\n\n1. Rename\n2. Test");
+    expect(markdown).not.toContain("Ephemeral runs");
+  });
+
+  test("fences tool output with more backticks than it contains", () => {
+    const output: ToolCallItem = { ...edit, toolName: "view", arguments: {}, progress: [], output: "```ts\nconst foo = 1;\n```" };
+    const doc = buildExportDocument({ ...snapshot, transcript: [output] }, { format: "markdown", redactToolOutputs: false, includeEphemeral: false });
+    expect(renderExport(doc, "markdown")).toContain("Output:\n\n````\n```ts\nconst foo = 1;\n```\n````");
+  });
+
+  test("appends ephemeral runs on request", () => {
+    const markdown = exportAs({ format: "markdown", includeEphemeral: true });
+    expect(markdown).toContain("## Ephemeral runs\n\n### Smart commit (completed, 2026-03-04 05:06:07)");
+    expect(markdown).toContain("Committed");
+  });
+});
+
+describe("redaction", () => {
+  test("replaces tool outputs and progress but keeps arguments and errors", () => {
+    const doc = buildExportDocument(snapshot, { format: "json", redactToolOutputs: true, includeEphemeral: true });
+    const tools = doc.transcript.filter((item): item is ToolCallItem => item.kind === "tool-call");
+    expect(tools[0]).toMatchObject({ output: "[redacted]", progress: ["[redacted]"], arguments: edit.arguments });
+    expect(tools[1]).toMatchObject({ output: undefined, progress: [], error: "exit code 1" });
+    expect(doc.redactedToolOutputs).toBe(true);
+    // The snapshot itself is left alone
+    expect(edit.output).toBe("secret output");
+
+    const markdown = renderExport(doc, "markdown");
+    expect(markdown).not.toContain("secret output");
+    expect(markdown).toContain("- Tool outputs redacted");
+  });
+});
+
+describe("html", () => {
+  test("escapes content and marks failures", () => {
+    const html = exportAs({ format: "html" });
+    expect(html).toStartWith("<!DOCTYPE html>");
+    expect(html).toContain("<title>Session s1</title>");
+    expect(html).toContain("Rename &lt;Foo&gt; &amp; fix it");
+    expect(html).not.toContain("<Foo>");
+    expect(html).toContain(`<div class="tool failed">`);
+    expect(html).toContain(`<span class="del">-Foo</span>`);
+    expect(html).toContain(`<span class="add">+Bar</span>`);
+  });
+});
+
+describe("json", () => {
+  test("is lossless apart from dates becoming ISO strings", () => {
+    const parsed = JSON.parse(exportAs({ format: "json" }));
+    expect(parsed).toMatchObject({ version: 1, sessionId: "s1", model: "gpt-test", plan: snapshot.plan, ephemeralRuns: [] });
+    expect(parsed.transcript).toEqual(JSON.parse(JSON.stringify(snapshot.transcript)));
+  });
+});
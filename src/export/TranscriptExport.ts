@@ -0,0 +1,339 @@
+/**
+ * Transcript export — turns a session's transcript into Markdown, a
+ * self-contained HTML page or lossless JSON for PRs and postmortems.
+ *
+ * Exports include tool calls (arguments, progress, outputs, errors and
+ * durations), reasoning, edit diffs and the latest plan.md. Tool outputs can
+ * be redacted, and ephemeral runs (e.g. smart commit) can be appended.
+ */
+
+import type { EphemeralRun } from "../harness/Harness.js";
+import type { ChatMessage, ToolCallItem, TranscriptItem } from "../harness/events.js";
+import { getEditDiff } from "../utils/editDiff.js";
+import { catppuccin, type CatppuccinPalette } from "../ui/theme.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type ExportFormat = "markdown" | "html" | "json";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["markdown", "html", "json"];
+
+export interface ExportOptions {
+  format: ExportFormat;
+  /** Replace tool outputs and progress with a placeholder */
+  redactToolOutputs: boolean;
+  /** Append ephemeral runs after the main transcript */
+  includeEphemeral: boolean;
+}
+
+/** Everything an export is built from, captured by the harness. */
+export interface TranscriptSnapshot {
+  sessionId: string | null;
+  model: string | null;
+  transcript: TranscriptItem[];
+  plan: string | null;
+  ephemeralRuns: EphemeralRun[];
+}
+
+/** The JSON export; Markdown and HTML render the same document. */
+export interface ExportDocument extends TranscriptSnapshot {
+  version: 1;
+  exportedAt: Date;
+  redactedToolOutputs: boolean;
+}
+
+const REDACTED = "[redacted]";
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  markdown: "md",
+  html: "html",
+  json: "json",
+};
+
+// ---------------------------------------------------------------------------
+// Building
+// ---------------------------------------------------------------------------
+
+export function exportFileExtension(format: ExportFormat): string {
+  return FILE_EXTENSIONS[format];
+}
+
+/** Accepts "md" as shorthand for markdown. */
+export function parseExportFormat(value: string): ExportFormat | null {
+  const normalized = value.toLowerCase();
+  if (normalized === "md") return "markdown";
+  return (EXPORT_FORMATS as string[]).includes(normalized) ? (normalized as ExportFormat) : null;
+}
+
+function redactItems(items: TranscriptItem[]): TranscriptItem[] {
+  return items.map((item) =>
+    item.kind === "tool-call"
+      ? {
+          ...item,
+          progress: item.progress.length > 0 ? [REDACTED] : [],
+          output: item.output !== undefined ? REDACTED : undefined,
+        }
+      : item
+  );
+}
+
+export function buildExportDocument(snapshot: TranscriptSnapshot, options: ExportOptions): ExportDocument {
+  const redact = (items: TranscriptItem[]) => (options.redactToolOutputs ? redactItems(items) : items);
+  return {
+    version: 1,
+    exportedAt: new Date(),
+    redactedToolOutputs: options.redactToolOutputs,
+    sessionId: snapshot.sessionId,
+    model: snapshot.model,
+    transcript: redact(snapshot.transcript),
+    plan: snapshot.plan,
+    ephemeralRuns: options.includeEphemeral
+      ? snapshot.ephemeralRuns.map((run) => ({ ...run, transcript: redact(run.transcript) }))
+      : [],
+  };
+}
+
+export function renderExport(doc: ExportDocument, format: ExportFormat): string {
+  switch (format) {
+    case "markdown":
+      return renderMarkdown(doc);
+    case "html":
+      return renderHtml(doc);
+    case "json":
+      return JSON.stringify(doc, null, 2) + "\n";
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Shared formatting
+// ---------------------------------------------------------------------------
+
+function formatDuration(tool: ToolCallItem): string {
+  if (!tool.completedAt) return "running";
+  const duration = new Date(tool.completedAt).getTime() - new Date(tool.startedAt).getTime();
+  return duration > 1000 ? `${(duration / 1000).toFixed(1)}s` : `${duration}ms`;
+}
+
+function formatTimestamp(date: Date): string {
+  return new Date(date).toISOString().replace("T", " ").slice(0, 19);
+}
+
+function roleLabel(message: ChatMessage): string {
+  switch (message.role) {
+    case "user":
+      return "User";
+    case "assistant":
+      return "Assistant";
+    default:
+      return message.role.charAt(0).toUpperCase() + message.role.slice(1);
+  }
+}
+
+function statusIcon(tool: ToolCallItem): string {
+  return tool.status === "failed" ? "✗" : tool.status === "running" ? "…" : "✓";
+}
+
+function formatArguments(args: Record<string, unknown> | undefined): string | null {
+  if (!args || Object.keys(args).length === 0) return null;
+  return JSON.stringify(args, null, 2);
+}
+
+// ---------------------------------------------------------------------------
+// Markdown
+// ---------------------------------------------------------------------------
+
+/** Fence `text` with more backticks than it contains, so embedded fences survive. */
+function fence(text: string, language = ""): string {
+  const longest = Math.max(2, ...Array.from(text.matchAll(/`+/g), (m) => m[0].length));
+  const ticks = "`".repeat(longest + 1);
+  return `${ticks}${language}\n${text.replace(/\n$/, "")}\n${ticks}`;
+}
+
+function markdownToolCall(tool: ToolCallItem): string {
+  const parts = [`#### ${statusIcon(tool)} \`${tool.toolName}\` (${formatDuration(tool)})`];
+  const args = formatArguments(tool.arguments);
+  if (args) parts.push("Arguments:", fence(args, "json"));
+  const diff = getEditDiff(tool.toolName, tool.arguments);
+  if (diff) parts.push("Diff:", fence(diff, "diff"));
+  if (tool.progress.length > 0) parts.push("Progress:", fence(tool.progress.join("\n")));
+  if (tool.output) parts.push("Output:", fence(tool.output));
+  if (tool.error) parts.push(`**Error:** ${tool.error}`);
+  return parts.join("\n\n");
+}
+
+/** Transcript items as Markdown, without the document header; also used to seed forks. */
+export function renderTranscriptMarkdown(items: TranscriptItem[]): string {
+  return items
+    .map((item) => {
+      if (item.kind === "tool-call") return markdownToolCall(item);
+      const parts = [`### ${roleLabel(item)} · ${formatTimestamp(item.createdAt)}`];
+      if (item.reasoning) {
+        parts.push(`<details><summary>Reasoning</summary>\n\n${item.reasoning}\n\n</details>`);
+      }
+      parts.push(item.content);
+      return parts.join("\n\n");
+    })
+    .join("\n\n");
+}
+
+function renderMarkdown(doc: ExportDocument): string {
+  const sections = [
+    `# Session ${doc.sessionId ?? "(unsaved)"}`,
+    [
+      `- Model: ${doc.model ?? "unknown"}`,
+      `- Exported: ${formatTimestamp(doc.exportedAt)} UTC`,
+      doc.redactedToolOutputs ? "- Tool outputs redacted" : null,
+    ]
+      .filter(Boolean)
+      .join("\n"),
+    "## Transcript",
+    doc.transcript.length > 0 ? renderTranscriptMarkdown(doc.transcript) : "_Empty transcript_",
+  ];
+
+  if (doc.plan) {
+    sections.push("## Plan", doc.plan.trim());
+  }
+
+  if (doc.ephemeralRuns.length > 0) {
+    sections.push("## Ephemeral runs");
+    for (const run of doc.ephemeralRuns) {
+      sections.push(`### ${run.displayText} (${run.status}, ${formatTimestamp(run.startedAt)})`, renderTranscriptMarkdown(run.transcript));
+    }
+  }
+
+  return sections.join("\n\n") + "\n";
+}
+
+// ---------------------------------------------------------------------------
+// HTML
+// ---------------------------------------------------------------------------
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function paletteVariables(palette: CatppuccinPalette): string {
+  return [
+    `--base: ${palette.base}`,
+    `--mantle: ${palette.mantle}`,
+    `--surface: ${palette.surface0}`,
+    `--border: ${palette.overlay0}`,
+    `--text: ${palette.text}`,
+    `--subtext: ${palette.subtext0}`,
+    `--accent: ${palette.lavender}`,
+    `--info: ${palette.blue}`,
+    `--success: ${palette.green}`,
+    `--error: ${palette.red}`,
+  ].join("; ");
+}
+
+// Light and dark Catppuccin flavors, following the reader's system setting
+const HTML_STYLE = `
+:root { ${paletteVariables(catppuccin.latte)}; }
+@media (prefers-color-scheme: dark) { :root { ${paletteVariables(catppuccin.frappe)}; } }
+body { margin: 0 auto; max-width: 960px; padding: 2rem; background: var(--base); color: var(--text);
+  font: 15px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; }
+h1, h2 { color: var(--accent); }
+.meta { color: var(--subtext); }
+.message { margin: 1rem 0; padding: 0.75rem 1rem; background: var(--mantle); border-radius: 6px; }
+.role { font-weight: 600; color: var(--info); }
+.role.user { color: var(--success); }
+.time { color: var(--subtext); font-size: 0.85em; margin-left: 0.5em; }
+.content { white-space: pre-wrap; }
+.tool { margin: 0.75rem 0; padding: 0.5rem 1rem; border-left: 3px solid var(--border); }
+.tool.failed { border-color: var(--error); }
+.tool-name { font-family: ui-monospace, monospace; color: var(--info); }
+.error { color: var(--error); }
+pre { background: var(--surface); padding: 0.75rem; border-radius: 4px; overflow-x: auto;
+  font: 13px/1.4 ui-monospace, SFMono-Regular, Menlo, monospace; }
+.diff .add { color: var(--success); }
+.diff .del { color: var(--error); }
+summary { cursor: pointer; color: var(--subtext); }
+`;
+
+function htmlDiff(diff: string): string {
+  const lines = diff.split("\n").map((line) => {
+    const escaped = escapeHtml(line);
+    if (line.startsWith("+") && !line.startsWith("+++")) return `<span class="add">${escaped}</span>`;
+    if (line.startsWith("-") && !line.startsWith("---")) return `<span class="del">${escaped}</span>`;
+    return escaped;
+  });
+  return `<pre class="diff">${lines.join("\n")}</pre>`;
+}
+
+function htmlToolCall(tool: ToolCallItem): string {
+  const parts = [
+    `<div class="tool ${tool.status}">`,
+    `<div>${statusIcon(tool)} <span class="tool-name">${escapeHtml(tool.toolName)}</span> <span class="time">${formatDuration(tool)}</span></div>`,
+  ];
+  const args = formatArguments(tool.arguments);
+  if (args) parts.push(`<details><summary>Arguments</summary><pre>${escapeHtml(args)}</pre></details>`);
+  const diff = getEditDiff(tool.toolName, tool.arguments);
+  if (diff) parts.push(htmlDiff(diff));
+  if (tool.progress.length > 0) {
+    parts.push(`<details><summary>Progress</summary><pre>${escapeHtml(tool.progress.join("\n"))}</pre></details>`);
+  }
+  if (tool.output) parts.push(`<details open><summary>Output</summary><pre>${escapeHtml(tool.output)}</pre></details>`);
+  if (tool.error) parts.push(`<div class="error">Error: ${escapeHtml(tool.error)}</div>`);
+  parts.push("</div>");
+  return parts.join("\n");
+}
+
+function htmlItems(items: TranscriptItem[]): string {
+  return items
+    .map((item) => {
+      if (item.kind === "tool-call") return htmlToolCall(item);
+      const reasoning = item.reasoning
+        ? `<details><summary>Reasoning</summary><div class="content">${escapeHtml(item.reasoning)}</div></details>`
+        : "";
+      return [
+        `<div class="message">`,
+        `<div><span class="role ${item.role}">${roleLabel(item)}</span><span class="time">${formatTimestamp(item.createdAt)}</span></div>`,
+        reasoning,
+        `<div class="content">${escapeHtml(item.content)}</div>`,
+        `</div>`,
+      ].join("\n");
+    })
+    .join("\n");
+}
+
+function renderHtml(doc: ExportDocument): string {
+  const title = `Session ${doc.sessionId ?? "(unsaved)"}`;
+  const body = [
+    `<h1>${escapeHtml(title)}</h1>`,
+    `<p class="meta">Model: ${escapeHtml(doc.model ?? "unknown")} · Exported ${formatTimestamp(doc.exportedAt)} UTC${doc.redactedToolOutputs ? " · Tool outputs redacted" : ""}</p>`,
+    htmlItems(doc.transcript),
+  ];
+  if (doc.plan) {
+    body.push(`<h2>Plan</h2>`, `<pre>${escapeHtml(doc.plan)}</pre>`);
+  }
+  if (doc.ephemeralRuns.length > 0) {
+    body.push(`<h2>Ephemeral runs</h2>`);
+    for (const run of doc.ephemeralRuns) {
+      body.push(
+        `<h3>${escapeHtml(run.displayText)} <span class="time">${run.status}, ${formatTimestamp(run.startedAt)}</span></h3>`,
+        htmlItems(run.transcript)
+      );
+    }
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+${body.join("\n")}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,292 @@
+import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test";
+import { mkdirSync, mkdtempSync, realpathSync, rmSync } from "node:fs";
+import * as os from "node:os";
+import { join } from "node:path";
+import { ScriptedBackend, type BackendScript } from "../scripted/ScriptedBackend.js";
+import type { JournalEntry } from "../journal/EventJournal.js";
+import type { EphemeralPromptOptions } from "./backend.js";
+import type { HarnessEvent } from "./events.js";
+import { Harness } from "./Harness.js";
+
+const originalCwd = process.cwd();
+let root: string;
+let harness: Harness;
+
+// Bun reads the home directory once at startup, so ~/.anvil is redirected here instead of through HOME
+mock.module("node:os", () => ({ ...os, homedir: () => join(root, "home") }));
+
+/** Records the model each ephemeral prompt asks for. */
+class RecordingBackend extends ScriptedBackend {
+  ephemeralModels: Array<string | undefined> = [];
+
+  override async runEphemeralPrompt(prompt: string, runId: string, options?: EphemeralPromptOptions): Promise<void> {
+    this.ephemeralModels.push(options?.model);
+    await super.runEphemeralPrompt(prompt, runId, options);
+  }
+}
+
+const MODELS = [
+  { id: "fast", name: "Fast" },
+  { id: "smart", name: "Smart" },
+];
+
+async function start(script: BackendScript, model?: string): Promise<RecordingBackend> {
+  const backend = new RecordingBackend(script);
+  harness = new Harness();
+  harness.setAdapter(backend);
+  await harness.initialize({ model });
+  return backend;
+}
+
+async function waitFor(predicate: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!predicate()) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting for the harness");
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+async function prompt(text: string): Promise<void> {
+  await harness.dispatch({ type: "submit.prompt", text });
+  await waitFor(() => harness.getState().status !== "running");
+}
+
+beforeEach(() => {
+  root = realpathSync(mkdtempSync(join(os.tmpdir(), "anvil-harness-")));
+  mkdirSync(join(root, "home"));
+  mkdirSync(join(root, "project"));
+  process.chdir(join(root, "project"));
+});
+
+afterEach(async () => {
+  await harness.shutdown();
+  process.chdir(originalCwd);
+  rmSync(root, { recursive: true, force: true });
+});
+
+describe("conversation summaries", () => {
+  const script: BackendScript = {
+    model: "fast",
+    models: MODELS,
+    runs: [{ steps: [{ event: { type: "assistant.message", content: "Done." } }] }],
+    ephemeral: [{ steps: [{ event: { type: "assistant.message", content: "Summary of the work." } }] }],
+  };
+
+  test("a summary fork uses the session's model", async () => {
+    const backend = await start(script, "smart");
+    await prompt("Write the parser");
+    const first = harness.getState().transcript[0];
+
+    await harness.dispatch({ type: "session.fork", itemId: first.id, mode: "summary" });
+
+    expect(backend.ephemeralModels).toEqual(["smart"]);
+    expect(harness.getState().transcript.map((item) => item.id)).toEqual([first.id]);
+  });
+
+  test("/compact uses the session's model", async () => {
+    const backend = await start(script, "smart");
+    await prompt("Write the parser");
+
+    await harness.dispatch({ type: "submit.prompt", text: "/compact" });
+
+    expect(backend.ephemeralModels).toEqual(["smart"]);
+  });
+});
+
+describe("replay", () => {
+  test("rebuilds state without compacting or sending queued prompts", async () => {
+    harness = new Harness();
+    const emitted: HarnessEvent[] = [];
+    harness.subscribe((event) => emitted.push(event));
+    const at = new Date();
+    const entries: JournalEntry[] = [
+      { seq: 1, at, event: { type: "usage.info", currentTokens: 990, tokenLimit: 1000, messagesLength: 2 } },
+      { seq: 2, at, event: { type: "queue.updated", queue: [{ id: "q1", text: "next prompt", queuedAt: at }] } },
+      { seq: 3, at, event: { type: "run.finished", runId: "r1", createdAt: at } },
+    ];
+
+    harness.loadReplay(entries);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(emitted).toEqual([]);
+    expect(harness.getState().messageQueue.map((p) => p.text)).toEqual(["next prompt"]);
+    expect(harness.getState().contextInfo.currentTokens).toBe(990);
+  });
+});
+
+describe("message queue", () => {
+  const script: BackendScript = {
+    runs: [
+      { match: "^slow$", steps: [{ delay: 5000, event: { type: "assistant.message", content: "Slow." } }] },
+      { match: "^busy$", steps: [{ delay: 100, event: { type: "assistant.message", content: "Busy." } }] },
+      { steps: [{ event: { type: "assistant.message", content: "ok" } }] },
+    ],
+  };
+
+  function userPrompts(): string[] {
+    return harness
+      .getState()
+      .transcript.flatMap((item) => (item.kind === "message" && item.role === "user" ? [item.content] : []));
+  }
+
+  function queued(): string[] {
+    return harness.getState().messageQueue.map((p) => p.text);
+  }
+
+  async function submit(...texts: string[]): Promise<void> {
+    for (const text of texts) await harness.dispatch({ type: "submit.prompt", text });
+  }
+
+  test("prompts sent during a run are queued and sent in order afterwards", async () => {
+    await start(script);
+    await submit("busy", "first", "second");
+    expect(queued()).toEqual(["first", "second"]);
+
+    await waitFor(() => userPrompts().length === 3 && harness.getState().status === "idle");
+    expect(userPrompts()).toEqual(["busy", "first", "second"]);
+    expect(queued()).toEqual([]);
+  });
+
+  test("queued prompts can be edited, moved and removed before they're sent", async () => {
+    await start(script);
+    await submit("busy", "a", "b", "c", "d");
+    const id = (text: string) => harness.getState().messageQueue.find((p) => p.text === text)!.id;
+
+    await harness.dispatch({ type: "queue.move", id: id("c"), offset: -5 });
+    await harness.dispatch({ type: "queue.edit", id: id("a"), text: "a, edited" });
+    await harness.dispatch({ type: "queue.edit", id: id("b"), text: "   " });
+    await harness.dispatch({ type: "queue.remove", id: id("d") });
+    expect(queued()).toEqual(["c", "a, edited"]);
+
+    await waitFor(() => userPrompts().length === 3 && harness.getState().status === "idle");
+    expect(userPrompts()).toEqual(["busy", "c", "a, edited"]);
+  });
+
+  test("send now interrupts the run and jumps the queue", async () => {
+    await start(script);
+    await submit("slow", "later", "urgent");
+    const urgent = harness.getState().messageQueue.find((p) => p.text === "urgent")!;
+
+    await harness.dispatch({ type: "queue.sendNow", id: urgent.id });
+
+    await waitFor(() => userPrompts().length === 3 && harness.getState().status === "idle");
+    expect(userPrompts()).toEqual(["slow", "urgent", "later"]);
+    expect(harness.getState().transcript.some((item) => item.kind === "message" && item.content === "Slow.")).toBe(false);
+  });
+});
+
+describe("edit and resend", () => {
+  const script: BackendScript = {
+    model: "fast",
+    models: MODELS,
+    runs: [{ steps: [{ event: { type: "assistant.message", content: "ok" } }] }],
+  };
+
+  function messages(): string[] {
+    return harness
+      .getState()
+      .transcript.flatMap((item) => (item.kind === "message" ? [`${item.role}: ${item.content}`] : []));
+  }
+
+  function userMessageId(content: string): string {
+    return harness.getState().transcript.find((item) => item.kind === "message" && item.content === content)!.id;
+  }
+
+  async function resend(itemId: string, mode: "in-place" | "fork", text: string): Promise<void> {
+    await harness.dispatch({ type: "message.resend", itemId, mode, text });
+    await waitFor(() => harness.getState().status !== "running");
+  }
+
+  test("in place, the session is rewound to the edited prompt", async () => {
+    const backend = await start(script);
+    await prompt("first");
+    await prompt("second");
+    await prompt("third");
+    const sessionId = harness.getState().currentSessionId;
+
+    await resend(userMessageId("second"), "in-place", "second, edited");
+
+    expect(harness.getState().currentSessionId).toBe(sessionId);
+    expect(messages()).toEqual(["user: first", "assistant: ok", "user: second, edited", "assistant: ok"]);
+    const stored = await backend.getSessionTranscript(sessionId!);
+    expect(stored.filter((item) => item.kind === "message" && item.role === "user").length).toBe(2);
+  });
+
+  test("in a fork, the original session is left as it was", async () => {
+    const backend = await start(script);
+    await prompt("first");
+    await prompt("second");
+    const sessionId = harness.getState().currentSessionId!;
+
+    await resend(userMessageId("second"), "fork", "second, edited");
+
+    expect(harness.getState().currentSessionId).not.toBe(sessionId);
+    expect(messages()).toEqual(["user: first", "assistant: ok", "user: second, edited", "assistant: ok"]);
+    const original = await backend.getSessionTranscript(sessionId);
+    expect(original.flatMap((item) => (item.kind === "message" && item.role === "user" ? [item.content] : []))).toEqual([
+      "first",
+      "second",
+    ]);
+  });
+
+  test("only user messages can be resent", async () => {
+    await start(script);
+    await prompt("first");
+    const reply = harness.getState().transcript.find((item) => item.kind === "message" && item.role === "assistant")!;
+
+    await resend(reply.id, "in-place", "edited");
+
+    expect(messages()).toEqual(["user: first", "assistant: ok"]);
+  });
+});
+
+describe("/retry", () => {
+  const script: BackendScript = {
+    model: "fast",
+    models: MODELS,
+    runs: [{ steps: [{ event: { type: "assistant.message", content: "ok" } }] }],
+  };
+
+  function userPrompts(): string[] {
+    return harness
+      .getState()
+      .transcript.flatMap((item) => (item.kind === "message" && item.role === "user" ? [item.content] : []));
+  }
+
+  test("resends the last prompt", async () => {
+    await start(script);
+    await prompt("first");
+    await prompt("second");
+
+    await prompt("/retry");
+
+    expect(userPrompts()).toEqual(["first", "second", "second"]);
+  });
+
+  test("switches model first when given one", async () => {
+    await start(script);
+    await prompt("first");
+
+    await prompt("/retry Smart");
+
+    expect(harness.getState().currentModel).toBe("smart");
+    expect(userPrompts()).toEqual(["first", "first"]);
+  });
+
+  test("does nothing for an unknown model or an empty session", async () => {
+    await start(script);
+    const logs: string[] = [];
+    harness.subscribe((event) => {
+      if (event.type === "log") logs.push(event.message);
+    });
+
+    await prompt("/retry");
+    await prompt("first");
+    await prompt("/retry huge");
+
+    expect(userPrompts()).toEqual(["first"]);
+    expect(harness.getState().currentModel).toBe("fast");
+    expect(logs).toContain("Nothing to retry: no prompt in this session yet");
+    expect(logs).toContain('Unknown model "huge". Use /retry [model-id]');
+  });
+});
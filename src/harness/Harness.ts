@@ -1,7 +1,16 @@
+import { mkdirSync, writeFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
 import type {
   ChatMessage,
   HarnessEvent,
   LogEvent,
+  ConnectionState,
+  ForkMode,
+  McpServerState,
+  PermissionDecision,
+  PermissionKind,
+  PromptAttachment,
+  QueuedPrompt,
   SessionInfo,
   TranscriptItem,
   UIAction,
@@ -9,22 +18,101 @@ import type {
 import {
   createAssistantMessage,
   createLogEvent,
+  createSystemMessage,
   createUserMessage,
   generateId,
 } from "./events.js";
 import { HarnessPlugin, PluginManager } from "./plugins.js";
-import type { CopilotSessionAdapter, ModelDescription } from "../copilot/CopilotSessionAdapter.js";
+import type {
+  AgentBackend,
+  ModelDescription,
+  PermissionOutcome,
+  PermissionPrompt,
+  ReasoningEffort,
+} from "./backend.js";
+import { formatTokenCount, modelTokenLimit } from "../models/ModelCatalog.js";
 import { CommandRegistry, parseSlashCommand } from "../commands/CommandLoader.js";
 import type { CommandDefinition } from "../commands/CommandLoader.js";
+import { AgentRegistry } from "../agents/AgentLoader.js";
+import type { AgentDefinition } from "../agents/AgentLoader.js";
+import {
+  PermissionPolicy,
+  formatPermissionRule,
+  parsePermissionRuleArgs,
+} from "../permissions/PermissionPolicy.js";
+import { REASONING_EFFORTS, SessionSettingsStore, isReasoningEffort } from "../sessions/SessionSettings.js";
+import { EventJournal } from "../journal/EventJournal.js";
+import type { JournalEntry } from "../journal/EventJournal.js";
+import { loadMcpServers, trustProjectMcpConfig } from "../mcp/McpConfig.js";
+import type { McpServerDefinition } from "../mcp/McpConfig.js";
+import { filterAllowedTools, probeMcpServer } from "../mcp/McpProbe.js";
+import { loadProviders } from "../providers/ProviderConfig.js";
+import {
+  buildExportDocument,
+  exportFileExtension,
+  parseExportFormat,
+  renderExport,
+  renderTranscriptMarkdown,
+  type ExportOptions,
+} from "../export/TranscriptExport.js";
+import { getConfigPath } from "../utils/config.js";
+import { searchSessionTranscript, type SessionSearchResult } from "../search/TranscriptSearch.js";
+import {
+  DEFAULT_CONTEXT_BUDGET,
+  buildCompactionSeed,
+  contextBudgetLevel,
+  contextUsagePercent,
+  loadContextBudget,
+  readPinnedFiles,
+  type ContextBudgetConfig,
+  type ContextBudgetLevel,
+} from "../context/ContextBudget.js";
+import {
+  appendUsageEntry,
+  buildUsageReport,
+  dayKey,
+  entriesInPeriod,
+  formatUsageReport,
+  loadUsageBudget,
+  monthPremiumRequests,
+  parseUsagePeriod,
+  readUsageLedger,
+  usageToCsv,
+  type UsageBudget,
+  type UsageEntry,
+  type UsagePeriod,
+} from "../usage/UsageLedger.js";
+import {
+  DEFAULT_CHECKPOINT_SETTINGS,
+  createCheckpoint,
+  finishCheckpoint,
+  isGitWorkTree,
+  listCheckpoints,
+  loadCheckpointSettings,
+  previewCheckpoint,
+  pruneCheckpoints,
+  restoreCheckpoint,
+  type Checkpoint,
+  type CheckpointPreview,
+  type CheckpointSettings,
+} from "../checkpoints/Checkpoints.js";
 
 export type HarnessStatus = "idle" | "running" | "error";
 
+/** A prompt as the user sent it, before slash-command expansion. */
+export interface PromptSubmission {
+  text: string;
+  images?: string[];
+  attachments?: PromptAttachment[];
+}
+
 export type HarnessEventHandler = (event: HarnessEvent) => void;
 
 export interface ActiveTool {
   toolCallId: string;
   toolName: string;
   arguments?: Record<string, unknown>;
+  mcpServerName?: string;
   progress: string[];
   startedAt: Date;
   status: "running" | "completed" | "failed";
@@ -67,6 +155,41 @@ export interface PendingQuestion {
   allowFreeform: boolean;
 }
 
+export interface PendingPermission {
+  requestId: string;
+  kind: PermissionKind;
+  prompt: string;
+  target?: string;
+  diff?: string;
+  toolCallId?: string;
+}
+
+export interface McpFailure {
+  message: string;
+  at: Date;
+}
+
+export interface McpServerStatus {
+  name: string;
+  scope: McpServerDefinition["scope"];
+  command: string;
+  state: McpServerState;
+  tools: string[];
+  failures: McpFailure[];
+}
+
+export interface ConnectionStatus {
+  state: ConnectionState;
+  attempt?: number;
+  error?: string;
+}
+
+/** The `/undo` picker: checkpoints newest first and the selected one's preview */
+export interface UndoPicker {
+  checkpoints: Checkpoint[];
+  preview: CheckpointPreview | null;
+}
+
 export interface EphemeralRun {
   runId: string;
   displayText: string;
@@ -89,15 +212,21 @@ export interface HarnessState {
   subagents: Subagent[];
   skills: Skill[];
   currentModel: string | null;
+  servedModel: string | null; // Model that served the most recent run
+  reasoningEffort: ReasoningEffort | null; // Remembered for the current session; null = model default
+  connection: ConnectionStatus;
   availableModels: ModelDescription[];
-  messageQueue: string[];
+  messageQueue: QueuedPrompt[]; // Kept across session switches
   currentTodo: string | null;
   currentPlan: string | null;
   currentIntent: string | null;
   pendingQuestion: PendingQuestion | null;
+  pendingPermissions: PendingPermission[];
+  mcpServers: McpServerStatus[];
   currentSessionId: string | null;
   availableSessions: SessionInfo[];
   ephemeralRun: EphemeralRun | null;
+  undo: UndoPicker | null;
   contextInfo: {
     currentTokens: number;
     tokenLimit: number;
@@ -105,13 +234,31 @@ export interface HarnessState {
     remainingPremiumRequests: number | null;
     consumedRequests: number;
   };
+  // Thresholds from .anvil/context.json, in percent of the token limit
+  contextBudget: {
+    warnAt: number | null;
+    compactAt: number | null;
+  };
 }
 
+const SMART_COMMIT_PROMPT = `Categorize the current uncommitted changes in this repository, create a distinct commit for each logical category with a descriptive commit message, and push all commits to the remote. Show me what you're doing at each step.`;
+const SMART_COMMIT_MODEL = "gemini-3-flash";
+
+const FORK_SEED_INTRO = `This session is a fork of an earlier conversation. Continue from where it left off; here is the context.`;
+const FORK_SUMMARY_PROMPT = `Summarize the conversation below so another assistant can pick it up: the goal, decisions made, files and code changed, open questions and next steps. Reply with the summary only.`;
+
 const MAX_LOGS = 100;
 const MAX_TASKS = 50;
 const MAX_SUBAGENTS = 50;
 const MAX_SKILLS = 50;
 const MAX_TRANSCRIPT = 500;
+const MAX_SEARCH_RESULTS = 200;
+const MAX_MCP_FAILURES = 5;
+
+// Share of the monthly premium-request budget that triggers each warning
+const USAGE_BUDGET_WARNINGS = [80, 100];
+
+const BUDGET_LEVEL_ORDER: Record<ContextBudgetLevel, number> = { ok: 0, warn: 1, compact: 2 };
 
 export class Harness {
   private state: HarnessState = {
@@ -126,15 +273,21 @@ export class Harness {
     subagents: [],
     skills: [],
     currentModel: null,
+    servedModel: null,
+    reasoningEffort: null,
+    connection: { state: "connected" },
     availableModels: [],
     messageQueue: [],
     currentTodo: null,
     currentPlan: null,
     currentIntent: null,
     pendingQuestion: null,
+    pendingPermissions: [],
+    mcpServers: [],
     currentSessionId: null,
     availableSessions: [],
     ephemeralRun: null,
+    undo: null,
     contextInfo: {
       currentTokens: 0,
       tokenLimit: 0,
@@ -142,22 +295,71 @@ export class Harness {
       remainingPremiumRequests: null,
       consumedRequests: 0,
     },
+    contextBudget: {
+      warnAt: DEFAULT_CONTEXT_BUDGET.warnAt,
+      compactAt: DEFAULT_CONTEXT_BUDGET.compactAt,
+    },
   };
 
   private eventHandlers: Set<HarnessEventHandler> = new Set();
   private pluginManager: PluginManager;
-  private adapter: CopilotSessionAdapter | null = null;
+  private adapter: AgentBackend | null = null;
   private questionResolvers: Map<string, (answer: { answer: string; wasFreeform: boolean }) => void> = new Map();
+  private permissionResolvers: Map<string, (outcome: PermissionOutcome) => void> = new Map();
+  // "kind:target" keys approved with allow-session; cleared when the session changes
+  private sessionPermissionGrants: Set<string> = new Set();
   private commandRegistry: CommandRegistry;
+  private agentRegistry: AgentRegistry;
+  private permissionPolicy: PermissionPolicy;
+  private sessionSettings: SessionSettingsStore;
+  // Created by initialize(); replayed harnesses don't journal
+  private journal: EventJournal | null = null;
+  private mcpDefinitions: McpServerDefinition[] = [];
+  // Project servers left out until the user runs /mcp trust
+  private untrustedMcpServers: string[] = [];
   // Maps toolCallId -> transcript array index for O(1) lookup during tool.progress/tool.completed
   private toolCallTranscriptIndex: Map<string, number> = new Map();
+  // currentPlan is cleared when a run ends; exports keep the session's last plan
+  private latestPlan: string | null = null;
+  // Closed ephemeral runs of the current session, for exports
+  private closedEphemeralRuns: EphemeralRun[] = [];
+  // User message ID -> what was submitted, for /retry and edit-and-resend
+  private promptSubmissions: Map<string, PromptSubmission> = new Map();
+  // Stored transcripts of other sessions, keyed by ID and refetched when lastUsedAt changes
+  private sessionTranscriptCache: Map<string, { lastUsedAt: number; transcript: TranscriptItem[] }> = new Map();
+  private contextBudget: ContextBudgetConfig = DEFAULT_CONTEXT_BUDGET;
+  // Highest budget level already acted on in the current session, so each warning or compaction happens once
+  private budgetLevelHandled: ContextBudgetLevel = "ok";
+  // Set while a compaction runs; prompts wait for it
+  private compaction: Promise<boolean> | null = null;
+  // Usage of runs in progress, written to the usage ledger when they end
+  private runUsage: Map<string, { entry: UsageEntry; calls: number; cost: number | null }> = new Map();
+  private usageBudget: UsageBudget = { monthlyPremiumRequests: null };
+  // This month's premium requests, read from the ledger once and kept up to date
+  private monthUsage: { month: string; premiumRequests: number } | null = null;
+  // "<month>:<percent>" budget warnings already shown
+  private usageBudgetWarnings: Set<string> = new Set();
+  private usageLedgerFailed = false;
+  private checkpointSettings: CheckpointSettings = DEFAULT_CHECKPOINT_SETTINGS;
+  // Resolves to whether runs get checkpoints: enabled and inside a git work tree
+  private checkpointsAvailable: Promise<boolean> = Promise.resolve(false);
+  private checkpointFailed = false;
+  // Checkpoints of runs in progress, snapshotted again when the runs end
+  private runCheckpoints: Map<string, Checkpoint> = new Map();
+  // End-of-run snapshots in flight; /undo and the next checkpoint wait for them
+  private checkpointWrites: Promise<void> = Promise.resolve();
+  // Bumped by each preview request so a slow preview can't replace a newer one
+  private undoPreviewRequest = 0;
 
   constructor() {
     this.pluginManager = new PluginManager((event) => this.emit(event));
     this.commandRegistry = new CommandRegistry();
+    this.agentRegistry = new AgentRegistry();
+    this.permissionPolicy = new PermissionPolicy();
+    this.sessionSettings = new SessionSettingsStore();
   }
 
-  setAdapter(adapter: CopilotSessionAdapter): void {
+  setAdapter(adapter: AgentBackend): void {
     this.adapter = adapter;
     
     adapter.onEvent((event: HarnessEvent) => {
@@ -167,6 +369,14 @@ export class Harness {
     adapter.onUserInputRequest((request) => {
       return this.handleUserInputRequest(request);
     });
+
+    adapter.onPermissionRequest((request) => {
+      return this.handlePermissionRequest(request);
+    });
+
+    adapter.setToolProvider(() => this.pluginManager.getTools());
+    adapter.setAgentProvider(() => this.agentRegistry.list());
+    adapter.setReasoningEffortProvider((sessionId) => this.sessionSettings.getReasoningEffort(sessionId));
   }
 
   use(plugin: HarnessPlugin): void {
@@ -177,6 +387,10 @@ export class Harness {
     return this.commandRegistry.list();
   }
 
+  getAgents(): AgentDefinition[] {
+    return this.agentRegistry.list();
+  }
+
   private emitCommandList(): void {
     const commands = this.commandRegistry.list();
     if (commands.length === 0) {
@@ -202,7 +416,33 @@ export class Harness {
   }
 
   emit(event: HarnessEvent): void {
+    // Requests from the old session can't be answered from the new one
+    if (event.type === "session.switched" || event.type === "session.created") {
+      this.denyPendingPermissions();
+    }
+
+    const finishesRun = event.type === "run.finished" && !this.isEphemeralEvent(event);
     this.processEvent(event);
+    this.trackRunUsage(event);
+    this.trackRunCheckpoint(event);
+
+    if (finishesRun) {
+      // Check the context budget and process the next queued message in the next tick to avoid blocking the event handler.
+      // This lives outside the reducer so replaying a journal never compacts or sends anything.
+      setTimeout(() => {
+        this.checkContextBudget().then(() => this.processNextQueuedMessage()).catch((err) => {
+          this.emit(createLogEvent("error", `Queue processing failed: ${err instanceof Error ? err.message : String(err)}`));
+        });
+      }, 0);
+    }
+
+    if (this.journal) {
+      // Session changes open the new session's journal, starting with this event
+      if (event.type === "session.switched" || event.type === "session.created") {
+        this.journal.setSession(event.sessionId);
+      }
+      this.journal.append(event);
+    }
     
     for (const handler of this.eventHandlers) {
       handler(event);
@@ -211,20 +451,40 @@ export class Harness {
     this.pluginManager.notifyEvent(event);
   }
 
-  private processEvent(event: HarnessEvent): void {
-    // Check if this event is for an ephemeral run
-    const isEphemeralEvent = 
-      this.state.ephemeralRun && 
-      'runId' in event && 
-      event.runId === this.state.ephemeralRun.runId;
+  /** Whether the event belongs to the open ephemeral run rather than the session. */
+  private isEphemeralEvent(event: HarnessEvent): boolean {
+    return !!this.state.ephemeralRun && "runId" in event && event.runId === this.state.ephemeralRun.runId;
+  }
 
-    if (isEphemeralEvent) {
+  private processEvent(event: HarnessEvent): void {
+    if (this.isEphemeralEvent(event)) {
       // Route ephemeral events to separate state
       this.processEphemeralEvent(event);
       return;
     }
 
     switch (event.type) {
+      case "user.message":
+        this.state = {
+          ...this.state,
+          transcript: [...this.state.transcript, event.message],
+        };
+        break;
+
+      case "ephemeral.started":
+        this.state = {
+          ...this.state,
+          ephemeralRun: {
+            runId: event.runId,
+            displayText: event.displayText,
+            transcript: [event.message],
+            streamingContent: "",
+            status: "running",
+            startedAt: event.message.createdAt,
+          },
+        };
+        break;
+
       case "run.started":
         this.state = {
           ...this.state,
@@ -319,12 +579,6 @@ export class Harness {
             consumedRequests: this.state.contextInfo.consumedRequests + 1,
           },
         };
-        // Process next queued message in next tick to avoid blocking event handler
-        setTimeout(() => {
-          this.processNextQueuedMessage().catch((err) => {
-            this.emit(createLogEvent("error", `Queue processing failed: ${err instanceof Error ? err.message : String(err)}`));
-          });
-        }, 0);
         break;
       }
 
@@ -357,6 +611,7 @@ export class Harness {
               toolCallId: event.toolCallId, 
               toolName: event.toolName,
               arguments: event.arguments,
+              mcpServerName: event.mcpServerName,
               progress: [],
               startedAt: new Date(),
               status: "running",
@@ -444,9 +699,30 @@ export class Harness {
           tasks: updatedTasks,
           transcript: updatedTranscript,
         };
+
+        if (!event.success) {
+          const tool = this.state.activeTools.find((t) => t.toolCallId === event.toolCallId);
+          if (tool?.mcpServerName) {
+            this.recordMcpFailure(tool.mcpServerName, `${tool.toolName}: ${event.error ?? "failed"}`);
+          }
+        }
         break;
       }
 
+      case "mcp.status":
+        this.state = {
+          ...this.state,
+          mcpServers: this.state.mcpServers.map((server) =>
+            server.name === event.server
+              ? { ...server, state: event.state, tools: event.tools ?? server.tools }
+              : server
+          ),
+        };
+        if (event.error) {
+          this.recordMcpFailure(event.server, event.error);
+        }
+        break;
+
       case "turn.started":
       case "turn.ended":
         break;
@@ -455,6 +731,22 @@ export class Harness {
         this.state = {
           ...this.state,
           currentModel: event.model,
+          // The previous model's usage no longer applies; the gauge is empty until usage.info arrives
+          contextInfo: this.contextInfoForModel(event.model),
+        };
+        break;
+
+      case "run.model":
+        this.state = {
+          ...this.state,
+          servedModel: event.model,
+        };
+        break;
+
+      case "connection.changed":
+        this.state = {
+          ...this.state,
+          connection: { state: event.state, attempt: event.attempt, error: event.error },
         };
         break;
 
@@ -584,6 +876,7 @@ export class Harness {
         break;
 
       case "plan.updated":
+        this.latestPlan = event.content;
         this.state = {
           ...this.state,
           currentPlan: event.content,
@@ -609,11 +902,43 @@ export class Harness {
         };
         break;
 
+      case "permission.requested":
+        this.state = {
+          ...this.state,
+          pendingPermissions: [
+            ...this.state.pendingPermissions,
+            {
+              requestId: event.requestId,
+              kind: event.kind,
+              prompt: event.prompt,
+              target: event.target,
+              diff: event.diff,
+              toolCallId: event.toolCallId,
+            },
+          ],
+        };
+        break;
+
+      case "permission.responded":
+        this.state = {
+          ...this.state,
+          pendingPermissions: this.state.pendingPermissions.filter(
+            (p) => p.requestId !== event.requestId
+          ),
+        };
+        break;
+
       case "session.switched":
         this.toolCallTranscriptIndex.clear();
+        this.sessionPermissionGrants.clear();
+        this.latestPlan = null;
+        this.closedEphemeralRuns = [];
+        this.budgetLevelHandled = "ok";
         this.state = {
           ...this.state,
           currentSessionId: event.sessionId,
+          servedModel: null,
+          reasoningEffort: this.sessionSettings.getReasoningEffort(event.sessionId),
           transcript: event.transcript ?? [],
           streamingContent: "",
           streamingReasoning: "",
@@ -626,9 +951,15 @@ export class Harness {
 
       case "session.created":
         this.toolCallTranscriptIndex.clear();
+        this.sessionPermissionGrants.clear();
+        this.latestPlan = null;
+        this.closedEphemeralRuns = [];
+        this.budgetLevelHandled = "ok";
         this.state = {
           ...this.state,
           currentSessionId: event.sessionId,
+          servedModel: null,
+          reasoningEffort: null,
           // Clear transcript for new session
           transcript: [],
           streamingContent: "",
@@ -640,12 +971,69 @@ export class Harness {
         };
         break;
 
+      case "session.forked":
+        this.state = {
+          ...this.state,
+          transcript: event.transcript,
+        };
+        break;
+
+      case "session.compacted":
+        this.state = {
+          ...this.state,
+          transcript: [event.marker],
+        };
+        break;
+
+      case "transcript.truncated": {
+        const index = this.state.transcript.findIndex((item) => item.id === event.itemId);
+        if (index !== -1) {
+          this.toolCallTranscriptIndex.clear();
+          this.state = {
+            ...this.state,
+            transcript: this.state.transcript.slice(0, index),
+          };
+        }
+        break;
+      }
+
       case "session.list.updated":
         this.state = {
           ...this.state,
           availableSessions: event.sessions,
         };
         break;
+
+      case "queue.updated":
+        this.state = {
+          ...this.state,
+          messageQueue: event.queue,
+        };
+        break;
+
+      case "undo.opened":
+        this.state = {
+          ...this.state,
+          undo: { checkpoints: event.checkpoints, preview: null },
+        };
+        break;
+
+      case "undo.previewed":
+        if (this.state.undo) {
+          this.state = {
+            ...this.state,
+            undo: { ...this.state.undo, preview: event.preview },
+          };
+        }
+        break;
+
+      case "undo.closed":
+      case "checkpoint.restored":
+        this.state = {
+          ...this.state,
+          undo: null,
+        };
+        break;
     }
   }
 
@@ -663,6 +1051,18 @@ export class Harness {
     }
   }
 
+  private recordMcpFailure(serverName: string, message: string): void {
+    const failure: McpFailure = { message, at: new Date() };
+    this.state = {
+      ...this.state,
+      mcpServers: this.state.mcpServers.map((server) =>
+        server.name === serverName
+          ? { ...server, failures: [...server.failures.slice(-MAX_MCP_FAILURES + 1), failure] }
+          : server
+      ),
+    };
+  }
+
   private processEphemeralEvent(event: HarnessEvent): void {
     if (!this.state.ephemeralRun) return;
 
@@ -742,7 +1142,7 @@ export class Harness {
   async dispatch(action: UIAction): Promise<void> {
     switch (action.type) {
       case "submit.prompt":
-        await this.handleSubmitPrompt(action.text, action.images);
+        await this.handleSubmitPrompt(action.text, action.images, action.attachments);
         break;
 
       case "cancel":
@@ -753,10 +1153,18 @@ export class Harness {
         await this.handleChangeModel(action.modelId);
         break;
 
+      case "set.reasoningEffort":
+        await this.handleSetReasoningEffort(action.effort);
+        break;
+
       case "answer.question":
         this.handleAnswerQuestion(action.requestId, action.answer, action.wasFreeform);
         break;
 
+      case "permission.respond":
+        this.handlePermissionRespond(action.requestId, action.decision);
+        break;
+
       case "session.new":
         await this.handleNewSession();
         break;
@@ -765,6 +1173,14 @@ export class Harness {
         await this.handleSwitchSession(action.sessionId);
         break;
 
+      case "session.fork":
+        await this.handleForkSession(action.itemId, action.mode);
+        break;
+
+      case "message.resend":
+        await this.handleResendMessage(action);
+        break;
+
       case "session.refresh":
         await this.handleRefreshSessions();
         break;
@@ -772,15 +1188,54 @@ export class Harness {
       case "ephemeral.close":
         this.handleCloseEphemeral();
         break;
+
+      case "queue.edit":
+        this.handleEditQueuedPrompt(action.id, action.text);
+        break;
+
+      case "queue.move":
+        this.handleMoveQueuedPrompt(action.id, action.offset);
+        break;
+
+      case "queue.remove":
+        this.updateQueue(this.state.messageQueue.filter((p) => p.id !== action.id));
+        break;
+
+      case "queue.sendNow":
+        await this.handleSendQueuedPromptNow(action.id);
+        break;
+
+      case "export.transcript":
+        this.exportTranscript(
+          {
+            format: action.format,
+            redactToolOutputs: action.redactToolOutputs ?? false,
+            includeEphemeral: action.includeEphemeral ?? false,
+          },
+          action.path
+        );
+        break;
+
+      case "undo.preview":
+        await this.handleUndoPreview(action.checkpointId);
+        break;
+
+      case "undo.restore":
+        await this.handleUndoRestore(action.checkpointId);
+        break;
+
+      case "undo.close":
+        if (this.state.undo) this.emit({ type: "undo.closed" });
+        break;
     }
   }
 
-  private async handleSubmitPrompt(text: string, images?: string[]): Promise<void> {
+  private async handleSubmitPrompt(text: string, images?: string[], attachments?: PromptAttachment[]): Promise<void> {
     if (this.state.status === "running") {
-      this.state = {
-        ...this.state,
-        messageQueue: [...this.state.messageQueue, text],
-      };
+      this.updateQueue([
+        ...this.state.messageQueue,
+        { id: generateId(), text, images, attachments, queuedAt: new Date() },
+      ]);
       this.emit(
         createLogEvent("info", `Message queued (${this.state.messageQueue.length} waiting)`)
       );
@@ -792,6 +1247,10 @@ export class Harness {
       return;
     }
 
+    if (images && images.length > 0 && !this.checkImageSupport()) {
+      return;
+    }
+
     const parsed = parseSlashCommand(text);
     if (parsed) {
       if (parsed.name === "commands" || parsed.name === "help") {
@@ -799,30 +1258,106 @@ export class Harness {
         return;
       }
 
+      if (parsed.name === "permissions") {
+        this.handlePermissionsCommand(parsed.args);
+        return;
+      }
+
+      if (parsed.name === "mcp") {
+        this.handleMcpCommand(parsed.args);
+        return;
+      }
+
+      if (parsed.name === "effort") {
+        await this.handleEffortCommand(parsed.args);
+        return;
+      }
+
+      if (parsed.name === "retry") {
+        await this.handleRetryCommand(parsed.args);
+        return;
+      }
+
+      if (parsed.name === "compact") {
+        await this.compactSession(parsed.args.trim() || undefined);
+        return;
+      }
+
+      if (parsed.name === "usage") {
+        this.handleUsageCommand(parsed.args);
+        return;
+      }
+
+      if (parsed.name === "export") {
+        this.handleExportCommand(parsed.args);
+        return;
+      }
+
+      if (parsed.name === "undo") {
+        await this.handleUndoCommand();
+        return;
+      }
+
       if (this.commandRegistry.has(parsed.name)) {
         const enhancedPrompt = this.commandRegistry.buildPrompt(parsed.name, parsed.args);
         if (enhancedPrompt) {
           this.emit(
             createLogEvent("info", `Invoking command: /${parsed.name}`)
           );
-          await this.executePrompt(enhancedPrompt, text, images);
+          await this.executePrompt(enhancedPrompt, text, images, attachments);
           return;
         }
       }
     }
 
-    await this.executePrompt(text, undefined, images);
+    await this.executePrompt(text, undefined, images, attachments);
+  }
+
+  private getModelDescription(modelId: string | null): ModelDescription | undefined {
+    return this.state.availableModels.find((m) => m.id === modelId);
+  }
+
+  private contextInfoForModel(modelId: string | null): HarnessState["contextInfo"] {
+    const limit = modelTokenLimit(this.getModelDescription(modelId));
+    return { ...this.state.contextInfo, currentTokens: 0, tokenLimit: limit ?? 0 };
+  }
+
+  /** Block image prompts on models known to lack vision; warn when it's unknown. */
+  private checkImageSupport(): boolean {
+    const model = this.getModelDescription(this.state.currentModel);
+    const name = model?.name ?? this.state.currentModel ?? "The current model";
+    if (model?.vision === false) {
+      this.emit(
+        createLogEvent("error", `${name} doesn't accept images; switch to a vision model (Shift+Tab) or remove the attachment`)
+      );
+      return false;
+    }
+    if (model?.vision === undefined) {
+      this.emit(createLogEvent("warn", `${name} may not support images; sending the attachment anyway`));
+    }
+    return true;
   }
 
-  private async executePrompt(text: string, displayText?: string, images?: string[]): Promise<void> {
+  private async executePrompt(
+    text: string,
+    displayText?: string,
+    images?: string[],
+    attachments?: PromptAttachment[]
+  ): Promise<void> {
+    // Compact first when the context is over budget, so the prompt goes to the compacted session
+    await this.checkContextBudget();
+
     const runId = generateId();
+    // A fork's (or compacted session's) first prompt carries the earlier conversation
+    const sessionId = this.state.currentSessionId;
+    const forkSeed = sessionId ? this.sessionSettings.getForkSeed(sessionId) : null;
 
-    const userMessage = createUserMessage(displayText ?? text);
-    this.state = {
-      ...this.state,
-      transcript: [...this.state.transcript, userMessage],
-    };
+    const message = createUserMessage(displayText ?? text);
+    this.recordSubmission(message.id, { text: displayText ?? text, images, attachments });
+    this.emit({ type: "user.message", message });
 
+    const command = displayText ? parseSlashCommand(displayText)?.name : undefined;
+    this.beginRunUsage(runId, command ? `/${command}` : "prompt", false);
     this.emit({
       type: "run.started",
       runId,
@@ -830,9 +1365,11 @@ export class Harness {
     });
 
     this.emit(createLogEvent("info", `Run started: ${runId}`, runId));
+    await this.checkpointRun(runId, displayText ?? text);
 
     try {
-      await this.adapter!.sendPrompt(text, runId, images);
+      await this.adapter!.sendPrompt(forkSeed ? `${forkSeed}\n\n---\n\n${text}` : text, runId, images, attachments);
+      if (forkSeed) this.sessionSettings.clearForkSeed(sessionId!);
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : String(error);
@@ -851,6 +1388,7 @@ export class Harness {
     }
 
     const runId = this.state.currentRunId;
+    this.denyPendingPermissions();
 
     if (this.adapter) {
       try {
@@ -873,22 +1411,70 @@ export class Harness {
     this.emit(createLogEvent("info", `Run cancelled: ${runId}`, runId));
   }
 
-  async initialize(): Promise<void> {
+  /** Start the backend; `model` overrides its default model for the first session. */
+  async initialize(options: { model?: string } = {}): Promise<void> {
     if (!this.adapter) {
       throw new Error("Adapter not set. Call setAdapter() first.");
     }
 
+    this.journal = new EventJournal((message) => this.emit(createLogEvent("warn", message)));
+
     this.emit(createLogEvent("info", "Initializing Copilot session..."));
 
+    for (const message of this.permissionPolicy.reload()) {
+      this.emit(createLogEvent("warn", `Permission policy: ${message}`));
+    }
+
+    const settingsError = this.sessionSettings.load();
+    if (settingsError) {
+      this.emit(createLogEvent("warn", `Session settings: ${settingsError}`));
+    }
+
+    this.loadMcpConfig();
+
+    const { providers, errors: providerErrors } = loadProviders();
+    for (const message of providerErrors) {
+      this.emit(createLogEvent("warn", `Provider config: ${message}`));
+    }
+    this.adapter.setProviders(providers);
+
+    const { config: contextBudget, errors: contextErrors } = loadContextBudget();
+    for (const message of contextErrors) {
+      this.emit(createLogEvent("warn", `Context budget: ${message}`));
+    }
+    this.contextBudget = contextBudget;
+
+    const { budget: usageBudget, errors: usageErrors } = loadUsageBudget();
+    for (const message of usageErrors) {
+      this.emit(createLogEvent("warn", `Usage budget: ${message}`));
+    }
+    this.usageBudget = usageBudget;
+
+    const { settings: checkpointSettings, errors: checkpointErrors } = loadCheckpointSettings();
+    for (const message of checkpointErrors) {
+      this.emit(createLogEvent("warn", `Checkpoints: ${message}`));
+    }
+    this.checkpointSettings = checkpointSettings;
+    // Pruning runs in the background; the first run's checkpoint waits for it
+    this.checkpointsAvailable = checkpointSettings.enabled ? this.initCheckpoints() : Promise.resolve(false);
+    this.state = {
+      ...this.state,
+      contextBudget: { warnAt: contextBudget.warnAt, compactAt: contextBudget.compactAt },
+    };
+
     try {
-      await this.adapter.initialize();
+      await this.adapter.initialize(options.model);
       
       this.state = {
         ...this.state,
-        currentModel: this.adapter.currentModel,
         availableModels: this.adapter.availableModels,
         currentSessionId: this.adapter.currentSessionId,
       };
+      if (this.state.currentSessionId) {
+        this.journal.setSession(this.state.currentSessionId);
+      }
+      // Through an event so the journal records which model the session started on
+      this.emit({ type: "model.changed", model: this.adapter.currentModel });
       
       this.emit(createLogEvent("info", "Copilot session ready"));
       
@@ -896,6 +1482,9 @@ export class Harness {
         this.emit(createLogEvent("info", `Using model: ${this.adapter.currentModel}`));
       }
 
+      // Probe in the background; status arrives as mcp.status events
+      void this.probeMcpServers();
+
       // Load available sessions
       await this.handleRefreshSessions();
     } catch (error) {
@@ -917,6 +1506,10 @@ export class Harness {
       return;
     }
 
+    if (modelId === this.state.currentModel) {
+      return;
+    }
+
     this.emit(createLogEvent("info", `Switching to model: ${modelId}...`));
 
     try {
@@ -932,26 +1525,60 @@ export class Harness {
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : String(error);
-      this.emit(createLogEvent("error", `Model switch failed: ${errorMessage}`));
+      this.emit(
+        createLogEvent("error", `Model switch failed: ${errorMessage} (still using ${this.state.currentModel ?? "default model"})`)
+      );
     }
   }
 
+  private updateQueue(queue: QueuedPrompt[]): void {
+    this.emit({ type: "queue.updated", queue });
+  }
+
   private async processNextQueuedMessage(): Promise<void> {
-    if (this.state.messageQueue.length === 0) {
+    // Built-in commands finish without a run, so keep going until something starts one
+    while (this.state.messageQueue.length > 0 && this.state.status !== "running") {
+      const [next, ...remainingQueue] = this.state.messageQueue;
+      this.updateQueue(remainingQueue);
+
+      this.emit(
+        createLogEvent("info", `Processing queued message (${remainingQueue.length} remaining)`)
+      );
+
+      // Through the normal submit path so slash commands expand and images are checked
+      await this.handleSubmitPrompt(next.text, next.images, next.attachments);
+    }
+  }
+
+  private handleEditQueuedPrompt(id: string, text: string): void {
+    if (!text.trim()) {
+      this.updateQueue(this.state.messageQueue.filter((p) => p.id !== id));
       return;
     }
+    this.updateQueue(this.state.messageQueue.map((p) => (p.id === id ? { ...p, text } : p)));
+  }
 
-    const [nextMessage, ...remainingQueue] = this.state.messageQueue;
-    this.state = {
-      ...this.state,
-      messageQueue: remainingQueue,
-    };
+  private handleMoveQueuedPrompt(id: string, offset: number): void {
+    const queue = [...this.state.messageQueue];
+    const from = queue.findIndex((p) => p.id === id);
+    if (from === -1) return;
+    const to = Math.max(0, Math.min(queue.length - 1, from + offset));
+    if (to === from) return;
+    const [entry] = queue.splice(from, 1);
+    queue.splice(to, 0, entry);
+    this.updateQueue(queue);
+  }
 
-    this.emit(
-      createLogEvent("info", `Processing queued message (${remainingQueue.length} remaining)`)
-    );
+  private async handleSendQueuedPromptNow(id: string): Promise<void> {
+    const entry = this.state.messageQueue.find((p) => p.id === id);
+    if (!entry) return;
 
-    await this.executePrompt(nextMessage);
+    this.updateQueue([entry, ...this.state.messageQueue.filter((p) => p.id !== id)]);
+    if (this.state.status === "running") {
+      this.emit(createLogEvent("info", "Interrupting the current run to send a queued prompt"));
+      await this.handleCancel();
+    }
+    await this.processNextQueuedMessage();
   }
 
   private handleAnswerQuestion(requestId: string, answer: string, wasFreeform: boolean): void {
@@ -987,18 +1614,413 @@ export class Harness {
     });
   }
 
-  private async handleNewSession(): Promise<void> {
-    if (this.state.status === "running") {
-      this.emit(createLogEvent("warn", "Cannot create new session while a run is in progress"));
-      return;
+  /** Deny anything still waiting on the user so the SDK can unwind the tool calls. */
+  private denyPendingPermissions(): void {
+    for (const pending of this.state.pendingPermissions) {
+      this.handlePermissionRespond(pending.requestId, "deny");
     }
+  }
 
-    if (!this.adapter) {
-      this.emit(createLogEvent("error", "Copilot adapter not initialized"));
-      return;
+  private handlePermissionRespond(requestId: string, decision: PermissionDecision): void {
+    const pending = this.state.pendingPermissions.find((p) => p.requestId === requestId);
+    if (pending) {
+      if (decision === "allow-session") {
+        this.sessionPermissionGrants.add(this.permissionGrantKey(pending.kind, pending.target));
+      }
+      this.emit(
+        createLogEvent(
+          "info",
+          `Permission ${decision} by user: ${this.describePermission(pending.kind, pending.target)}`,
+          null,
+          { kind: pending.kind, target: pending.target, decision, source: "user" }
+        )
+      );
     }
 
-    this.emit(createLogEvent("info", "Creating new session..."));
+    const resolver = this.permissionResolvers.get(requestId);
+    if (resolver) {
+      resolver(decision === "deny" ? "denied-by-user" : "approved");
+      this.permissionResolvers.delete(requestId);
+    }
+
+    this.emit({
+      type: "permission.responded",
+      requestId,
+      decision,
+    });
+  }
+
+  /**
+   * Decide a tool operation's permission request. Policy rules are applied
+   * first; without a matching rule, an earlier allow-session decision for the
+   * same kind and exact target approves it, otherwise the user is asked.
+   * An explicit "ask" rule always prompts.
+   */
+  handlePermissionRequest(request: PermissionPrompt): Promise<PermissionOutcome> {
+    const description = this.describePermission(request.kind, request.target);
+    const policy = this.permissionPolicy.evaluate(request.kind, request.target);
+
+    if (policy.rule && policy.action !== "ask") {
+      const decision = policy.action === "allow" ? "allow-once" : "deny";
+      this.emit(
+        createLogEvent(
+          "info",
+          `Permission ${decision} by rule [${formatPermissionRule(policy.rule)}]: ${description}`,
+          null,
+          { kind: request.kind, target: request.target, decision, source: "rule", rule: policy.rule }
+        )
+      );
+      return Promise.resolve(policy.action === "allow" ? "approved" : "denied-by-rules");
+    }
+
+    if (!policy.rule && this.sessionPermissionGrants.has(this.permissionGrantKey(request.kind, request.target))) {
+      this.emit(
+        createLogEvent(
+          "info",
+          `Permission allow-session by earlier approval: ${description}`,
+          null,
+          { kind: request.kind, target: request.target, decision: "allow-session", source: "session" }
+        )
+      );
+      return Promise.resolve("approved");
+    }
+
+    const requestId = generateId();
+
+    this.emit({
+      type: "permission.requested",
+      requestId,
+      kind: request.kind,
+      prompt: request.intention,
+      target: request.target,
+      diff: request.diff,
+      toolCallId: request.toolCallId,
+    });
+
+    return new Promise((resolve) => {
+      this.permissionResolvers.set(requestId, resolve);
+    });
+  }
+
+  private permissionGrantKey(kind: PermissionKind, target?: string): string {
+    return `${kind}:${target ?? ""}`;
+  }
+
+  private describePermission(kind: PermissionKind, target?: string): string {
+    return target ? `${kind} ${target}` : kind;
+  }
+
+  /** `/effort` shows the reasoning effort; `/effort <level|default>` sets it for the session. */
+  private async handleEffortCommand(args: string): Promise<void> {
+    const level = args.trim().toLowerCase();
+
+    if (!level) {
+      const model = this.getModelDescription(this.state.currentModel);
+      const current = this.state.reasoningEffort ?? "model default";
+      const supported = model?.reasoning
+        ? `levels: ${REASONING_EFFORTS.join(", ")}, default`
+        : `${model?.name ?? "the current model"} doesn't support reasoning effort`;
+      this.emit(createLogEvent("info", `Reasoning effort: ${current} (${supported})`));
+      return;
+    }
+
+    if (level === "default") {
+      await this.handleSetReasoningEffort(null);
+      return;
+    }
+
+    if (!isReasoningEffort(level)) {
+      this.emit(createLogEvent("error", `Unknown reasoning effort "${level}". Use /effort <${REASONING_EFFORTS.join("|")}|default>`));
+      return;
+    }
+
+    await this.handleSetReasoningEffort(level);
+  }
+
+  /**
+   * `/export [markdown|html|json] [--redact] [--ephemeral] [path]` writes the
+   * transcript; markdown to .anvil/exports/ is the default.
+   */
+  private handleExportCommand(args: string): void {
+    const options: ExportOptions = { format: "markdown", redactToolOutputs: false, includeEphemeral: false };
+    let path: string | undefined;
+
+    for (const arg of args.trim().split(/\s+/).filter(Boolean)) {
+      const format = parseExportFormat(arg);
+      if (arg === "--redact") {
+        options.redactToolOutputs = true;
+      } else if (arg === "--ephemeral") {
+        options.includeEphemeral = true;
+      } else if (arg.startsWith("--")) {
+        this.emit(createLogEvent("error", `Unknown option ${arg}. Use /export [markdown|html|json] [--redact] [--ephemeral] [path]`));
+        return;
+      } else if (format && !path) {
+        options.format = format;
+      } else if (!path) {
+        path = arg;
+      } else {
+        this.emit(createLogEvent("error", `Unexpected argument "${arg}". Use /export [markdown|html|json] [--redact] [--ephemeral] [path]`));
+        return;
+      }
+    }
+
+    this.exportTranscript(options, path);
+  }
+
+  /** Write the current transcript to `path` (or .anvil/exports/) and log where it went. */
+  private exportTranscript(options: ExportOptions, path?: string): void {
+    const ephemeralRuns = this.state.ephemeralRun
+      ? [...this.closedEphemeralRuns, this.state.ephemeralRun]
+      : this.closedEphemeralRuns;
+    const doc = buildExportDocument(
+      {
+        sessionId: this.state.currentSessionId,
+        model: this.state.servedModel ?? this.state.currentModel,
+        transcript: this.state.transcript,
+        plan: this.state.currentPlan ?? this.latestPlan,
+        ephemeralRuns,
+      },
+      options
+    );
+
+    const stamp = doc.exportedAt.toISOString().replace(/[:.]/g, "-");
+    const fileName = `${this.state.currentSessionId ?? "session"}-${stamp}.${exportFileExtension(options.format)}`;
+    const filePath = path ? resolve(path) : getConfigPath("project", "exports", fileName);
+
+    try {
+      mkdirSync(dirname(filePath), { recursive: true });
+      writeFileSync(filePath, renderExport(doc, options.format), "utf-8");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.emit(createLogEvent("error", `Failed to export transcript: ${message}`));
+      return;
+    }
+
+    this.emit(
+      createLogEvent("info", `Exported ${doc.transcript.length} transcript items as ${options.format} to ${filePath}`, null, {
+        path: filePath,
+        format: options.format,
+      })
+    );
+  }
+
+  private async handleSetReasoningEffort(effort: ReasoningEffort | null): Promise<void> {
+    if (this.state.status === "running") {
+      this.emit(createLogEvent("warn", "Cannot change reasoning effort while a run is in progress"));
+      return;
+    }
+
+    const sessionId = this.state.currentSessionId;
+    if (!this.adapter || !sessionId) {
+      this.emit(createLogEvent("error", "Copilot adapter not initialized"));
+      return;
+    }
+
+    const model = this.getModelDescription(this.state.currentModel);
+    if (effort && !model?.reasoning) {
+      this.emit(createLogEvent("warn", `${model?.name ?? this.state.currentModel ?? "The current model"} doesn't support reasoning effort`));
+      return;
+    }
+    if (effort && model?.reasoningEfforts && !model.reasoningEfforts.includes(effort)) {
+      this.emit(createLogEvent("warn", `${model.name} supports reasoning effort ${model.reasoningEfforts.join(", ")}, not ${effort}`));
+      return;
+    }
+
+    try {
+      await this.adapter.setReasoningEffort(effort);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.emit(createLogEvent("error", `Failed to set reasoning effort: ${errorMessage}`));
+      return;
+    }
+
+    try {
+      this.sessionSettings.setReasoningEffort(sessionId, effort);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.emit(createLogEvent("warn", `Reasoning effort applied but not saved: ${errorMessage}`));
+    }
+
+    this.state = { ...this.state, reasoningEffort: effort };
+    this.emit(createLogEvent("info", `Reasoning effort: ${effort ?? "model default"}`));
+  }
+
+  /**
+   * `/permissions` lists the loaded rules; `/permissions add [--user] <action> <kind> [pattern]`
+   * appends one to the project (or user) permissions file.
+   */
+  private handlePermissionsCommand(args: string): void {
+    const [subcommand, ...rest] = args.split(/\s+/);
+
+    if (!subcommand || subcommand === "list") {
+      const rules = this.permissionPolicy.list();
+      if (rules.length === 0) {
+        this.emit(createLogEvent("info", "No permission rules. Add one with /permissions add <allow|deny|ask> <kind> [pattern]"));
+        return;
+      }
+      const lines = rules.map((rule, index) => `  ${index + 1}. ${formatPermissionRule(rule)}`);
+      this.emit(createLogEvent("info", `Permission rules:\n${lines.join("\n")}`));
+      return;
+    }
+
+    if (subcommand === "add") {
+      const parsed = parsePermissionRuleArgs(rest.join(" "));
+      if (typeof parsed === "string") {
+        this.emit(createLogEvent("error", `Invalid permission rule: ${parsed}`));
+        return;
+      }
+      try {
+        const filePath = this.permissionPolicy.addRule(parsed.rule, parsed.scope);
+        this.emit(
+          createLogEvent("info", `Added permission rule [${formatPermissionRule({ ...parsed.rule, scope: parsed.scope })}] to ${filePath}`)
+        );
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        this.emit(createLogEvent("error", `Failed to add permission rule: ${errorMessage}`));
+      }
+      return;
+    }
+
+    this.emit(createLogEvent("error", `Unknown /permissions subcommand: ${subcommand}`));
+  }
+
+  /**
+   * Read MCP server definitions and hand them to the adapter.
+   * Sessions that already exist keep the servers they were created with.
+   */
+  private loadMcpConfig(): void {
+    const { servers, errors, untrusted, trust } = loadMcpServers();
+    for (const message of errors) {
+      this.emit(createLogEvent("warn", `MCP config: ${message}`));
+    }
+    if (untrusted.length > 0) {
+      const reason = trust === "changed" ? "has changed since you trusted it" : "isn't trusted yet";
+      this.emit(
+        createLogEvent(
+          "warn",
+          `Project MCP servers ${untrusted.join(", ")} are disabled: .anvil/mcp.json ${reason}, and its commands would run on this machine. Review it, then run /mcp trust to enable them.`
+        )
+      );
+    }
+    this.untrustedMcpServers = untrusted;
+
+    this.adapter?.setMcpServers(servers);
+    this.state = {
+      ...this.state,
+      mcpServers: servers.map((server) => {
+        const previous = this.state.mcpServers.find((s) => s.name === server.name);
+        return {
+          name: server.name,
+          scope: server.scope,
+          command: [server.command, ...server.args].join(" "),
+          state: "connecting" as const,
+          tools: [],
+          failures: previous?.failures ?? [],
+        };
+      }),
+    };
+    this.mcpDefinitions = servers;
+  }
+
+  /**
+   * Launch each server once to check it answers the MCP handshake. The result
+   * is the probe's; sessions start their own server processes.
+   */
+  private async probeMcpServers(): Promise<void> {
+    await Promise.all(
+      this.mcpDefinitions.map(async (server) => {
+        this.emit({ type: "mcp.status", server: server.name, state: "connecting" });
+        try {
+          const tools = await probeMcpServer(server);
+          this.emit({
+            type: "mcp.status",
+            server: server.name,
+            state: "connected",
+            tools: filterAllowedTools(tools, server.tools),
+          });
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          this.emit({ type: "mcp.status", server: server.name, state: "failed", error: errorMessage });
+          this.emit(createLogEvent("warn", `MCP server "${server.name}" failed to start: ${errorMessage}`));
+        }
+      })
+    );
+  }
+
+  private handleMcpCommand(args: string): void {
+    const subcommand = args.trim();
+
+    if (subcommand === "reload") {
+      this.loadMcpConfig();
+      this.emit(createLogEvent("info", "MCP config reloaded; changes apply to new sessions"));
+      void this.probeMcpServers();
+      return;
+    }
+
+    if (subcommand === "trust") {
+      let filePath: string | null;
+      try {
+        filePath = trustProjectMcpConfig();
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.emit(createLogEvent("error", `Failed to trust the project MCP config: ${message}`));
+        return;
+      }
+      if (!filePath) {
+        this.emit(createLogEvent("info", "This project has no .anvil/mcp.json to trust"));
+        return;
+      }
+      this.emit(createLogEvent("info", `Trusted ${filePath} as it is now; changes to it need /mcp trust again`));
+      this.loadMcpConfig();
+      void this.probeMcpServers();
+      return;
+    }
+
+    if (subcommand) {
+      this.emit(createLogEvent("error", `Unknown /mcp subcommand: ${subcommand}`));
+      return;
+    }
+
+    const servers = this.state.mcpServers;
+    const untrustedNote =
+      this.untrustedMcpServers.length > 0
+        ? `\nDisabled until /mcp trust: ${this.untrustedMcpServers.join(", ")} (project)`
+        : "";
+    if (servers.length === 0) {
+      this.emit(
+        createLogEvent("info", `No MCP servers enabled. Add them to .anvil/mcp.json or ~/.anvil/mcp.json${untrustedNote}`)
+      );
+      return;
+    }
+
+    const lines = servers.map((server) => {
+      const details = [`  ${server.name} (${server.scope}) — probe ${server.state}`, `    command: ${server.command}`];
+      if (server.tools.length > 0) details.push(`    tools: ${server.tools.join(", ")}`);
+      for (const failure of server.failures) {
+        details.push(`    ✗ ${failure.at.toLocaleTimeString()} ${failure.message}`);
+      }
+      return details.join("\n");
+    });
+    this.emit(
+      createLogEvent(
+        "info",
+        `MCP servers (status from a startup probe; sessions run their own server processes):\n${lines.join("\n")}${untrustedNote}`
+      )
+    );
+  }
+
+  private async handleNewSession(): Promise<void> {
+    if (this.state.status === "running") {
+      this.emit(createLogEvent("warn", "Cannot create new session while a run is in progress"));
+      return;
+    }
+
+    if (!this.adapter) {
+      this.emit(createLogEvent("error", "Copilot adapter not initialized"));
+      return;
+    }
+
+    this.emit(createLogEvent("info", "Creating new session..."));
 
     try {
       const sessionId = await this.adapter.createNewSession();
@@ -1075,13 +2097,529 @@ export class Harness {
     }
   }
 
+  /**
+   * Fork the current session at `itemId` into a new project session. The new
+   * session shows the transcript up to that item, and its first prompt is sent
+   * with that conversation (verbatim or summarized) and the current plan.
+   */
+  private async handleForkSession(itemId: string, mode: ForkMode): Promise<void> {
+    if (this.state.status === "running") {
+      this.emit(createLogEvent("warn", "Cannot fork while a run is in progress"));
+      return;
+    }
+
+    if (!this.adapter) {
+      this.emit(createLogEvent("error", "Copilot adapter not initialized"));
+      return;
+    }
+
+    const index = this.state.transcript.findIndex((item) => item.id === itemId);
+    if (index === -1) {
+      this.emit(createLogEvent("error", "Cannot fork: message not found in the current session"));
+      return;
+    }
+
+    await this.forkSession(this.state.transcript.slice(0, index + 1), itemId, mode);
+  }
+
+  /** Create the fork seeded with `transcript`; returns false (after logging) on failure. */
+  private async forkSession(transcript: TranscriptItem[], itemId: string, mode: ForkMode): Promise<boolean> {
+    const parentSessionId = this.state.currentSessionId;
+    if (!parentSessionId || !this.adapter) {
+      this.emit(createLogEvent("error", "Cannot fork: no active session"));
+      return false;
+    }
+
+    const plan = this.state.currentPlan ?? this.latestPlan;
+    let conversation = renderTranscriptMarkdown(transcript);
+
+    if (mode === "summary" && transcript.length > 0) {
+      this.emit(createLogEvent("info", "Summarizing the conversation for the fork..."));
+      try {
+        conversation = await this.summarizeConversation(FORK_SUMMARY_PROMPT, conversation, "fork-summary");
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        this.emit(createLogEvent("error", `Fork failed: couldn't summarize the conversation: ${errorMessage}`));
+        return false;
+      }
+    }
+
+    const context = [
+      transcript.length > 0
+        ? `## ${mode === "summary" ? "Summary of the conversation" : "Conversation"}\n\n${conversation}`
+        : null,
+      plan ? `## Current plan (plan.md)\n\n${plan.trim()}` : null,
+    ].filter(Boolean);
+    // Forking at the very first message with no plan leaves nothing to carry over
+    const seed = context.length > 0 ? [FORK_SEED_INTRO, ...context].join("\n\n") : "";
+
+    try {
+      const sessionId = await this.adapter.createNewSession();
+      this.sessionSettings.setFork(sessionId, { parentSessionId, forkedFromItemId: itemId, forkSeed: seed });
+
+      this.state = {
+        ...this.state,
+        currentSessionId: sessionId,
+        contextInfo: {
+          currentTokens: 0,
+          tokenLimit: 0,
+          conversationLength: 0,
+          remainingPremiumRequests: this.state.contextInfo.remainingPremiumRequests,
+          consumedRequests: this.state.contextInfo.consumedRequests,
+        },
+      };
+      this.emit({ type: "session.forked", sessionId, parentSessionId, forkedFromItemId: itemId, transcript });
+      if (plan) {
+        this.emit({ type: "plan.updated", content: plan });
+      }
+
+      await this.handleRefreshSessions();
+
+      this.emit(createLogEvent("info", `Forked ${parentSessionId} into ${sessionId} (${mode}); the context is sent with the next prompt`));
+      return true;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.emit(createLogEvent("error", `Failed to fork session: ${errorMessage}`));
+      return false;
+    }
+  }
+
+  /** Whether edited prompts can be resent in place; otherwise they go to a fork. */
+  canRewindHistory(): boolean {
+    return typeof this.adapter?.rewindToTurn === "function";
+  }
+
+  private async handleResendMessage(action: Extract<UIAction, { type: "message.resend" }>): Promise<void> {
+    if (this.state.status === "running") {
+      this.emit(createLogEvent("warn", "Cannot resend while a run is in progress"));
+      return;
+    }
+
+    if (!this.adapter) {
+      this.emit(createLogEvent("error", "Copilot adapter not initialized"));
+      return;
+    }
+
+    const index = this.state.transcript.findIndex((item) => item.id === action.itemId);
+    const item = this.state.transcript[index];
+    if (!item || item.kind !== "message" || item.role !== "user") {
+      this.emit(createLogEvent("error", "Cannot resend: user message not found in the current session"));
+      return;
+    }
+
+    // The original images and attachments go along, plus any added while editing
+    const original = this.promptSubmissions.get(item.id);
+    const images = [...new Set([...(original?.images ?? []), ...(action.images ?? [])])];
+    const attachments = [...(original?.attachments ?? []), ...(action.attachments ?? [])].filter(
+      (attachment, i, all) => all.findIndex((a) => JSON.stringify(a) === JSON.stringify(attachment)) === i
+    );
+
+    let mode = action.mode;
+    if (mode === "in-place" && !this.canRewindHistory()) {
+      this.emit(createLogEvent("info", "This backend can't rewrite session history; resending in a fork"));
+      mode = "fork";
+    }
+
+    if (mode === "in-place") {
+      const turn = this.state.transcript
+        .slice(0, index)
+        .filter((entry) => entry.kind === "message" && entry.role === "user").length;
+      try {
+        await this.adapter.rewindToTurn!(turn);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        this.emit(createLogEvent("error", `Failed to rewind the session: ${errorMessage}`));
+        return;
+      }
+      this.emit({ type: "transcript.truncated", itemId: item.id });
+    } else if (!(await this.forkSession(this.state.transcript.slice(0, index), item.id, "verbatim"))) {
+      return;
+    }
+
+    await this.handleSubmitPrompt(
+      action.text,
+      images.length > 0 ? images : undefined,
+      attachments.length > 0 ? attachments : undefined
+    );
+  }
+
+  /** `/retry [model]` resubmits the last prompt as it was sent, optionally on another model. */
+  private async handleRetryCommand(args: string): Promise<void> {
+    const lastPrompt = [...this.state.transcript]
+      .reverse()
+      .find((item): item is ChatMessage => item.kind === "message" && item.role === "user");
+    if (!lastPrompt) {
+      this.emit(createLogEvent("warn", "Nothing to retry: no prompt in this session yet"));
+      return;
+    }
+
+    const modelArg = args.trim();
+    if (modelArg) {
+      const model = this.state.availableModels.find(
+        (m) => m.id === modelArg || m.name.toLowerCase() === modelArg.toLowerCase()
+      );
+      if (!model) {
+        this.emit(createLogEvent("error", `Unknown model "${modelArg}". Use /retry [model-id]`));
+        return;
+      }
+      await this.handleChangeModel(model.id);
+      if (this.state.currentModel !== model.id) return;
+    }
+
+    const submission = this.promptSubmissions.get(lastPrompt.id) ?? { text: lastPrompt.content };
+    this.emit(createLogEvent("info", `Retrying: ${submission.text.slice(0, 80)}`));
+    await this.handleSubmitPrompt(submission.text, submission.images, submission.attachments);
+  }
+
+  private recordSubmission(messageId: string, submission: PromptSubmission): void {
+    this.promptSubmissions.set(messageId, submission);
+    // Only messages that can still be in a transcript are worth keeping
+    if (this.promptSubmissions.size > MAX_TRANSCRIPT) {
+      const oldest = this.promptSubmissions.keys().next().value;
+      if (oldest !== undefined) this.promptSubmissions.delete(oldest);
+    }
+  }
+
+  /**
+   * Warn or compact once the context crosses the budget thresholds. Runs
+   * between turns, so a compaction never interrupts a run.
+   */
+  private async checkContextBudget(): Promise<void> {
+    if (this.compaction) {
+      await this.compaction;
+      return;
+    }
+
+    const { currentTokens, tokenLimit } = this.state.contextInfo;
+    const percent = contextUsagePercent(currentTokens, tokenLimit);
+    const level = contextBudgetLevel(percent, this.contextBudget);
+    if (level === "ok") {
+      // Usage can drop, e.g. when the SDK trims history itself
+      this.budgetLevelHandled = "ok";
+      return;
+    }
+    if (BUDGET_LEVEL_ORDER[level] <= BUDGET_LEVEL_ORDER[this.budgetLevelHandled]) return;
+    this.budgetLevelHandled = level;
+
+    const usage = `${percent}% of the context window (${formatTokenCount(currentTokens)} of ${formatTokenCount(tokenLimit)} tokens)`;
+    if (level === "warn") {
+      const { compactAt } = this.contextBudget;
+      const next = compactAt !== null ? `it will be compacted at ${compactAt}%; ` : "";
+      this.emit(createLogEvent("warn", `The conversation is using ${usage}; ${next}use /compact to compact it now`));
+      return;
+    }
+
+    this.emit(createLogEvent("info", `The conversation is using ${usage}; compacting it`));
+    await this.compactSession();
+  }
+
+  /** Summarize the conversation into a fresh session; concurrent calls share one compaction. */
+  private compactSession(instructions?: string): Promise<boolean> {
+    if (!this.compaction) {
+      this.compaction = this.runCompaction(instructions).finally(() => {
+        this.compaction = null;
+      });
+    }
+    return this.compaction;
+  }
+
+  private async runCompaction(instructions?: string): Promise<boolean> {
+    const parentSessionId = this.state.currentSessionId;
+    if (!parentSessionId || !this.adapter) {
+      this.emit(createLogEvent("error", "Cannot compact: no active session"));
+      return false;
+    }
+
+    const transcript = this.state.transcript;
+    if (!transcript.some((item) => item.kind === "message" && item.role === "user")) {
+      this.emit(createLogEvent("warn", "Nothing to compact: no prompt in this session yet"));
+      return false;
+    }
+
+    const { currentTokens, tokenLimit } = this.state.contextInfo;
+    const plan = this.state.currentPlan ?? this.latestPlan;
+    const { compactionPrompt, pinnedFiles } = this.contextBudget;
+    const prompt = instructions ? `${compactionPrompt}\n\nAdditional instructions: ${instructions}` : compactionPrompt;
+
+    this.emit(createLogEvent("info", "Summarizing the conversation for compaction..."));
+    let summary: string;
+    try {
+      summary = await this.summarizeConversation(prompt, renderTranscriptMarkdown(transcript), "compact");
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.emit(createLogEvent("error", `Compaction failed: couldn't summarize the conversation: ${errorMessage}`));
+      return false;
+    }
+
+    const pinned = readPinnedFiles(pinnedFiles);
+    for (const message of pinned.errors) {
+      this.emit(createLogEvent("warn", `Context budget: ${message}`));
+    }
+    const seed = buildCompactionSeed(summary, pinned.files, plan);
+
+    const carried = [
+      "the summary",
+      ...pinned.files.map((file) => file.path),
+      ...(plan ? ["plan.md"] : []),
+    ].join(", ");
+    const usage = tokenLimit > 0
+      ? `${formatTokenCount(currentTokens)} of ${formatTokenCount(tokenLimit)} tokens (${contextUsagePercent(currentTokens, tokenLimit)}%)`
+      : "the conversation";
+    const marker = createSystemMessage(
+      `⟲ Compacted ${usage} from ${parentSessionId}. Carried over: ${carried}; sent with the next prompt.\n\n${summary}`
+    );
+
+    try {
+      const sessionId = await this.adapter.createNewSession();
+      this.sessionSettings.setFork(sessionId, {
+        parentSessionId,
+        forkedFromItemId: transcript[transcript.length - 1].id,
+        forkSeed: seed,
+      });
+
+      this.state = {
+        ...this.state,
+        currentSessionId: sessionId,
+        contextInfo: {
+          currentTokens: 0,
+          tokenLimit: 0,
+          conversationLength: 0,
+          remainingPremiumRequests: this.state.contextInfo.remainingPremiumRequests,
+          consumedRequests: this.state.contextInfo.consumedRequests,
+        },
+      };
+      this.emit({ type: "session.compacted", sessionId, parentSessionId, marker });
+      if (plan) {
+        this.emit({ type: "plan.updated", content: plan });
+      }
+
+      await this.handleRefreshSessions();
+
+      this.emit(createLogEvent("info", `Compacted ${parentSessionId} into ${sessionId}`));
+      return true;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.emit(createLogEvent("error", `Compaction failed: ${errorMessage}`));
+      return false;
+    }
+  }
+
+  /** Summarize a conversation in an ephemeral run, without showing it. */
+  private async summarizeConversation(prompt: string, conversation: string, command: string): Promise<string> {
+    let summary = "";
+    const runId = generateId();
+    this.beginRunUsage(runId, command, true);
+    try {
+      await this.adapter!.runEphemeralPrompt(`${prompt}\n\n${conversation}`, runId, {
+        // Summaries use the session's model, which may be a provider-only one
+        model: this.state.currentModel ?? undefined,
+        onEvent: (event) => {
+          if (event.type === "assistant.message") summary = event.message.content;
+          this.trackRunUsage(event);
+        },
+      });
+    } finally {
+      // Backends that don't report the end of ephemeral runs
+      this.finishRunUsage(runId, "finished");
+    }
+    if (!summary.trim()) {
+      throw new Error("the summary was empty");
+    }
+    return summary.trim();
+  }
+
+  /** Start tallying a run's usage for the ledger; call before emitting `run.started`. */
+  private beginRunUsage(runId: string, command: string, ephemeral: boolean): void {
+    this.runUsage.set(runId, {
+      entry: {
+        runId,
+        startedAt: new Date(),
+        durationMs: 0,
+        project: process.cwd(),
+        sessionId: this.state.currentSessionId,
+        command,
+        model: null,
+        inputTokens: 0,
+        outputTokens: 0,
+        cacheReadTokens: 0,
+        cacheWriteTokens: 0,
+        premiumRequests: 0,
+        status: "finished",
+        ephemeral,
+      },
+      calls: 0,
+      cost: null,
+    });
+  }
+
+  private trackRunUsage(event: HarnessEvent): void {
+    if (event.type === "run.usage") {
+      const tally = this.runUsage.get(event.runId);
+      if (!tally) return;
+      const { entry } = tally;
+      tally.calls++;
+      if (event.cost !== undefined) tally.cost = (tally.cost ?? 0) + event.cost;
+      tally.entry = {
+        ...entry,
+        model: event.model,
+        inputTokens: entry.inputTokens + event.inputTokens,
+        outputTokens: entry.outputTokens + event.outputTokens,
+        cacheReadTokens: entry.cacheReadTokens + (event.cacheReadTokens ?? 0),
+        cacheWriteTokens: entry.cacheWriteTokens + (event.cacheWriteTokens ?? 0),
+      };
+    } else if (event.type === "run.finished" || event.type === "run.cancelled") {
+      this.finishRunUsage(event.runId, event.type === "run.finished" ? "finished" : "cancelled");
+    }
+  }
+
+  /**
+   * Write a run's usage to the ledger. Premium requests are what the SDK
+   * charged when it says so, otherwise the model's multiplier for a run that
+   * reached the model; provider models don't use premium requests.
+   */
+  private finishRunUsage(runId: string, status: UsageEntry["status"]): void {
+    const tally = this.runUsage.get(runId);
+    if (!tally) return;
+    this.runUsage.delete(runId);
+
+    const model = tally.entry.model ?? this.state.currentModel;
+    const description = this.getModelDescription(model);
+    const charged = tally.calls > 0 || status === "finished";
+    const premiumRequests =
+      tally.cost ?? (description?.provider || !charged ? 0 : description?.multiplier ?? 1);
+    const entry: UsageEntry = {
+      ...tally.entry,
+      model,
+      status,
+      premiumRequests,
+      durationMs: Date.now() - tally.entry.startedAt.getTime(),
+    };
+
+    if (!this.usageLedgerFailed) {
+      try {
+        appendUsageEntry(entry);
+      } catch (error) {
+        // Once is enough; a read-only home directory would otherwise warn after every run
+        this.usageLedgerFailed = true;
+        const message = error instanceof Error ? error.message : String(error);
+        this.emit(createLogEvent("warn", `Usage ledger: couldn't write, usage is no longer recorded: ${message}`));
+      }
+    }
+
+    this.checkUsageBudget(entry);
+  }
+
+  /** Warn once per month as premium requests pass each share of the monthly budget. */
+  private checkUsageBudget(entry: UsageEntry): void {
+    const limit = this.usageBudget.monthlyPremiumRequests;
+    if (limit === null) return;
+
+    const month = dayKey(entry.startedAt).slice(0, 7);
+    if (this.monthUsage?.month !== month) {
+      // The ledger already has this entry unless writing failed
+      const { entries } = readUsageLedger();
+      const premiumRequests = monthPremiumRequests(entries, entry.startedAt);
+      this.monthUsage = { month, premiumRequests: this.usageLedgerFailed ? premiumRequests + entry.premiumRequests : premiumRequests };
+    } else {
+      this.monthUsage = { month, premiumRequests: this.monthUsage.premiumRequests + entry.premiumRequests };
+    }
+
+    const used = this.monthUsage.premiumRequests;
+    const percent = Math.round((used / limit) * 100);
+    const crossed = USAGE_BUDGET_WARNINGS.filter((threshold) => percent >= threshold).pop();
+    if (crossed === undefined || this.usageBudgetWarnings.has(`${month}:${crossed}`)) return;
+    this.usageBudgetWarnings.add(`${month}:${crossed}`);
+
+    const usedText = `${Math.round(used * 100) / 100} of ${limit} premium requests this month (${percent}%)`;
+    this.emit(
+      createLogEvent("warn", crossed >= 100 ? `Monthly premium-request budget exceeded: ${usedText}` : `Used ${usedText}`)
+    );
+  }
+
+  /**
+   * `/usage [today|week|month|all] [--all-projects] [--csv [path]]` reports
+   * usage from the ledger, by default for this month and this project.
+   */
+  private handleUsageCommand(args: string): void {
+    const usage = "Use /usage [today|week|month|all] [--all-projects] [--csv [path]]";
+    let period: UsagePeriod = "month";
+    let allProjects = false;
+    let csv = false;
+    let csvPath: string | undefined;
+
+    for (const arg of args.trim().split(/\s+/).filter(Boolean)) {
+      const parsed = parseUsagePeriod(arg);
+      if (arg === "--all-projects") {
+        allProjects = true;
+      } else if (arg === "--csv") {
+        csv = true;
+      } else if (arg.startsWith("--")) {
+        this.emit(createLogEvent("error", `Unknown option ${arg}. ${usage}`));
+        return;
+      } else if (parsed) {
+        period = parsed;
+      } else if (csv && !csvPath) {
+        csvPath = arg;
+      } else {
+        this.emit(createLogEvent("error", `Unexpected argument "${arg}". ${usage}`));
+        return;
+      }
+    }
+
+    let ledger: ReturnType<typeof readUsageLedger>;
+    try {
+      ledger = readUsageLedger();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.emit(createLogEvent("error", `Failed to read the usage ledger: ${message}`));
+      return;
+    }
+    if (ledger.errors.length > 0) {
+      this.emit(createLogEvent("warn", `Usage ledger: skipped ${ledger.errors.length} malformed line(s)`));
+    }
+
+    const entries = allProjects ? ledger.entries : ledger.entries.filter((entry) => entry.project === process.cwd());
+    const limit = this.usageBudget.monthlyPremiumRequests;
+    const report = buildUsageReport(entries, period);
+    const sessionNames = new Map(this.state.availableSessions.map((session) => [session.id, session.name]));
+    this.emit(
+      createLogEvent(
+        "info",
+        formatUsageReport(report, {
+          sessionNames,
+          // The budget covers the whole account, so every project counts
+          budget: limit !== null ? { limit, used: monthPremiumRequests(ledger.entries) } : undefined,
+        }),
+        null,
+        report
+      )
+    );
+
+    if (!csv) return;
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const filePath = csvPath ? resolve(csvPath) : getConfigPath("project", "exports", `usage-${period}-${stamp}.csv`);
+    const rows = entriesInPeriod(entries, period);
+    try {
+      mkdirSync(dirname(filePath), { recursive: true });
+      writeFileSync(filePath, usageToCsv(rows), "utf-8");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.emit(createLogEvent("error", `Failed to export usage: ${message}`));
+      return;
+    }
+    this.emit(createLogEvent("info", `Exported ${rows.length} runs as CSV to ${filePath}`, null, { path: filePath }));
+  }
+
   private async handleRefreshSessions(): Promise<void> {
     if (!this.adapter) {
       return;
     }
 
     try {
-      const sessions = await this.adapter.listSessions();
+      const sessions = (await this.adapter.listSessions()).map((session) => {
+        const parentId = this.sessionSettings.getParentSessionId(session.id);
+        return parentId ? { ...session, parentId } : session;
+      });
       
       this.emit({
         type: "session.list.updated",
@@ -1101,6 +2639,8 @@ export class Harness {
     options?: {
       model?: string;
       displayText?: string;
+      /** Recorded in the usage ledger; defaults to "ephemeral" */
+      command?: string;
     }
   ): Promise<void> {
     if (!this.adapter) {
@@ -1112,19 +2652,14 @@ export class Harness {
     const displayText = options?.displayText ?? prompt;
 
     // Create ephemeral run state (don't add to main transcript)
-    const userMessage = createUserMessage(displayText);
-    this.state = {
-      ...this.state,
-      ephemeralRun: {
-        runId,
-        displayText,
-        transcript: [userMessage],
-        streamingContent: "",
-        status: "running",
-        startedAt: new Date(),
-      },
-    };
+    this.emit({
+      type: "ephemeral.started",
+      runId,
+      displayText,
+      message: createUserMessage(displayText),
+    });
 
+    this.beginRunUsage(runId, options?.command ?? "ephemeral", true);
     this.emit({
       type: "run.started",
       runId,
@@ -1132,6 +2667,7 @@ export class Harness {
     });
 
     this.emit(createLogEvent("info", `Ephemeral run started: ${runId}`, runId));
+    await this.checkpointRun(runId, displayText);
 
     try {
       await this.adapter.runEphemeralPrompt(prompt, runId, {
@@ -1163,7 +2699,195 @@ export class Harness {
     }
   }
 
+  /**
+   * Search the transcripts of every stored session, newest matches first.
+   * The current session is searched live; others are fetched from the backend
+   * once and cached until they change. Sessions that can't be read are skipped.
+   */
+  async searchSessions(query: string): Promise<SessionSearchResult[]> {
+    if (!this.adapter || !query.trim()) return [];
+
+    const sessions = await this.adapter.listSessions();
+    const results: SessionSearchResult[] = [];
+    let unreadable = 0;
+
+    for (const session of sessions) {
+      let transcript: TranscriptItem[];
+      if (session.id === this.state.currentSessionId) {
+        transcript = this.state.transcript;
+      } else {
+        const lastUsedAt = session.lastUsedAt?.getTime() ?? 0;
+        const cached = this.sessionTranscriptCache.get(session.id);
+        if (cached && cached.lastUsedAt === lastUsedAt) {
+          transcript = cached.transcript;
+        } else {
+          try {
+            transcript = await this.adapter.getSessionTranscript(session.id);
+          } catch {
+            unreadable++;
+            continue;
+          }
+          this.sessionTranscriptCache.set(session.id, { lastUsedAt, transcript });
+        }
+      }
+      results.push(...searchSessionTranscript(session, transcript, query));
+    }
+
+    if (unreadable > 0) {
+      this.emit(createLogEvent("warn", `Session search skipped ${unreadable} session(s) that couldn't be read`));
+    }
+
+    return results
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+      .slice(0, MAX_SEARCH_RESULTS);
+  }
+
+  /** Check for a git work tree and delete expired checkpoints; resolves to whether runs get checkpoints. */
+  private async initCheckpoints(): Promise<boolean> {
+    if (!(await isGitWorkTree())) return false;
+    const { maxAgeDays } = this.checkpointSettings;
+    try {
+      const pruned = await pruneCheckpoints(maxAgeDays);
+      if (pruned > 0) {
+        this.emit(createLogEvent("info", `Deleted ${pruned} checkpoint(s) older than ${maxAgeDays} days`));
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.emit(createLogEvent("warn", `Failed to prune checkpoints: ${message}`));
+    }
+    return true;
+  }
+
+  /** Snapshot the working tree for /undo. Failures are logged once and never stop the run. */
+  private async checkpointRun(runId: string, label: string): Promise<void> {
+    if (!(await this.checkpointsAvailable)) return;
+    await this.checkpointWrites;
+    try {
+      this.runCheckpoints.set(runId, await createCheckpoint(runId, label));
+    } catch (error) {
+      if (this.checkpointFailed) return;
+      this.checkpointFailed = true;
+      const message = error instanceof Error ? error.message : String(error);
+      this.emit(createLogEvent("warn", `Failed to create a checkpoint, so /undo won't cover this run: ${message}`, runId));
+    }
+  }
+
+  /** Snapshot the tree again when a checkpointed run ends, so /undo knows which files the run touched. */
+  private trackRunCheckpoint(event: HarnessEvent): void {
+    if (event.type !== "run.finished" && event.type !== "run.cancelled") return;
+    const checkpoint = this.runCheckpoints.get(event.runId);
+    if (!checkpoint) return;
+    this.runCheckpoints.delete(event.runId);
+    this.checkpointWrites = this.checkpointWrites.then(() => this.finishRunCheckpoint(checkpoint));
+  }
+
+  private async finishRunCheckpoint(checkpoint: Checkpoint): Promise<void> {
+    try {
+      await finishCheckpoint(checkpoint);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.emit(
+        createLogEvent("warn", `Failed to snapshot the end of "${checkpoint.label}"; /undo will restore every file changed since: ${message}`)
+      );
+    }
+  }
+
+  /** `/undo` lists the checkpoints and previews the newest, i.e. undoing the last run. */
+  private async handleUndoCommand(): Promise<void> {
+    if (!(await this.checkpointsAvailable)) {
+      const reason = this.checkpointSettings.enabled
+        ? "checkpoints need a git repository"
+        : "checkpoints are disabled in checkpoints.json";
+      this.emit(createLogEvent("warn", `Nothing to undo: ${reason}`));
+      return;
+    }
+
+    let checkpoints: Checkpoint[];
+    await this.checkpointWrites;
+    try {
+      checkpoints = await listCheckpoints();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.emit(createLogEvent("error", `Failed to list checkpoints: ${message}`));
+      return;
+    }
+    if (checkpoints.length === 0) {
+      this.emit(createLogEvent("info", "Nothing to undo: no checkpoints yet"));
+      return;
+    }
+
+    this.emit({ type: "undo.opened", checkpoints });
+    await this.handleUndoPreview(checkpoints[0].id);
+  }
+
+  private async handleUndoPreview(checkpointId: string): Promise<void> {
+    const checkpoint = this.state.undo?.checkpoints.find((c) => c.id === checkpointId);
+    if (!checkpoint) return;
+
+    const request = ++this.undoPreviewRequest;
+    let preview: CheckpointPreview;
+    try {
+      preview = await previewCheckpoint(checkpoint);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.emit(createLogEvent("error", `Failed to preview checkpoint: ${message}`));
+      return;
+    }
+    if (request !== this.undoPreviewRequest || !this.state.undo) return;
+    this.emit({ type: "undo.previewed", preview });
+  }
+
+  /**
+   * Put back the files the checkpoint's run touched. The undo is itself
+   * checkpointed, so it can be undone.
+   */
+  private async handleUndoRestore(checkpointId: string): Promise<void> {
+    const checkpoint = this.state.undo?.checkpoints.find((c) => c.id === checkpointId);
+    if (!checkpoint) return;
+    if (this.state.status === "running") {
+      this.emit(createLogEvent("warn", "Cannot undo while a run is in progress"));
+      return;
+    }
+
+    try {
+      // Recomputed rather than taken from the picker, in case files changed since it was shown
+      const { files } = await previewCheckpoint(checkpoint);
+      if (files.length === 0) {
+        this.emit({ type: "undo.closed" });
+        this.emit(createLogEvent("info", `Nothing to undo: the files "${checkpoint.label}" touched already match`));
+        return;
+      }
+      const safety = await createCheckpoint(`undo-${Date.now()}`, `Before undo to: ${checkpoint.label}`);
+      await restoreCheckpoint(checkpoint, files);
+      await this.finishRunCheckpoint(safety);
+      this.emit({ type: "checkpoint.restored", checkpointId, files: files.map((f) => f.path) });
+      this.emit(
+        createLogEvent(
+          "info",
+          `Restored ${files.length} file(s) to before "${checkpoint.label}". Run /undo again to revert this.`,
+          null,
+          { files }
+        )
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.emit(createLogEvent("error", `Undo failed: ${message}`));
+    }
+  }
+
+  /** Categorize uncommitted changes into commits and push them, in an ephemeral run. */
+  async runSmartCommit(): Promise<void> {
+    await this.runEphemeralPrompt(SMART_COMMIT_PROMPT, {
+      model: SMART_COMMIT_MODEL,
+      displayText: "[Smart Commit & Push]",
+      command: "smart-commit",
+    });
+  }
+
   private handleCloseEphemeral(): void {
+    if (this.state.ephemeralRun) {
+      this.closedEphemeralRuns = [...this.closedEphemeralRuns, this.state.ephemeralRun];
+    }
     this.state = {
       ...this.state,
       ephemeralRun: null,
@@ -1176,5 +2900,24 @@ export class Harness {
       await this.adapter.shutdown();
     }
     this.emit(createLogEvent("info", "Harness shutdown complete"));
+    this.journal?.flush();
+  }
+
+  /**
+   * Rebuild state by feeding journaled events through the same reducer the
+   * live harness uses. Nothing is sent to a backend, so the result shows a
+   * session exactly as it was after its last journaled event.
+   */
+  loadReplay(entries: JournalEntry[]): void {
+    for (const entry of entries) {
+      this.processEvent(entry.event);
+    }
+  }
+
+  /** Build a `HarnessState` from journal entries without a backend. */
+  static replay(entries: JournalEntry[]): HarnessState {
+    const harness = new Harness();
+    harness.loadReplay(entries);
+    return harness.getState();
   }
 }
@@ -0,0 +1,111 @@
+/**
+ * Agent backend contract — everything the Harness needs from the thing that
+ * actually runs prompts. `CopilotSessionAdapter` implements it on top of the
+ * Copilot SDK; `ScriptedBackend` replays recorded event scripts offline.
+ *
+ * Backends report progress only through `HarnessEvent`s passed to the
+ * `onEvent` handler; run completion is signalled with `run.finished` (or
+ * `run.cancelled` after `abort`), never by the returned promises.
+ */
+
+import type { HarnessEvent, PermissionKind, PromptAttachment, SessionInfo, TranscriptItem } from "./events.js";
+import type { PluginTool } from "./plugins.js";
+import type { AgentDefinition } from "../agents/AgentLoader.js";
+import type { McpServerDefinition } from "../mcp/McpConfig.js";
+import type { ProviderProfile } from "../providers/ProviderConfig.js";
+
+export type BackendEventHandler = (event: HarnessEvent) => void;
+
+export type UserInputHandler = (
+  request: { question: string; choices?: string[]; allowFreeform?: boolean }
+) => Promise<{ answer: string; wasFreeform: boolean }>;
+
+/** Permission request flattened into the fields the harness displays. */
+export interface PermissionPrompt {
+  kind: PermissionKind;
+  intention: string;
+  target?: string;
+  diff?: string;
+  toolCallId?: string;
+}
+
+/** Reasoning effort levels offered in the UI */
+export type ReasoningEffort = "low" | "medium" | "high";
+
+/** How a permission request was decided; "denied-by-rules" means a policy rule refused it without asking. */
+export type PermissionOutcome = "approved" | "denied-by-user" | "denied-by-rules";
+
+export type PermissionRequestHandler = (request: PermissionPrompt) => Promise<PermissionOutcome>;
+
+export interface ModelDescription {
+  id: string;
+  name: string;
+  /** BYOK provider profile serving the model; absent for Copilot models */
+  provider?: string;
+  /** Model family vendor used for grouping, e.g. "Anthropic" */
+  vendor?: string;
+  /** Total context window in tokens */
+  contextWindow?: number;
+  /** Prompt token budget, when smaller than the context window */
+  maxPromptTokens?: number;
+  /** Accepts image attachments; undefined when unknown */
+  vision?: boolean;
+  /** Supports configurable reasoning effort */
+  reasoning?: boolean;
+  /** Effort levels the model accepts, when it reports them */
+  reasoningEfforts?: string[];
+  /** Premium requests consumed per prompt */
+  multiplier?: number;
+}
+
+export interface EphemeralPromptOptions {
+  model?: string;
+  /** Receives the ephemeral run's events instead of the main handler */
+  onEvent?: (event: HarnessEvent) => void;
+}
+
+export interface AgentBackend {
+  // Wiring, called by the Harness before initialize()
+  onEvent(handler: BackendEventHandler): void;
+  onUserInputRequest(handler: UserInputHandler): void;
+  onPermissionRequest(handler: PermissionRequestHandler): void;
+  setToolProvider(provider: () => PluginTool[]): void;
+  setAgentProvider(provider: () => AgentDefinition[]): void;
+  setMcpServers(servers: McpServerDefinition[]): void;
+  setProviders(providers: ProviderProfile[]): void;
+  /** Looks up the remembered reasoning effort when a session is resumed */
+  setReasoningEffortProvider(provider: (sessionId: string) => ReasoningEffort | null): void;
+
+  readonly currentModel: string | null;
+  readonly availableModels: ModelDescription[];
+  readonly currentSessionId: string | null;
+
+  initialize(model?: string): Promise<void>;
+  shutdown(): Promise<void>;
+
+  /** Start a run; events for `runId` follow asynchronously. */
+  sendPrompt(prompt: string, runId: string, images?: string[], attachments?: PromptAttachment[]): Promise<void>;
+  /** Cancel the current run and emit `run.cancelled`. */
+  abort(): Promise<void>;
+  /** Switch the current session to another model; throws and keeps the old model on failure. */
+  switchModel(modelId: string): Promise<void>;
+  /** Apply a reasoning effort (null for the model default) to the current session; throws on failure. */
+  setReasoningEffort(effort: ReasoningEffort | null): Promise<void>;
+
+  listSessions(): Promise<SessionInfo[]>;
+  /** Create and switch to a fresh session, emitting `session.created`. Returns its ID. */
+  createNewSession(): Promise<string>;
+  /** Resume an existing session, emitting `session.switched` with its transcript. */
+  switchToSession(sessionId: string): Promise<void>;
+  /** Read a stored session's transcript without switching to it; used by session search. */
+  getSessionTranscript(sessionId: string): Promise<TranscriptItem[]>;
+  /**
+   * Drop the current session's history from its `turn`-th user prompt (0-based)
+   * on. Optional: backends that can't rewrite history leave it out, and edited
+   * prompts are resent in a fork instead.
+   */
+  rewindToTurn?(turn: number): Promise<void>;
+
+  /** Run a prompt in a throwaway session that never touches the current one. */
+  runEphemeralPrompt(prompt: string, runId: string, options?: EphemeralPromptOptions): Promise<void>;
+}
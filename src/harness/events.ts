@@ -3,6 +3,9 @@
  * Decouples UI from Copilot SDK specifics.
  */
 
+import type { Checkpoint, CheckpointPreview } from "../checkpoints/Checkpoints.js";
+import type { ExportFormat } from "../export/TranscriptExport.js";
+
 // ============================================================
 // Chat Message (for UI transcript)
 // ============================================================
@@ -90,6 +93,23 @@ export interface LogEvent {
   createdAt: Date;
 }
 
+export interface UserMessageEvent {
+  type: "user.message";
+  message: ChatMessage;
+}
+
+export interface EphemeralStartedEvent {
+  type: "ephemeral.started";
+  runId: string;
+  displayText: string;
+  message: ChatMessage;
+}
+
+export interface QueueUpdatedEvent {
+  type: "queue.updated";
+  queue: QueuedPrompt[];
+}
+
 export interface RunCancelledEvent {
   type: "run.cancelled";
   runId: string;
@@ -108,12 +128,6 @@ export interface ResourceCreatedEvent {
   resource: Resource;
 }
 
-export interface PermissionRequestedEvent {
-  type: "permission.requested";
-  requestId: string;
-  prompt: string;
-}
-
 export interface StateUpdatedEvent {
   type: "state.updated";
   slice: string;
@@ -125,6 +139,34 @@ export interface ModelChangedEvent {
   model: string | null;
 }
 
+export interface RunModelEvent {
+  type: "run.model";
+  runId: string;
+  model: string; // Model that served the run, as reported by usage events
+}
+
+/** Token usage of one model call; a run makes one call per turn */
+export interface RunUsageEvent {
+  type: "run.usage";
+  runId: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
+  /** Premium requests charged for the call, when the SDK reports it */
+  cost?: number;
+}
+
+export type ConnectionState = "connected" | "reconnecting" | "disconnected";
+
+export interface ConnectionChangedEvent {
+  type: "connection.changed";
+  state: ConnectionState;
+  attempt?: number; // Reconnect attempt, set while reconnecting
+  error?: string;
+}
+
 export interface UsageInfoEvent {
   type: "usage.info";
   tokenLimit: number;
@@ -144,6 +186,7 @@ export interface ToolStartedEvent {
   toolCallId: string;
   toolName: string;
   arguments?: Record<string, unknown>;
+  mcpServerName?: string; // Set when the tool is provided by an MCP server
 }
 
 export interface ToolProgressEvent {
@@ -237,12 +280,44 @@ export interface QuestionAnsweredEvent {
   wasFreeform: boolean;
 }
 
+export type PermissionKind = "shell" | "write" | "mcp" | "read" | "url";
+
+export type PermissionDecision = "allow-once" | "allow-session" | "deny";
+
+export interface PermissionRequestedEvent {
+  type: "permission.requested";
+  requestId: string;
+  kind: PermissionKind;
+  prompt: string; // Human-readable intention, e.g. "Edit file"
+  target?: string; // Command text, file path, URL, or "server/tool" for MCP
+  diff?: string; // Unified diff for write requests
+  toolCallId?: string;
+}
+
+export interface PermissionRespondedEvent {
+  type: "permission.responded";
+  requestId: string;
+  decision: PermissionDecision;
+}
+
+export type McpServerState = "connecting" | "connected" | "failed";
+
+export interface McpStatusEvent {
+  type: "mcp.status";
+  server: string;
+  state: McpServerState;
+  tools?: string[]; // Exposed tool names, after the allowlist
+  error?: string;
+}
+
 export interface SessionInfo {
   id: string;
   name: string;
   createdAt?: Date;
   lastUsedAt?: Date;
   isCurrentProject: boolean;
+  /** Session this one was forked from */
+  parentId?: string;
 }
 
 export interface SessionSwitchedEvent {
@@ -258,11 +333,56 @@ export interface SessionCreatedEvent {
   sessionName: string;
 }
 
+/** A fresh session was seeded with the parent's transcript up to `forkedFromItemId` */
+export interface SessionForkedEvent {
+  type: "session.forked";
+  sessionId: string;
+  parentSessionId: string;
+  forkedFromItemId: string;
+  transcript: TranscriptItem[];
+}
+
+/** The conversation was summarized into a fresh session that starts with `marker` */
+export interface SessionCompactedEvent {
+  type: "session.compacted";
+  sessionId: string;
+  parentSessionId: string;
+  marker: ChatMessage;
+}
+
+/** The transcript was cut back to just before `itemId`, e.g. to resend an edited prompt */
+export interface TranscriptTruncatedEvent {
+  type: "transcript.truncated";
+  itemId: string;
+}
+
 export interface SessionListUpdatedEvent {
   type: "session.list.updated";
   sessions: SessionInfo[];
 }
 
+/** `/undo` listed the checkpoints to pick from, newest first */
+export interface UndoOpenedEvent {
+  type: "undo.opened";
+  checkpoints: Checkpoint[];
+}
+
+export interface UndoPreviewedEvent {
+  type: "undo.previewed";
+  preview: CheckpointPreview;
+}
+
+export interface UndoClosedEvent {
+  type: "undo.closed";
+}
+
+/** Files were put back as they were at a checkpoint */
+export interface CheckpointRestoredEvent {
+  type: "checkpoint.restored";
+  checkpointId: string;
+  files: string[];
+}
+
 export type HarnessEvent =
   | RunStartedEvent
   | AssistantDeltaEvent
@@ -270,12 +390,16 @@ export type HarnessEvent =
   | ReasoningDeltaEvent
   | ReasoningMessageEvent
   | LogEvent
+  | UserMessageEvent
+  | EphemeralStartedEvent
   | RunCancelledEvent
   | RunFinishedEvent
   | ResourceCreatedEvent
-  | PermissionRequestedEvent
   | StateUpdatedEvent
   | ModelChangedEvent
+  | RunModelEvent
+  | RunUsageEvent
+  | ConnectionChangedEvent
   | UsageInfoEvent
   | QuotaInfoEvent
   | ToolStartedEvent
@@ -292,18 +416,46 @@ export type HarnessEvent =
   | TurnEndedEvent
   | QuestionRequestedEvent
   | QuestionAnsweredEvent
+  | PermissionRequestedEvent
+  | PermissionRespondedEvent
+  | McpStatusEvent
   | SessionSwitchedEvent
   | SessionCreatedEvent
-  | SessionListUpdatedEvent;
+  | SessionForkedEvent
+  | SessionCompactedEvent
+  | TranscriptTruncatedEvent
+  | SessionListUpdatedEvent
+  | QueueUpdatedEvent
+  | UndoOpenedEvent
+  | UndoPreviewedEvent
+  | UndoClosedEvent
+  | CheckpointRestoredEvent;
 
 // ============================================================
 // UI Actions (dispatched from UI to harness)
 // ============================================================
 
+/** File context attached to a prompt, e.g. from an @-mention */
+export type PromptAttachment =
+  | { type: "file"; path: string; displayName?: string }
+  | { type: "directory"; path: string; displayName?: string }
+  // Lines are 1-based and inclusive
+  | { type: "selection"; filePath: string; displayName: string; startLine: number; endLine: number };
+
+/** A prompt submitted while a run was in progress, waiting its turn */
+export interface QueuedPrompt {
+  id: string;
+  text: string;
+  images?: string[];
+  attachments?: PromptAttachment[];
+  queuedAt: Date;
+}
+
 export interface SubmitPromptAction {
   type: "submit.prompt";
   text: string;
   images?: string[]; // File paths to attached images
+  attachments?: PromptAttachment[]; // Files, directories and line ranges from @-mentions
 }
 
 export interface CancelAction {
@@ -316,12 +468,6 @@ export interface SelectResourceAction {
   uri: string;
 }
 
-export interface PermissionRespondAction {
-  type: "permission.respond";
-  requestId: string;
-  allow: boolean;
-}
-
 export interface ApprovePatchAction {
   type: "approve.patch";
   patchId: string;
@@ -332,6 +478,11 @@ export interface ChangeModelAction {
   modelId: string;
 }
 
+export interface SetReasoningEffortAction {
+  type: "set.reasoningEffort";
+  effort: "low" | "medium" | "high" | null; // null restores the model default
+}
+
 export interface AnswerQuestionAction {
   type: "answer.question";
   requestId: string;
@@ -339,6 +490,12 @@ export interface AnswerQuestionAction {
   wasFreeform: boolean;
 }
 
+export interface PermissionRespondAction {
+  type: "permission.respond";
+  requestId: string;
+  decision: PermissionDecision;
+}
+
 export interface NewSessionAction {
   type: "session.new";
 }
@@ -348,6 +505,32 @@ export interface SwitchSessionAction {
   sessionId: string;
 }
 
+/**
+ * Fork the current session at a transcript item. "verbatim" hands the new
+ * session the conversation as is; "summary" hands it a generated summary.
+ */
+export interface ForkSessionAction {
+  type: "session.fork";
+  itemId: string;
+  mode: ForkMode;
+}
+
+export type ForkMode = "verbatim" | "summary";
+
+/**
+ * Resend an earlier user message with new text, keeping its images and
+ * attachments. "in-place" drops the later turns first (where the backend can
+ * rewrite history, otherwise it falls back to "fork").
+ */
+export interface ResendMessageAction {
+  type: "message.resend";
+  itemId: string;
+  text: string;
+  mode: "in-place" | "fork";
+  images?: string[];
+  attachments?: PromptAttachment[];
+}
+
 export interface RefreshSessionsAction {
   type: "session.refresh";
 }
@@ -356,18 +539,76 @@ export interface CloseEphemeralAction {
   type: "ephemeral.close";
 }
 
+export interface EditQueuedPromptAction {
+  type: "queue.edit";
+  id: string;
+  text: string;
+}
+
+export interface MoveQueuedPromptAction {
+  type: "queue.move";
+  id: string;
+  offset: number; // Negative moves toward the front
+}
+
+export interface RemoveQueuedPromptAction {
+  type: "queue.remove";
+  id: string;
+}
+
+/** Interrupt the current run (if any) and send this queued prompt next */
+export interface SendQueuedPromptNowAction {
+  type: "queue.sendNow";
+  id: string;
+}
+
+/** Write the transcript to a file; `path` defaults to .anvil/exports/ */
+export interface ExportTranscriptAction {
+  type: "export.transcript";
+  format: ExportFormat;
+  redactToolOutputs?: boolean;
+  includeEphemeral?: boolean;
+  path?: string;
+}
+
+/** Show what restoring a checkpoint from the `/undo` list would change */
+export interface PreviewCheckpointAction {
+  type: "undo.preview";
+  checkpointId: string;
+}
+
+export interface RestoreCheckpointAction {
+  type: "undo.restore";
+  checkpointId: string;
+}
+
+export interface CloseUndoAction {
+  type: "undo.close";
+}
+
 export type UIAction =
   | SubmitPromptAction
   | CancelAction
   | SelectResourceAction
-  | PermissionRespondAction
   | ApprovePatchAction
   | ChangeModelAction
+  | SetReasoningEffortAction
   | AnswerQuestionAction
+  | PermissionRespondAction
   | NewSessionAction
   | SwitchSessionAction
+  | ForkSessionAction
+  | ResendMessageAction
   | RefreshSessionsAction
-  | CloseEphemeralAction;
+  | CloseEphemeralAction
+  | EditQueuedPromptAction
+  | MoveQueuedPromptAction
+  | RemoveQueuedPromptAction
+  | SendQueuedPromptNowAction
+  | ExportTranscriptAction
+  | PreviewCheckpointAction
+  | RestoreCheckpointAction
+  | CloseUndoAction;
 
 // ============================================================
 // Helper functions
@@ -397,6 +638,16 @@ export function createAssistantMessage(content: string): ChatMessage {
   };
 }
 
+export function createSystemMessage(content: string): ChatMessage {
+  return {
+    id: generateId(),
+    kind: "message",
+    role: "system",
+    content,
+    createdAt: new Date(),
+  };
+}
+
 export function createLogEvent(
   level: LogEvent["level"],
   message: string,
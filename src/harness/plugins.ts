@@ -1,8 +1,21 @@
 import type { HarnessEvent, Resource } from "./events.js";
 
+/**
+ * A tool exposed to the model as an SDK custom tool.
+ * `parameters` is a JSON schema describing the arguments object passed to `handler`.
+ * The handler's return value is sent back to the model (non-strings are JSON-encoded);
+ * a thrown error is reported as a failed tool call.
+ */
+export interface PluginTool {
+  name: string;
+  description: string;
+  parameters?: Record<string, unknown>;
+  handler: (args: Record<string, unknown>) => unknown | Promise<unknown>;
+}
+
 export interface ToolRegistry {
-  register(name: string, handler: (...args: unknown[]) => unknown): void;
-  get(name: string): ((...args: unknown[]) => unknown) | undefined;
+  register(tool: PluginTool): void;
+  get(name: string): PluginTool | undefined;
   list(): string[];
 }
 
@@ -39,10 +52,10 @@ export interface HarnessPlugin {
 }
 
 function createToolRegistry(): ToolRegistry {
-  const tools = new Map<string, (...args: unknown[]) => unknown>();
+  const tools = new Map<string, PluginTool>();
   return {
-    register(name, handler) {
-      tools.set(name, handler);
+    register(tool) {
+      tools.set(tool.name, tool);
     },
     get(name) {
       return tools.get(name);
@@ -140,4 +153,9 @@ export class PluginManager {
   getContext(): PluginContext {
     return this.context;
   }
+
+  getTools(): PluginTool[] {
+    const { tools } = this.context;
+    return tools.list().map((name) => tools.get(name)!);
+  }
 }
@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { existsSync, mkdtempSync, realpathSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Harness } from "../harness/Harness.js";
+import { createLogEvent, type HarnessEvent, type UIAction } from "../harness/events.js";
+import { HttpApiServer, type HttpServerInfo } from "./HttpServer.js";
+
+const TOKEN = "test-token";
+const originalCwd = process.cwd();
+let root: string;
+let server: HttpApiServer;
+let info: HttpServerInfo;
+
+// Only what the routes touch: state, the event stream and dispatch
+const dispatched: UIAction[] = [];
+const subscribers = new Set<(event: HarnessEvent) => void>();
+const harness = {
+  getState: () => ({ status: "idle", pendingQuestion: null }),
+  subscribe: (handler: (event: HarnessEvent) => void) => {
+    subscribers.add(handler);
+    return () => subscribers.delete(handler);
+  },
+  dispatch: async (action: UIAction) => {
+    dispatched.push(action);
+  },
+} as unknown as Harness;
+
+function post(route: string, body?: unknown): Promise<Response> {
+  return fetch(`${info.url}${route}`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${TOKEN}` },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+beforeEach(async () => {
+  root = realpathSync(mkdtempSync(join(tmpdir(), "anvil-http-")));
+  process.chdir(root);
+  dispatched.length = 0;
+  server = new HttpApiServer(harness, 0, TOKEN);
+  info = await server.start();
+});
+
+afterEach(() => {
+  server.stop();
+  process.chdir(originalCwd);
+  rmSync(root, { recursive: true, force: true });
+});
+
+describe("HttpApiServer", () => {
+  test("rejects requests without the token", async () => {
+    const res = await fetch(`${info.url}/state`);
+    expect(res.status).toBe(401);
+    expect(await res.json()).toEqual({ error: "Missing or invalid token" });
+  });
+
+  test("rejects a wrong token", async () => {
+    expect((await fetch(`${info.url}/state`, { headers: { Authorization: "Bearer nope" } })).status).toBe(401);
+    expect((await fetch(`${info.url}/state?token=nope`)).status).toBe(401);
+    expect((await fetch(`${info.url}/cancel`, { method: "POST" })).status).toBe(401);
+  });
+
+  test("accepts the token as a header or a query parameter", async () => {
+    const byHeader = await fetch(`${info.url}/state`, { headers: { Authorization: `Bearer ${TOKEN}` } });
+    expect(byHeader.status).toBe(200);
+    expect(await byHeader.json()).toEqual({ status: "idle", pendingQuestion: null });
+    expect((await fetch(`${info.url}/state?token=${TOKEN}`)).status).toBe(200);
+  });
+
+  test("writes the discovery file while running and removes it on stop", () => {
+    expect(existsSync(server.discoveryPath)).toBe(true);
+    server.stop();
+    expect(existsSync(server.discoveryPath)).toBe(false);
+  });
+
+  test("streams harness events over SSE", async () => {
+    const controller = new AbortController();
+    const res = await fetch(`${info.url}/events?token=${TOKEN}`, { signal: controller.signal });
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toBe("text/event-stream");
+
+    const reader = res.body!.getReader();
+    const decoder = new TextDecoder();
+    let received = decoder.decode((await reader.read()).value);
+    expect(received).toBe(": connected\n\n");
+
+    const event = createLogEvent("info", "hello from the harness");
+    for (const handler of subscribers) handler(event);
+    // Read until the event's frame is complete
+    while (!received.includes("event:") || !received.endsWith("\n\n")) {
+      received += decoder.decode((await reader.read()).value);
+    }
+    controller.abort();
+
+    const frame = received.slice(": connected\n\n".length);
+    expect(frame).toBe(`event: log\ndata: ${JSON.stringify(event)}\n\n`);
+  });
+
+  test("POST routes dispatch the matching actions", async () => {
+    expect((await post("/prompt", { text: "run the tests", images: ["shot.png"] })).status).toBe(202);
+    expect((await post("/cancel")).status).toBe(202);
+    expect((await post("/session", { sessionId: "s2" })).status).toBe(202);
+    expect((await post("/actions", { type: "queue.move", id: "q1", offset: 1 })).status).toBe(202);
+
+    expect(dispatched).toEqual([
+      { type: "submit.prompt", text: "run the tests", images: ["shot.png"], attachments: undefined },
+      { type: "cancel" },
+      { type: "session.switch", sessionId: "s2" },
+      { type: "queue.move", id: "q1", offset: 1 },
+    ]);
+  });
+
+  test("rejects invalid actions before they reach the harness", async () => {
+    const cases: Array<[string, unknown, number, string]> = [
+      ["/actions", { type: "approve.patch", patchId: "p1" }, 400, `action "approve.patch" isn't available to remote clients`],
+      ["/actions", { type: "queue.move", id: "q1", offset: "up" }, 400, `queue.move: "offset" must be an integer`],
+      ["/actions", { type: "export.transcript", format: "markdown", path: "/home/user/.bashrc" }, 400, "inside .anvil/exports/"],
+      ["/prompt", { text: "/usage --csv /home/user/.bashrc" }, 400, "inside .anvil/exports/"],
+      ["/prompt", { text: "hi", images: "shot.png" }, 400, `"images" must be an array of file paths`],
+      ["/prompt", {}, 400, "text is required"],
+      ["/question", { answer: "yes" }, 409, "No question is pending"],
+    ];
+    for (const [route, body, status, message] of cases) {
+      const res = await post(route, body);
+      expect(res.status).toBe(status);
+      expect(((await res.json()) as { error: string }).error).toContain(message);
+    }
+    expect(dispatched).toEqual([]);
+  });
+});
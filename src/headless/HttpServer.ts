@@ -0,0 +1,274 @@
+/**
+ * HTTP API — a loopback-only server for dashboards and status scripts,
+ * started next to the TUI with `--http [port]`.
+ *
+ *   GET  /state     current HarnessState as JSON
+ *   GET  /events    Server-Sent Events, one per HarnessEvent (event name = type)
+ *   POST /actions   a UIAction as the JSON body, checked by RemoteActions.ts
+ *   POST /prompt    { text, images?, attachments? }
+ *   POST /cancel
+ *   POST /session   { sessionId }
+ *   POST /question  { answer, wasFreeform?, requestId? } — defaults to the pending question
+ *
+ * Every request needs the token, as `Authorization: Bearer <token>` or a
+ * `?token=` query parameter (EventSource can't set headers). The token comes
+ * from ANVIL_HTTP_TOKEN or is generated, and is written with the port to
+ * `.anvil/http.json` (owner-only) for local scripts to pick up.
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import { randomBytes, timingSafeEqual } from "node:crypto";
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import type { Harness } from "../harness/Harness.js";
+import type { HarnessEvent } from "../harness/events.js";
+import { getConfigPath } from "../utils/config.js";
+import { parseRemoteAction } from "./RemoteActions.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface HttpServerInfo {
+  url: string;
+  port: number;
+  token: string;
+}
+
+export const DEFAULT_HTTP_PORT = 7450;
+
+const HOST = "127.0.0.1";
+const MAX_BODY_BYTES = 1024 * 1024;
+const SSE_HEARTBEAT_MS = 15_000;
+const DISCOVERY_FILE = "http.json";
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function tokensMatch(given: string, expected: string): boolean {
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, "Request body too large");
+    chunks.push(chunk as Buffer);
+  }
+  const raw = Buffer.concat(chunks).toString("utf-8").trim();
+  if (!raw) return {};
+  let body: unknown;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    throw new HttpError(400, "Body must be JSON");
+  }
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw new HttpError(400, "Body must be a JSON object");
+  }
+  return body as Record<string, unknown>;
+}
+
+function requireString(body: Record<string, unknown>, field: string): string {
+  const value = body[field];
+  if (typeof value !== "string" || !value) throw new HttpError(400, `${field} is required`);
+  return value;
+}
+
+// ---------------------------------------------------------------------------
+// Server
+// ---------------------------------------------------------------------------
+
+export class HttpApiServer {
+  private server: Server | null = null;
+  private streams = new Set<ServerResponse>();
+  private unsubscribe: (() => void) | null = null;
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+  private readonly token: string;
+
+  constructor(
+    private harness: Harness,
+    private port: number = DEFAULT_HTTP_PORT,
+    token?: string
+  ) {
+    this.token = token || randomBytes(24).toString("hex");
+  }
+
+  get discoveryPath(): string {
+    return getConfigPath("project", DISCOVERY_FILE);
+  }
+
+  async start(): Promise<HttpServerInfo> {
+    const server = createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        const status = error instanceof HttpError ? error.status : 500;
+        const message = error instanceof Error ? error.message : String(error);
+        if (!res.headersSent) sendJson(res, status, { error: message });
+        else res.end();
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.port, HOST, () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+    this.server = server;
+
+    const address = server.address();
+    const port = typeof address === "object" && address ? address.port : this.port;
+    const info: HttpServerInfo = { url: `http://${HOST}:${port}`, port, token: this.token };
+
+    this.unsubscribe = this.harness.subscribe((event) => this.broadcast(event));
+    this.heartbeat = setInterval(() => {
+      for (const res of this.streams) res.write(": ping\n\n");
+    }, SSE_HEARTBEAT_MS);
+
+    const discoveryPath = this.discoveryPath;
+    mkdirSync(dirname(discoveryPath), { recursive: true });
+    writeFileSync(discoveryPath, JSON.stringify({ ...info, pid: process.pid }, null, 2) + "\n", {
+      encoding: "utf-8",
+      mode: 0o600,
+    });
+
+    return info;
+  }
+
+  /** Close streams and the listener. Synchronous so it can run on process exit. */
+  stop(): void {
+    if (!this.server) return;
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.heartbeat) clearInterval(this.heartbeat);
+    this.heartbeat = null;
+    for (const res of this.streams) res.end();
+    this.streams.clear();
+    this.server.close();
+    this.server = null;
+    rmSync(this.discoveryPath, { force: true });
+  }
+
+  private broadcast(event: HarnessEvent): void {
+    if (this.streams.size === 0) return;
+    const frame = `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+    for (const res of this.streams) res.write(frame);
+  }
+
+  private isAuthorized(req: IncomingMessage, url: URL): boolean {
+    const header = req.headers.authorization;
+    if (header?.startsWith("Bearer ")) return tokensMatch(header.slice("Bearer ".length), this.token);
+    const query = url.searchParams.get("token");
+    return query !== null && tokensMatch(query, this.token);
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    // Dashboards are served from other origins; the token is what protects the API
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    res.setHeader("Access-Control-Allow-Headers", "Authorization, Content-Type");
+    res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+    if (req.method === "OPTIONS") {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    const url = new URL(req.url ?? "/", `http://${HOST}`);
+    if (!this.isAuthorized(req, url)) {
+      throw new HttpError(401, "Missing or invalid token");
+    }
+
+    const route = `${req.method} ${url.pathname}`;
+    switch (route) {
+      case "GET /state":
+        sendJson(res, 200, this.harness.getState());
+        return;
+
+      case "GET /events":
+        this.openEventStream(req, res);
+        return;
+
+      case "POST /actions":
+        await this.dispatch(res, await readJsonBody(req));
+        return;
+
+      case "POST /prompt": {
+        const body = await readJsonBody(req);
+        await this.dispatch(res, {
+          type: "submit.prompt",
+          text: requireString(body, "text"),
+          images: body.images,
+          attachments: body.attachments,
+        });
+        return;
+      }
+
+      case "POST /cancel":
+        await this.dispatch(res, { type: "cancel" });
+        return;
+
+      case "POST /session": {
+        const body = await readJsonBody(req);
+        await this.dispatch(res, { type: "session.switch", sessionId: requireString(body, "sessionId") });
+        return;
+      }
+
+      case "POST /question": {
+        const body = await readJsonBody(req);
+        const requestId =
+          typeof body.requestId === "string" ? body.requestId : this.harness.getState().pendingQuestion?.requestId;
+        if (!requestId) throw new HttpError(409, "No question is pending");
+        await this.dispatch(res, {
+          type: "answer.question",
+          requestId,
+          answer: requireString(body, "answer"),
+          wasFreeform: body.wasFreeform !== false,
+        });
+        return;
+      }
+
+      default:
+        throw new HttpError(404, `No route for ${route}`);
+    }
+  }
+
+  /** Validate and dispatch an action; every route goes through here so remote limits apply alike. */
+  private async dispatch(res: ServerResponse, value: unknown): Promise<void> {
+    const action = parseRemoteAction(value);
+    if (typeof action === "string") throw new HttpError(400, action);
+    await this.harness.dispatch(action);
+    sendJson(res, 202, { ok: true, state: { status: this.harness.getState().status } });
+  }
+
+  private openEventStream(req: IncomingMessage, res: ServerResponse): void {
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    // Flush headers so clients see the stream open before the first event
+    res.write(": connected\n\n");
+    this.streams.add(res);
+    req.on("close", () => this.streams.delete(res));
+  }
+}
@@ -0,0 +1,170 @@
+import { afterEach, beforeEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { mkdirSync, mkdtempSync, realpathSync, rmSync } from "node:fs";
+import * as os from "node:os";
+import { join } from "node:path";
+import { Harness } from "../harness/Harness.js";
+import { ScriptedBackend, type BackendScript, type ScriptStep } from "../scripted/ScriptedBackend.js";
+import { parsePrintOptions, PrintUsageError, runPrintMode, type PrintOptions } from "./PrintMode.js";
+
+const originalCwd = process.cwd();
+let root: string;
+let harness: Harness | undefined;
+let stdout = "";
+let stderr = "";
+
+// Bun reads the home directory once at startup, so ~/.anvil is redirected here instead of through HOME
+mock.module("node:os", () => ({ ...os, homedir: () => join(root, "home") }));
+
+async function start(steps: ScriptStep[]): Promise<Harness> {
+  const script: BackendScript = { model: "scripted-model", runs: [{ steps }] };
+  const started = new Harness();
+  started.setAdapter(new ScriptedBackend(script));
+  await started.initialize();
+  harness = started;
+  return started;
+}
+
+function run(prompt: string, options: Partial<PrintOptions> = {}): Promise<number> {
+  return runPrintMode(harness!, { ...parsePrintOptions(["-p"]), ...options }, prompt);
+}
+
+function jsonLines(): Array<Record<string, unknown>> {
+  return stdout.trim().split("\n").map((line) => JSON.parse(line));
+}
+
+beforeEach(() => {
+  root = realpathSync(mkdtempSync(join(os.tmpdir(), "anvil-print-")));
+  mkdirSync(join(root, "home"));
+  mkdirSync(join(root, "project"));
+  process.chdir(join(root, "project"));
+  stdout = "";
+  stderr = "";
+  spyOn(process.stdout, "write").mockImplementation((chunk: string | Uint8Array) => {
+    stdout += String(chunk);
+    return true;
+  });
+  spyOn(process.stderr, "write").mockImplementation((chunk: string | Uint8Array) => {
+    stderr += String(chunk);
+    return true;
+  });
+});
+
+afterEach(async () => {
+  mock.restore();
+  await harness?.shutdown();
+  harness = undefined;
+  process.chdir(originalCwd);
+  rmSync(root, { recursive: true, force: true });
+});
+
+describe("parsePrintOptions", () => {
+  test("reads the prompt and flags", () => {
+    expect(parsePrintOptions(["-p", "explain", "--output", "json", "--model", "m", "--answer", "yes", "--verbose"])).toEqual({
+      prompt: "explain",
+      output: "json",
+      model: "m",
+      resume: false,
+      questions: { mode: "answer", text: "yes" },
+      verbose: true,
+    });
+    expect(parsePrintOptions(["--print", "--resume"]).prompt).toBeNull();
+  });
+
+  test.each([
+    [["-p", "--output", "xml"], "--output must be one of text, json, stream-json"],
+    [["-p", "--model"], "--model requires a value"],
+    [["-p", "--on-question", "last"], "--on-question must be fail or first"],
+    [["-p", "--session", "s1", "--resume"], "--session and --resume can't be combined"],
+    [["-p", "--colour"], "Unknown option for print mode: --colour"],
+  ])("rejects %p", (argv, message) => {
+    expect(() => parsePrintOptions(argv)).toThrow(PrintUsageError);
+    expect(() => parsePrintOptions(argv)).toThrow(message);
+  });
+});
+
+describe("runPrintMode", () => {
+  test("text output streams the reply and exits 0", async () => {
+    await start([
+      { event: { type: "assistant.delta", text: "Hello, " } },
+      { event: { type: "assistant.delta", text: "world" } },
+      { event: { type: "assistant.message", content: "Hello, world" } },
+    ]);
+    expect(await run("hi")).toBe(0);
+    expect(stdout).toBe("Hello, world\n");
+    expect(stderr).toBe("");
+  });
+
+  test("json output ends with the result and every event", async () => {
+    await start([{ event: { type: "assistant.message", content: "Done" } }]);
+    expect(await run("hi", { output: "json" })).toBe(0);
+
+    const [result] = jsonLines();
+    expect(result).toMatchObject({ type: "result", status: "success", exitCode: 0, result: "Done", model: "scripted-model" });
+    expect((result.events as Array<{ type: string }>).map((e) => e.type)).toContain("run.finished");
+  });
+
+  test("stream-json output writes events as they happen, then the result", async () => {
+    await start([{ event: { type: "assistant.message", content: "Done" } }]);
+    expect(await run("hi", { output: "stream-json" })).toBe(0);
+
+    const lines = jsonLines();
+    expect(lines.map((line) => line.type)).toContain("assistant.message");
+    expect(lines.at(-1)).toMatchObject({ type: "result", status: "success", result: "Done" });
+  });
+
+  test("an error log during the run exits 1", async () => {
+    await start([
+      { event: { type: "log", level: "error", message: "Tool crashed" } },
+      { event: { type: "assistant.message", content: "Sorry" } },
+    ]);
+    expect(await run("hi", { output: "stream-json" })).toBe(1);
+    expect(jsonLines().at(-1)).toMatchObject({ status: "failed", exitCode: 1, error: "Tool crashed" });
+  });
+
+  test("a failing slash command exits 1 without starting a run", async () => {
+    await start([]);
+    expect(await run("/effort extreme")).toBe(1);
+    expect(stderr).toContain('[error] Unknown reasoning effort "extreme"');
+  });
+
+  test("questions fail the run unless a policy answers them", async () => {
+    const steps: ScriptStep[] = [
+      { ask: { question: "Which branch?", choices: ["main", "dev"] } },
+      { event: { type: "assistant.message", content: "Pushed" } },
+    ];
+    await start(steps);
+    expect(await run("push", { output: "json" })).toBe(1);
+    expect(jsonLines()[0]).toMatchObject({ status: "failed", error: "Question needs an answer in non-interactive mode: Which branch?" });
+
+    await harness!.shutdown();
+    stdout = "";
+    stderr = "";
+    await start(steps);
+    expect(await run("push", { questions: { mode: "answer", text: "DEV" } })).toBe(0);
+    expect(stderr).toBe("[question] Which branch? → dev\n");
+    expect(stdout).toBe("Pushed\n");
+  });
+
+  test("permission requests are denied and the run carries on", async () => {
+    await start([
+      { permission: { kind: "shell", intention: "Push", target: "git push" } },
+      { event: { type: "assistant.message", content: "Not pushed" } },
+    ]);
+    expect(await run("push")).toBe(0);
+    expect(stderr).toContain("[permission] denied shell: git push");
+    expect(stdout).toBe("Not pushed\n");
+  });
+
+  test("Ctrl+C cancels the run and exits 130", async () => {
+    await start([
+      { event: { type: "assistant.message", content: "Working" } },
+      { delay: 5000, event: { type: "assistant.message", content: "Too late" } },
+    ]);
+    const exitCode = run("slow", { output: "stream-json" });
+    while (!stdout.includes("Working")) await new Promise((resolve) => setTimeout(resolve, 5));
+    process.emit("SIGINT");
+
+    expect(await exitCode).toBe(130);
+    expect(jsonLines().at(-1)).toMatchObject({ status: "cancelled", exitCode: 130, error: "Interrupted" });
+  });
+});
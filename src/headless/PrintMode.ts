@@ -0,0 +1,348 @@
+/**
+ * Print mode — run one prompt through the Harness without the TUI, for
+ * scripts and CI:
+ *
+ *   anvil -p "explain src/harness/Harness.ts"
+ *   git diff | anvil -p --output stream-json
+ *
+ * Output formats:
+ *   text         assistant text streamed to stdout; errors on stderr
+ *   json         one JSON object with the result and every event, at the end
+ *   stream-json  every HarnessEvent as NDJSON while it happens, then a result line
+ *
+ * Nobody is around to answer questions or approve tools. Questions fail the
+ * run unless `--on-question first` or `--answer <text>` is given, and
+ * permission requests that the policy file leaves to the user are denied.
+ */
+
+import type { Harness } from "../harness/Harness.js";
+import type { HarnessEvent, LogEvent } from "../harness/events.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type PrintOutputFormat = "text" | "json" | "stream-json";
+
+/** How questions from the agent are handled without a user. */
+export type QuestionPolicy =
+  | { mode: "fail" }
+  | { mode: "first" }
+  | { mode: "answer"; text: string };
+
+export interface PrintOptions {
+  /** Prompt text; null means read it from stdin */
+  prompt: string | null;
+  output: PrintOutputFormat;
+  model?: string;
+  /** Resume this session ID before sending the prompt */
+  session?: string;
+  /** Resume the most recently used session of this project */
+  resume: boolean;
+  questions: QuestionPolicy;
+  /** Copy every log line to stderr, not just errors */
+  verbose: boolean;
+}
+
+export type PrintRunStatus = "success" | "failed" | "cancelled";
+
+export const PRINT_EXIT_CODES = {
+  success: 0,
+  failed: 1,
+  usage: 2,
+  cancelled: 130,
+} as const;
+
+export class PrintUsageError extends Error {}
+
+const OUTPUT_FORMATS: PrintOutputFormat[] = ["text", "json", "stream-json"];
+
+// Questions are answered with this when the run is about to fail, so the SDK can unwind
+const UNANSWERED_REPLY = "No user is available to answer (non-interactive mode).";
+
+// ---------------------------------------------------------------------------
+// Argument parsing
+// ---------------------------------------------------------------------------
+
+/** True when argv asks for print mode. */
+export function isPrintMode(argv: string[]): boolean {
+  return argv.includes("-p") || argv.includes("--print");
+}
+
+/**
+ * Parse print-mode flags. Unknown flags are rejected so typos don't silently
+ * fall back to defaults in CI.
+ */
+export function parsePrintOptions(argv: string[]): PrintOptions {
+  const options: PrintOptions = {
+    prompt: null,
+    output: "text",
+    resume: false,
+    questions: { mode: "fail" },
+    verbose: false,
+  };
+
+  const takeValue = (flag: string, index: number): string => {
+    const value = argv[index + 1];
+    if (value === undefined || value.startsWith("--")) {
+      throw new PrintUsageError(`${flag} requires a value`);
+    }
+    return value;
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case "-p":
+      case "--print": {
+        // The prompt is optional; without one it comes from stdin
+        const next = argv[i + 1];
+        if (next !== undefined && !next.startsWith("-")) {
+          options.prompt = next;
+          i++;
+        }
+        break;
+      }
+      case "--output": {
+        const value = takeValue(arg, i++);
+        if (!OUTPUT_FORMATS.includes(value as PrintOutputFormat)) {
+          throw new PrintUsageError(`--output must be one of ${OUTPUT_FORMATS.join(", ")}`);
+        }
+        options.output = value as PrintOutputFormat;
+        break;
+      }
+      case "--model":
+        options.model = takeValue(arg, i++);
+        break;
+      case "--session":
+        options.session = takeValue(arg, i++);
+        break;
+      case "--resume":
+        options.resume = true;
+        break;
+      case "--on-question": {
+        const value = takeValue(arg, i++);
+        if (value !== "fail" && value !== "first") {
+          throw new PrintUsageError("--on-question must be fail or first (use --answer <text> for a fixed reply)");
+        }
+        options.questions = { mode: value };
+        break;
+      }
+      case "--answer":
+        options.questions = { mode: "answer", text: takeValue(arg, i++) };
+        break;
+      case "--verbose":
+        options.verbose = true;
+        break;
+      case "--script":
+        // Handled by the backend factory
+        takeValue(arg, i++);
+        break;
+      default:
+        throw new PrintUsageError(`Unknown option for print mode: ${arg}`);
+    }
+  }
+
+  if (options.session && options.resume) {
+    throw new PrintUsageError("--session and --resume can't be combined");
+  }
+  return options;
+}
+
+export async function readStdin(): Promise<string> {
+  if (process.stdin.isTTY) return "";
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString("utf-8");
+}
+
+// ---------------------------------------------------------------------------
+// Runner
+// ---------------------------------------------------------------------------
+
+function writeLine(stream: NodeJS.WriteStream, value: unknown): void {
+  stream.write(JSON.stringify(value) + "\n");
+}
+
+/**
+ * Pick the reply for a question, or null when the policy says to fail.
+ * With "answer", a matching choice is preferred over the free-form text.
+ */
+function answerQuestion(
+  policy: QuestionPolicy,
+  choices: string[] | undefined,
+  allowFreeform: boolean
+): { answer: string; wasFreeform: boolean } | null {
+  if (policy.mode === "first") {
+    return choices && choices.length > 0 ? { answer: choices[0], wasFreeform: false } : null;
+  }
+  if (policy.mode === "answer") {
+    const choice = choices?.find((c) => c.toLowerCase() === policy.text.toLowerCase());
+    if (choice) return { answer: choice, wasFreeform: false };
+    return allowFreeform || !choices?.length ? { answer: policy.text, wasFreeform: true } : null;
+  }
+  return null;
+}
+
+/**
+ * Run the prompt on an initialized harness and resolve to the process exit
+ * code. The harness keeps running; the caller shuts it down.
+ */
+export async function runPrintMode(harness: Harness, options: PrintOptions, prompt: string): Promise<number> {
+  const events: HarnessEvent[] = [];
+  let runId: string | null = null;
+  // Until the prompt is handed over, unscoped errors (unknown command, blocked image) are ours
+  let submitting = true;
+  let status: PrintRunStatus | null = null;
+  let failure: string | null = null;
+  // Ctrl+C cancels rather than fails, whatever the run reports afterwards
+  let interrupted = false;
+  let resultText = "";
+  // Text already written for the assistant message being streamed
+  let streamedText = "";
+  let settle: () => void = () => {};
+  const settled = new Promise<void>((resolve) => {
+    settle = resolve;
+  });
+
+  const fail = (message: string) => {
+    failure ??= message;
+  };
+
+  const finish = (outcome: PrintRunStatus) => {
+    if (status) return;
+    status = failure && outcome === "success" ? "failed" : outcome;
+    settle();
+  };
+
+  const logToStderr = (event: LogEvent) => {
+    if (options.output !== "text") return;
+    if (event.level === "error" || options.verbose) {
+      process.stderr.write(`[${event.level}] ${event.message}\n`);
+    }
+  };
+
+  // Requests are emitted before the harness registers their resolvers, so reply on the next tick
+  const respond = (reply: () => Promise<void>) => {
+    setTimeout(() => void reply(), 0);
+  };
+
+  const unsubscribe = harness.subscribe((event) => {
+    events.push(event);
+    if (options.output === "stream-json") writeLine(process.stdout, event);
+
+    switch (event.type) {
+      case "run.started":
+        // The first run after submitting is ours; later ones would be queued prompts
+        runId ??= event.runId;
+        break;
+
+      case "assistant.delta":
+        if (event.runId !== runId) break;
+        streamedText += event.text;
+        if (options.output === "text") process.stdout.write(event.text);
+        break;
+
+      case "assistant.message":
+        if (event.runId !== runId) break;
+        resultText = event.message.content;
+        // Non-streaming replies arrive whole
+        if (options.output === "text" && !streamedText) process.stdout.write(event.message.content);
+        if (options.output === "text" && event.message.content) process.stdout.write("\n");
+        streamedText = "";
+        break;
+
+      case "log":
+        logToStderr(event);
+        if (event.level === "error" && (runId ? event.runId === runId : submitting)) {
+          fail(event.message);
+        }
+        break;
+
+      case "question.requested": {
+        const reply = answerQuestion(options.questions, event.choices, event.allowFreeform);
+        if (reply) {
+          if (options.output === "text") process.stderr.write(`[question] ${event.question} → ${reply.answer}\n`);
+          respond(() => harness.dispatch({ type: "answer.question", requestId: event.requestId, ...reply }));
+        } else {
+          fail(`Question needs an answer in non-interactive mode: ${event.question}`);
+          if (options.output === "text") process.stderr.write(`[error] ${failure}\n`);
+          respond(async () => {
+            await harness.dispatch({ type: "answer.question", requestId: event.requestId, answer: UNANSWERED_REPLY, wasFreeform: true });
+            await harness.dispatch({ type: "cancel" });
+          });
+        }
+        break;
+      }
+
+      case "permission.requested":
+        // The policy file already allowed or denied anything it covers
+        if (options.output === "text") {
+          process.stderr.write(`[permission] denied ${event.kind}: ${event.target ?? event.prompt} (add a rule to .anvil/permissions.json to allow it)\n`);
+        }
+        respond(() => harness.dispatch({ type: "permission.respond", requestId: event.requestId, decision: "deny" }));
+        break;
+
+      case "run.finished":
+        if (event.runId === runId) finish(interrupted ? "cancelled" : "success");
+        break;
+
+      case "run.cancelled":
+        if (event.runId === runId) finish(failure && !interrupted ? "failed" : "cancelled");
+        break;
+    }
+  });
+
+  const onSigint = () => {
+    interrupted = true;
+    if (runId) {
+      void harness.dispatch({ type: "cancel" });
+    } else {
+      finish("cancelled");
+    }
+  };
+  process.on("SIGINT", onSigint);
+
+  try {
+    await harness.dispatch({ type: "submit.prompt", text: prompt });
+    submitting = false;
+    // Built-in slash commands answer through logs without starting a run
+    if (!runId) finish(failure ? "failed" : "success");
+    await settled;
+  } finally {
+    process.off("SIGINT", onSigint);
+    unsubscribe();
+  }
+
+  // Assigned inside the subscriber, which control-flow analysis can't see
+  const outcome = (status as PrintRunStatus | null) ?? "failed";
+  const state = harness.getState();
+
+  if (!runId && options.output === "text") {
+    // Print the output of commands like /mcp or /help
+    for (const event of events) {
+      if (event.type === "log" && event.level === "info") process.stdout.write(event.message + "\n");
+    }
+  }
+
+  const result = {
+    type: "result",
+    status: outcome,
+    exitCode: PRINT_EXIT_CODES[outcome === "success" ? "success" : outcome],
+    runId,
+    sessionId: state.currentSessionId,
+    model: state.servedModel ?? state.currentModel,
+    result: resultText,
+    error: outcome === "success" ? undefined : interrupted ? "Interrupted" : failure ?? undefined,
+  };
+
+  if (options.output === "json") {
+    writeLine(process.stdout, { ...result, events });
+  } else if (options.output === "stream-json") {
+    writeLine(process.stdout, result);
+  }
+
+  return result.exitCode;
+}
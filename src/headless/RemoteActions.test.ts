@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, realpathSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { isExportPath, parseRemoteAction } from "./RemoteActions.js";
+
+const originalCwd = process.cwd();
+let root: string;
+
+beforeEach(() => {
+  root = realpathSync(mkdtempSync(join(tmpdir(), "anvil-remote-")));
+  process.chdir(root);
+});
+
+afterEach(() => {
+  process.chdir(originalCwd);
+  rmSync(root, { recursive: true, force: true });
+});
+
+function problem(action: unknown): string | null {
+  const parsed = parseRemoteAction(action);
+  return typeof parsed === "string" ? parsed : null;
+}
+
+describe("parseRemoteAction", () => {
+  test("accepts well-formed actions", () => {
+    const actions = [
+      { type: "submit.prompt", text: "hi", images: ["shot.png"], attachments: [{ type: "file", path: "a.ts" }] },
+      { type: "cancel" },
+      { type: "set.reasoningEffort", effort: null },
+      { type: "permission.respond", requestId: "r1", decision: "allow-once" },
+      { type: "queue.move", id: "q1", offset: -1 },
+      { type: "export.transcript", format: "html", path: ".anvil/exports/run.html" },
+      { type: "submit.prompt", text: "/export md --redact .anvil/exports/run.md" },
+      { type: "submit.prompt", text: "/usage week --csv" },
+    ];
+    for (const action of actions) {
+      expect(parseRemoteAction(action)).toEqual(action as never);
+    }
+  });
+
+  test.each([
+    [{ text: "no type" }, `the action must be an object with a "type"`],
+    [{ type: "approve.patch", patchId: "p" }, `action "approve.patch" isn't available to remote clients`],
+    [{ type: "toString" }, `action "toString" isn't available to remote clients`],
+    [{ type: "submit.prompt" }, `submit.prompt: "text" must be a string`],
+    [{ type: "submit.prompt", text: "hi", images: "a.png" }, `submit.prompt: "images" must be an array of file paths`],
+    [
+      { type: "submit.prompt", text: "hi", attachments: [{ type: "selection", filePath: "a", displayName: "a", startLine: 5, endLine: 2 }] },
+      `submit.prompt: "attachments" must be an array of attachments`,
+    ],
+    [{ type: "permission.respond", requestId: "r1", decision: "yes" }, `permission.respond: "decision" must be one of allow-once, allow-session, deny`],
+    [{ type: "export.transcript", format: "pdf" }, `export.transcript: "format" must be "markdown", "html" or "json"`],
+  ])("rejects %p", (action, message) => {
+    expect(problem(action)).toBe(message);
+  });
+
+  test.each([
+    { type: "export.transcript", format: "markdown", path: "/home/user/.bashrc" },
+    { type: "export.transcript", format: "markdown", path: ".anvil/exports/../../package.json" },
+    { type: "export.transcript", format: "markdown", path: ".anvil/exports" },
+    { type: "submit.prompt", text: "/usage --csv ~/.bashrc" },
+    { type: "submit.prompt", text: "/export json ../outside.json" },
+    { type: "queue.edit", id: "q1", text: "/usage month --csv /etc/cron.d/job" },
+    { type: "message.resend", itemId: "m1", mode: "fork", text: "/export /tmp/x.md" },
+  ])("keeps output paths inside .anvil/exports/: %p", (action) => {
+    expect(problem(action)).toContain("output paths must be inside .anvil/exports/");
+  });
+});
+
+describe("isExportPath", () => {
+  test("resolves relative paths against the project", () => {
+    expect(isExportPath(".anvil/exports/a.md")).toBe(true);
+    expect(isExportPath(join(root, ".anvil", "exports", "nested", "a.md"))).toBe(true);
+    expect(isExportPath("a.md")).toBe(false);
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Remote actions — validation for `UIAction`s that arrive from outside the
+ * process (JSON-RPC `dispatch`, the HTTP API).
+ *
+ * Only the action types listed here are accepted, and each one's fields are
+ * checked before it reaches the harness. Anything that writes a file
+ * (`export.transcript`'s `path`, `/export` and `/usage --csv` in prompt text)
+ * must stay inside `.anvil/exports/`, so a client can't overwrite files
+ * elsewhere, e.g. shell startup files.
+ */
+
+import { isAbsolute, relative, resolve } from "node:path";
+import { parseSlashCommand } from "../commands/CommandLoader.js";
+import { parseExportFormat } from "../export/TranscriptExport.js";
+import type { PermissionDecision, PromptAttachment, UIAction } from "../harness/events.js";
+import { isReasoningEffort } from "../sessions/SessionSettings.js";
+import { parseUsagePeriod } from "../usage/UsageLedger.js";
+import { getConfigPath } from "../utils/config.js";
+
+// ---------------------------------------------------------------------------
+// Field checks
+// ---------------------------------------------------------------------------
+
+type Fields = Record<string, unknown>;
+
+/** Returns the problem with the action, or null when it's fine. */
+type ActionCheck = (action: Fields) => string | null;
+
+const PERMISSION_DECISIONS: PermissionDecision[] = ["allow-once", "allow-session", "deny"];
+
+function isObject(value: unknown): value is Fields {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function requireStrings(action: Fields, ...fields: string[]): string | null {
+  const missing = fields.find((field) => typeof action[field] !== "string");
+  return missing ? `"${missing}" must be a string` : null;
+}
+
+function checkOptionalBoolean(action: Fields, field: string): string | null {
+  return action[field] !== undefined && typeof action[field] !== "boolean" ? `"${field}" must be a boolean` : null;
+}
+
+function checkImages(value: unknown): string | null {
+  if (value === undefined) return null;
+  return Array.isArray(value) && value.every((image) => typeof image === "string")
+    ? null
+    : `"images" must be an array of file paths`;
+}
+
+function isAttachment(value: unknown): value is PromptAttachment {
+  if (!isObject(value)) return false;
+  switch (value.type) {
+    case "file":
+    case "directory":
+      return typeof value.path === "string" && (value.displayName === undefined || typeof value.displayName === "string");
+    case "selection":
+      return (
+        typeof value.filePath === "string" &&
+        typeof value.displayName === "string" &&
+        Number.isInteger(value.startLine) &&
+        Number.isInteger(value.endLine) &&
+        (value.startLine as number) >= 1 &&
+        (value.startLine as number) <= (value.endLine as number)
+      );
+    default:
+      return false;
+  }
+}
+
+function checkAttachments(value: unknown): string | null {
+  if (value === undefined) return null;
+  return Array.isArray(value) && value.every(isAttachment) ? null : `"attachments" must be an array of attachments`;
+}
+
+/** Whether `path` resolves to a file inside .anvil/exports/. */
+export function isExportPath(path: string): boolean {
+  const fromExports = relative(getConfigPath("project", "exports"), resolve(path));
+  return fromExports !== "" && !fromExports.startsWith("..") && !isAbsolute(fromExports);
+}
+
+function checkExportPath(path: string): string | null {
+  return isExportPath(path) ? null : `output paths must be inside .anvil/exports/ (got "${path}")`;
+}
+
+/**
+ * Prompt text runs slash commands, and `/export` and `/usage --csv` take an
+ * output path. Every argument that isn't an option or a format or period
+ * keyword is treated as one.
+ */
+function checkPromptText(text: string): string | null {
+  const command = parseSlashCommand(text);
+  if (!command || (command.name !== "export" && command.name !== "usage")) return null;
+  const isKeyword = command.name === "export" ? parseExportFormat : parseUsagePeriod;
+  for (const arg of command.args.split(/\s+/).filter(Boolean)) {
+    if (arg.startsWith("--") || isKeyword(arg)) continue;
+    const problem = checkExportPath(arg);
+    if (problem) return `/${command.name}: ${problem}`;
+  }
+  return null;
+}
+
+function checkPrompt(action: Fields): string | null {
+  return (
+    requireStrings(action, "text") ??
+    checkPromptText(action.text as string) ??
+    checkImages(action.images) ??
+    checkAttachments(action.attachments)
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Allowlist
+// ---------------------------------------------------------------------------
+
+/**
+ * The check for every action type, typed so a new UIAction can't be missed;
+ * null marks actions remote clients may not send.
+ */
+const REMOTE_ACTION_CHECKS: Record<UIAction["type"], ActionCheck | null> = {
+  "submit.prompt": checkPrompt,
+  cancel: () => null,
+  // Scaffolding without a handler
+  "select.resource": null,
+  "approve.patch": null,
+  "change.model": (action) => requireStrings(action, "modelId"),
+  "set.reasoningEffort": (action) =>
+    action.effort === null || (typeof action.effort === "string" && isReasoningEffort(action.effort))
+      ? null
+      : `"effort" must be "low", "medium", "high" or null`,
+  "answer.question": (action) =>
+    requireStrings(action, "requestId", "answer") ??
+    (typeof action.wasFreeform === "boolean" ? null : `"wasFreeform" must be a boolean`),
+  "permission.respond": (action) =>
+    requireStrings(action, "requestId") ??
+    (PERMISSION_DECISIONS.includes(action.decision as PermissionDecision)
+      ? null
+      : `"decision" must be one of ${PERMISSION_DECISIONS.join(", ")}`),
+  "session.new": () => null,
+  "session.switch": (action) => requireStrings(action, "sessionId"),
+  "session.fork": (action) =>
+    requireStrings(action, "itemId") ??
+    (action.mode === "verbatim" || action.mode === "summary" ? null : `"mode" must be "verbatim" or "summary"`),
+  "message.resend": (action) =>
+    requireStrings(action, "itemId") ??
+    (action.mode === "in-place" || action.mode === "fork" ? null : `"mode" must be "in-place" or "fork"`) ??
+    checkPrompt(action),
+  "session.refresh": () => null,
+  "ephemeral.close": () => null,
+  "queue.edit": (action) => requireStrings(action, "id", "text") ?? checkPromptText(action.text as string),
+  "queue.move": (action) =>
+    requireStrings(action, "id") ?? (Number.isInteger(action.offset) ? null : `"offset" must be an integer`),
+  "queue.remove": (action) => requireStrings(action, "id"),
+  "queue.sendNow": (action) => requireStrings(action, "id"),
+  "export.transcript": (action) =>
+    (typeof action.format === "string" && parseExportFormat(action.format) === action.format
+      ? null
+      : `"format" must be "markdown", "html" or "json"`) ??
+    checkOptionalBoolean(action, "redactToolOutputs") ??
+    checkOptionalBoolean(action, "includeEphemeral") ??
+    (action.path === undefined
+      ? null
+      : typeof action.path === "string"
+        ? checkExportPath(action.path)
+        : `"path" must be a string`),
+  "undo.preview": (action) => requireStrings(action, "checkpointId"),
+  "undo.restore": (action) => requireStrings(action, "checkpointId"),
+  "undo.close": () => null,
+};
+
+/**
+ * Validate an action from a remote client. Returns the action, or a message
+ * saying what's wrong with it.
+ */
+export function parseRemoteAction(value: unknown): UIAction | string {
+  if (!isObject(value) || typeof value.type !== "string") return "the action must be an object with a \"type\"";
+  const check = Object.hasOwn(REMOTE_ACTION_CHECKS, value.type)
+    ? REMOTE_ACTION_CHECKS[value.type as UIAction["type"]]
+    : null;
+  if (!check) return `action "${value.type}" isn't available to remote clients`;
+  const problem = check(value);
+  return problem ? `${value.type}: ${problem}` : (value as unknown as UIAction);
+}
@@ -0,0 +1,145 @@
+/**
+ * RPC protocol — the contract between `anvil --stdio` and editor clients.
+ *
+ * JSON-RPC 2.0, one message per line (newline-delimited JSON) on stdin and
+ * stdout. Payloads reuse the harness types from `events.ts`, so clients
+ * written in TypeScript can import this file directly. Dates travel as ISO
+ * strings.
+ *
+ * Session flow:
+ *   1. client → `initialize` with the protocol version it speaks
+ *   2. server → `event` notifications for every HarnessEvent from then on
+ *   3. client → `dispatch`, `getState`, ... as needed
+ *   4. server → `question` / `permission` requests when the agent needs the
+ *      user; the client's reply is fed back to the harness
+ *   5. client → `shutdown`, or closes stdin
+ *
+ * `RPC_PROTOCOL_VERSION` is bumped on any incompatible change to these types.
+ */
+
+import type { HarnessState, PendingPermission, PendingQuestion } from "../harness/Harness.js";
+import type { HarnessEvent, PermissionDecision, UIAction } from "../harness/events.js";
+import type { CommandDefinition } from "../commands/CommandLoader.js";
+import type { AgentDefinition } from "../agents/AgentLoader.js";
+
+export const RPC_PROTOCOL_VERSION = 1;
+
+// ---------------------------------------------------------------------------
+// JSON-RPC envelopes
+// ---------------------------------------------------------------------------
+
+export type RpcId = number | string;
+
+export interface RpcRequest<M extends string = string, P = unknown> {
+  jsonrpc: "2.0";
+  id: RpcId;
+  method: M;
+  params?: P;
+}
+
+export interface RpcNotification<M extends string = string, P = unknown> {
+  jsonrpc: "2.0";
+  method: M;
+  params?: P;
+}
+
+export interface RpcError {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+export type RpcResponse<R = unknown> =
+  | { jsonrpc: "2.0"; id: RpcId | null; result: R }
+  | { jsonrpc: "2.0"; id: RpcId | null; error: RpcError };
+
+export const RPC_ERROR_CODES = {
+  parseError: -32700,
+  invalidRequest: -32600,
+  methodNotFound: -32601,
+  invalidParams: -32602,
+  internalError: -32603,
+  /** A method other than `initialize` was called first */
+  notInitialized: -32002,
+  /** The client speaks a different protocol version */
+  unsupportedVersion: -32001,
+} as const;
+
+// ---------------------------------------------------------------------------
+// Client → server methods
+// ---------------------------------------------------------------------------
+
+export interface InitializeParams {
+  protocolVersion: number;
+  /** Shown in logs, e.g. "anvil-vscode 0.3.0" */
+  clientName?: string;
+  /** Start on this model instead of the backend default */
+  model?: string;
+}
+
+export interface InitializeResult {
+  protocolVersion: number;
+  state: HarnessState;
+}
+
+export interface DispatchParams {
+  action: UIAction;
+}
+
+export interface RunEphemeralParams {
+  prompt: string;
+  model?: string;
+  displayText?: string;
+}
+
+/**
+ * Methods the server implements, by name. `dispatch` resolves once the
+ * harness has taken the action; a submitted prompt keeps running and reports
+ * through `event`s until `run.finished` or `run.cancelled`.
+ */
+export interface RpcServerMethods {
+  initialize: { params: InitializeParams; result: InitializeResult };
+  getState: { params: undefined; result: HarnessState };
+  dispatch: { params: DispatchParams; result: null };
+  getCommands: { params: undefined; result: CommandDefinition[] };
+  getAgents: { params: undefined; result: AgentDefinition[] };
+  runEphemeral: { params: RunEphemeralParams; result: null };
+  smartCommit: { params: undefined; result: null };
+  shutdown: { params: undefined; result: null };
+}
+
+export type RpcServerMethod = keyof RpcServerMethods;
+
+// ---------------------------------------------------------------------------
+// Server → client
+// ---------------------------------------------------------------------------
+
+export interface EventNotificationParams {
+  event: HarnessEvent;
+}
+
+/** Notifications the server sends, by name. */
+export interface RpcServerNotifications {
+  event: EventNotificationParams;
+}
+
+export interface QuestionResult {
+  answer: string;
+  wasFreeform: boolean;
+}
+
+export interface PermissionResult {
+  decision: PermissionDecision;
+}
+
+/**
+ * Requests the server sends when the agent needs the user. Replying with an
+ * error cancels the run (questions) or denies the operation (permissions).
+ * A request the client answered through `dispatch` first is simply dropped.
+ */
+export interface RpcClientMethods {
+  question: { params: PendingQuestion; result: QuestionResult };
+  permission: { params: PendingPermission; result: PermissionResult };
+}
+
+export type RpcClientMethod = keyof RpcClientMethods;
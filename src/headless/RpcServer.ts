@@ -0,0 +1,293 @@
+/**
+ * RPC server — serves the Harness over JSON-RPC for editor integrations
+ * (`anvil --stdio`). The protocol is described in `RpcProtocol.ts`.
+ *
+ * Stdout carries protocol messages only; anything else the process wants
+ * to print has to go to stderr.
+ */
+
+import { createInterface } from "node:readline";
+import type { Readable, Writable } from "node:stream";
+import type { Harness } from "../harness/Harness.js";
+import { createLogEvent, type HarnessEvent, type PermissionDecision } from "../harness/events.js";
+import { parseRemoteAction } from "./RemoteActions.js";
+import {
+  RPC_ERROR_CODES,
+  RPC_PROTOCOL_VERSION,
+  type InitializeParams,
+  type RpcClientMethod,
+  type RpcClientMethods,
+  type RpcError,
+  type RpcId,
+  type RpcServerMethod,
+  type RpcServerMethods,
+} from "./RpcProtocol.js";
+
+class RpcMethodError extends Error {
+  constructor(
+    readonly code: number,
+    message: string,
+    readonly data?: unknown
+  ) {
+    super(message);
+  }
+}
+
+interface PendingClientRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: RpcError) => void;
+}
+
+type MethodHandler = (params: unknown) => Promise<unknown>;
+
+const PERMISSION_DECISIONS: PermissionDecision[] = ["allow-once", "allow-session", "deny"];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export class RpcServer {
+  private initialized = false;
+  private unsubscribe: (() => void) | null = null;
+  private nextRequestId = 1;
+  private pendingClientRequests = new Map<RpcId, PendingClientRequest>();
+  private closed = false;
+  private onClosed: () => void = () => {};
+
+  private readonly methods: { [M in RpcServerMethod]: MethodHandler } = {
+    initialize: (params) => this.handleInitialize(params),
+    getState: async () => this.harness.getState(),
+    dispatch: (params) => this.handleDispatch(params),
+    getCommands: async () => this.harness.getCommands(),
+    getAgents: async () => this.harness.getAgents(),
+    runEphemeral: (params) => this.handleRunEphemeral(params),
+    smartCommit: async () => {
+      await this.harness.runSmartCommit();
+      return null;
+    },
+    shutdown: async () => {
+      // Reply first; the connection closes right after
+      setTimeout(() => void this.close(), 0);
+      return null;
+    },
+  };
+
+  constructor(
+    private harness: Harness,
+    private input: Readable,
+    private output: Writable
+  ) {}
+
+  /** Serve until the client calls `shutdown` or closes the input. */
+  async serve(): Promise<void> {
+    const closed = new Promise<void>((resolve) => {
+      this.onClosed = resolve;
+    });
+
+    const lines = createInterface({ input: this.input, crlfDelay: Infinity });
+    lines.on("line", (line) => {
+      if (line.trim()) void this.handleLine(line);
+    });
+    lines.on("close", () => void this.close());
+
+    await closed;
+    lines.close();
+  }
+
+  private async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    this.unsubscribe?.();
+    for (const pending of this.pendingClientRequests.values()) {
+      pending.reject({ code: RPC_ERROR_CODES.internalError, message: "Connection closed" });
+    }
+    this.pendingClientRequests.clear();
+    await this.harness.shutdown();
+    this.onClosed();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Transport
+  // ---------------------------------------------------------------------------
+
+  private send(message: object): void {
+    if (this.closed) return;
+    this.output.write(JSON.stringify({ jsonrpc: "2.0", ...message }) + "\n");
+  }
+
+  private sendError(id: RpcId | null, error: RpcError): void {
+    this.send({ id, error });
+  }
+
+  private async handleLine(line: string): Promise<void> {
+    let message: unknown;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      this.sendError(null, { code: RPC_ERROR_CODES.parseError, message: "Parse error" });
+      return;
+    }
+
+    if (!isObject(message) || message.jsonrpc !== "2.0") {
+      this.sendError(null, { code: RPC_ERROR_CODES.invalidRequest, message: "Invalid request" });
+      return;
+    }
+
+    if (typeof message.method === "string") {
+      const id = typeof message.id === "number" || typeof message.id === "string" ? message.id : null;
+      await this.handleRequest(id, message.method, message.params);
+      return;
+    }
+
+    // A reply to one of our question/permission requests
+    const id = message.id as RpcId;
+    const pending = this.pendingClientRequests.get(id);
+    if (!pending) return;
+    this.pendingClientRequests.delete(id);
+    if (isObject(message.error)) {
+      pending.reject(message.error as unknown as RpcError);
+    } else {
+      pending.resolve(message.result);
+    }
+  }
+
+  /** Run a method; `id` is null for notifications, which get no reply. */
+  private async handleRequest(id: RpcId | null, method: string, params: unknown): Promise<void> {
+    try {
+      if (!Object.hasOwn(this.methods, method)) {
+        throw new RpcMethodError(RPC_ERROR_CODES.methodNotFound, `Method not found: ${method}`);
+      }
+      if (!this.initialized && method !== "initialize") {
+        throw new RpcMethodError(RPC_ERROR_CODES.notInitialized, "Call initialize first");
+      }
+      const result = await this.methods[method as RpcServerMethod](params);
+      if (id !== null) this.send({ id, result: result ?? null });
+    } catch (error) {
+      if (id === null) return;
+      if (error instanceof RpcMethodError) {
+        this.sendError(id, { code: error.code, message: error.message, data: error.data });
+      } else {
+        const message = error instanceof Error ? error.message : String(error);
+        this.sendError(id, { code: RPC_ERROR_CODES.internalError, message });
+      }
+    }
+  }
+
+  private request<M extends RpcClientMethod>(
+    method: M,
+    params: RpcClientMethods[M]["params"]
+  ): Promise<RpcClientMethods[M]["result"]> {
+    const id = this.nextRequestId++;
+    return new Promise((resolve, reject) => {
+      this.pendingClientRequests.set(id, {
+        resolve: (result) => resolve(result as RpcClientMethods[M]["result"]),
+        reject,
+      });
+      this.send({ id, method, params });
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Methods
+  // ---------------------------------------------------------------------------
+
+  private async handleInitialize(params: unknown): Promise<RpcServerMethods["initialize"]["result"]> {
+    // A subscription means an initialize call is already under way
+    if (this.initialized || this.unsubscribe) {
+      throw new RpcMethodError(RPC_ERROR_CODES.invalidRequest, "Already initialized");
+    }
+    if (!isObject(params) || typeof params.protocolVersion !== "number") {
+      throw new RpcMethodError(RPC_ERROR_CODES.invalidParams, "protocolVersion is required");
+    }
+    const { protocolVersion, clientName, model } = params as unknown as InitializeParams;
+    if (protocolVersion !== RPC_PROTOCOL_VERSION) {
+      throw new RpcMethodError(
+        RPC_ERROR_CODES.unsupportedVersion,
+        `Unsupported protocol version ${protocolVersion}; this server speaks ${RPC_PROTOCOL_VERSION}`,
+        { supported: [RPC_PROTOCOL_VERSION] }
+      );
+    }
+
+    // Subscribe before starting the backend so the client sees its startup events
+    this.unsubscribe = this.harness.subscribe((event) => this.forwardEvent(event));
+    try {
+      await this.harness.initialize({ model });
+    } catch (error) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+      throw error;
+    }
+    this.initialized = true;
+    if (clientName) {
+      this.harness.emit(createLogEvent("info", `RPC client connected: ${clientName}`));
+    }
+    return { protocolVersion: RPC_PROTOCOL_VERSION, state: this.harness.getState() };
+  }
+
+  private async handleDispatch(params: unknown): Promise<null> {
+    const action = parseRemoteAction(isObject(params) ? params.action : undefined);
+    if (typeof action === "string") {
+      throw new RpcMethodError(RPC_ERROR_CODES.invalidParams, `params.action: ${action}`);
+    }
+    await this.harness.dispatch(action);
+    return null;
+  }
+
+  private async handleRunEphemeral(params: unknown): Promise<null> {
+    if (!isObject(params) || typeof params.prompt !== "string") {
+      throw new RpcMethodError(RPC_ERROR_CODES.invalidParams, "prompt is required");
+    }
+    const { prompt, model, displayText } = params as unknown as RpcServerMethods["runEphemeral"]["params"];
+    await this.harness.runEphemeralPrompt(prompt, { model, displayText });
+    return null;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Events and prompts
+  // ---------------------------------------------------------------------------
+
+  private forwardEvent(event: HarnessEvent): void {
+    this.send({ method: "event", params: { event } });
+
+    if (event.type === "question.requested") {
+      void this.askQuestion(event.requestId);
+    } else if (event.type === "permission.requested") {
+      void this.askPermission(event.requestId);
+    }
+  }
+
+  private async askQuestion(requestId: string): Promise<void> {
+    const question = this.harness.getState().pendingQuestion;
+    if (!question || question.requestId !== requestId) return;
+
+    try {
+      const { answer, wasFreeform } = await this.request("question", question);
+      // The client may have answered through dispatch already
+      if (this.harness.getState().pendingQuestion?.requestId !== requestId) return;
+      await this.harness.dispatch({ type: "answer.question", requestId, answer: String(answer), wasFreeform: !!wasFreeform });
+    } catch (error) {
+      if (this.closed || this.harness.getState().pendingQuestion?.requestId !== requestId) return;
+      const message = isObject(error) && typeof error.message === "string" ? error.message : "no answer";
+      this.harness.emit(createLogEvent("warn", `RPC client declined the question (${message}); cancelling`));
+      await this.harness.dispatch({ type: "cancel" });
+    }
+  }
+
+  private async askPermission(requestId: string): Promise<void> {
+    const isPending = () => this.harness.getState().pendingPermissions.some((p) => p.requestId === requestId);
+    const permission = this.harness.getState().pendingPermissions.find((p) => p.requestId === requestId);
+    if (!permission) return;
+
+    let decision: PermissionDecision = "deny";
+    try {
+      const result = await this.request("permission", permission);
+      if (isObject(result) && PERMISSION_DECISIONS.includes(result.decision as PermissionDecision)) {
+        decision = result.decision as PermissionDecision;
+      }
+    } catch {
+      // Treated as a denial
+    }
+    if (this.closed || !isPending()) return;
+    await this.harness.dispatch({ type: "permission.respond", requestId, decision });
+  }
+}
@@ -4,6 +4,21 @@ import { createRoot } from "@opentui/react";
 import { App } from "./ui/App.js";
 import { Harness } from "./harness/Harness.js";
 import { CopilotSessionAdapter } from "./copilot/CopilotSessionAdapter.js";
+import { ScriptedBackend, loadBackendScript } from "./scripted/ScriptedBackend.js";
+import type { AgentBackend } from "./harness/backend.js";
+import { createLogEvent } from "./harness/events.js";
+import { readJournal, resolveJournalPath } from "./journal/EventJournal.js";
+import {
+  PRINT_EXIT_CODES,
+  PrintUsageError,
+  isPrintMode,
+  parsePrintOptions,
+  readStdin,
+  runPrintMode,
+  type PrintOptions,
+} from "./headless/PrintMode.js";
+import { RpcServer } from "./headless/RpcServer.js";
+import { DEFAULT_HTTP_PORT, HttpApiServer } from "./headless/HttpServer.js";
 
 // The Copilot SDK spawns its CLI .js file using process.execPath.
 // Under Bun this points to the bun binary, but the CLI requires Node.js.
@@ -16,18 +31,180 @@ if (process.execPath.includes("bun")) {
   }
 }
 
-async function main() {
-  const harness = new Harness();
-  const adapter = new CopilotSessionAdapter();
+function createBackend(): AgentBackend {
+  // --script <file> replays a recorded script instead of talking to Copilot
+  const scriptIndex = process.argv.indexOf("--script");
+  if (scriptIndex !== -1) {
+    const scriptPath = process.argv[scriptIndex + 1];
+    if (!scriptPath) {
+      throw new Error("--script requires a path to a JSON or YAML script");
+    }
+    return new ScriptedBackend(loadBackendScript(scriptPath));
+  }
+  return new CopilotSessionAdapter();
+}
+
+async function startBackend(harness: Harness, options: { model?: string } = {}): Promise<void> {
+  let adapter: AgentBackend;
+  try {
+    adapter = createBackend();
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
 
   harness.setAdapter(adapter);
 
   try {
-    await harness.initialize();
+    await harness.initialize(options);
   } catch (error) {
     console.error("Failed to initialize:", error instanceof Error ? error.message : error);
     process.exit(1);
   }
+}
+
+/**
+ * --replay <session-id|file> rebuilds a session from its event journal and
+ * shows it read-only, without starting a backend.
+ */
+function loadReplay(harness: Harness): boolean {
+  const replayIndex = process.argv.indexOf("--replay");
+  if (replayIndex === -1) return false;
+
+  const target = process.argv[replayIndex + 1];
+  if (!target) {
+    throw new Error("--replay requires a session ID or a journal file path");
+  }
+  const journalPath = resolveJournalPath(target);
+  const { entries, errors } = readJournal(journalPath);
+  harness.loadReplay(entries);
+  for (const message of errors) {
+    harness.emit(createLogEvent("warn", `Journal ${message}`));
+  }
+  harness.emit(createLogEvent("info", `Replayed ${entries.length} events from ${journalPath} (read-only)`));
+  return true;
+}
+
+/** Most recently used session of this project, other than the current one. */
+function findLatestSession(harness: Harness): string | null {
+  const { availableSessions, currentSessionId } = harness.getState();
+  const candidates = availableSessions
+    .filter((s) => s.isCurrentProject && s.id !== currentSessionId)
+    .sort((a, b) => (b.lastUsedAt?.getTime() ?? 0) - (a.lastUsedAt?.getTime() ?? 0));
+  return candidates[0]?.id ?? null;
+}
+
+/**
+ * -p/--print runs a single prompt without the TUI and exits with the run's
+ * status (see PrintMode.ts for flags and exit codes).
+ */
+async function runPrint(): Promise<never> {
+  let options: PrintOptions;
+  let prompt: string;
+  try {
+    options = parsePrintOptions(process.argv.slice(2));
+    prompt = (options.prompt ?? (await readStdin())).trim();
+    if (!prompt) {
+      throw new PrintUsageError("No prompt given: pass it after -p or pipe it on stdin");
+    }
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(error instanceof PrintUsageError ? PRINT_EXIT_CODES.usage : PRINT_EXIT_CODES.failed);
+  }
+
+  const harness = new Harness();
+  await startBackend(harness, { model: options.model });
+
+  const sessionId = options.resume ? findLatestSession(harness) : options.session;
+  if (options.resume && !sessionId) {
+    console.error("No previous session to resume in this project");
+    await harness.shutdown();
+    process.exit(PRINT_EXIT_CODES.failed);
+  }
+  if (sessionId) {
+    await harness.dispatch({ type: "session.switch", sessionId });
+    if (harness.getState().currentSessionId !== sessionId) {
+      console.error(`Could not resume session: ${sessionId}`);
+      await harness.shutdown();
+      process.exit(PRINT_EXIT_CODES.failed);
+    }
+  }
+
+  const code = await runPrintMode(harness, options, prompt);
+  await harness.shutdown();
+  process.exit(code);
+}
+
+/**
+ * --stdio serves the harness over JSON-RPC on stdin/stdout for editors (see
+ * RpcProtocol.ts). The backend starts when the client sends `initialize`.
+ */
+async function runStdioServer(): Promise<never> {
+  // Stdout belongs to the protocol
+  console.log = console.error;
+  console.info = console.error;
+  console.debug = console.error;
+
+  const harness = new Harness();
+  try {
+    harness.setAdapter(createBackend());
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+
+  await new RpcServer(harness, process.stdin, process.stdout).serve();
+  process.exit(0);
+}
+
+/**
+ * --http [port] serves the HTTP/SSE API next to the TUI on 127.0.0.1.
+ * Returns null when the flag isn't given.
+ */
+async function startHttpApi(harness: Harness): Promise<HttpApiServer | null> {
+  const httpIndex = process.argv.indexOf("--http");
+  if (httpIndex === -1) return null;
+
+  const portArg = process.argv[httpIndex + 1];
+  const port = portArg && /^\d+$/.test(portArg) ? Number(portArg) : DEFAULT_HTTP_PORT;
+  const server = new HttpApiServer(harness, port, process.env.ANVIL_HTTP_TOKEN);
+  try {
+    const { url } = await server.start();
+    // The token stays out of logs, which end up in the journal
+    harness.emit(createLogEvent("info", `HTTP API listening on ${url} (token in ${server.discoveryPath})`));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    harness.emit(createLogEvent("error", `HTTP API failed to start on port ${port}: ${message}`));
+    return null;
+  }
+  process.on("exit", () => server.stop());
+  return server;
+}
+
+async function main() {
+  if (process.argv.includes("--stdio")) {
+    await runStdioServer();
+  }
+  if (isPrintMode(process.argv.slice(2))) {
+    await runPrint();
+  }
+
+
+  const harness = new Harness();
+
+  let replaying: boolean;
+  try {
+    replaying = loadReplay(harness);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+
+  if (!replaying) {
+    await startBackend(harness);
+  }
+
+  const httpApi = await startHttpApi(harness);
 
   const renderer = await createCliRenderer({
     exitOnCtrlC: false,
@@ -38,6 +215,7 @@ async function main() {
   root.render(<App harness={harness} renderer={renderer} />);
 
   const handleExit = async () => {
+    httpApi?.stop();
     await harness.shutdown();
     renderer.destroy();
     process.exit(0);
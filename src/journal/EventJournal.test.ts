@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { appendFileSync, mkdtempSync, realpathSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createAssistantMessage, createLogEvent } from "../harness/events.js";
+import { EventJournal, getJournalPath, readJournal, resolveJournalPath } from "./EventJournal.js";
+
+const originalCwd = process.cwd();
+let root: string;
+
+beforeEach(() => {
+  root = realpathSync(mkdtempSync(join(tmpdir(), "anvil-journal-")));
+  process.chdir(root);
+});
+
+afterEach(() => {
+  process.chdir(originalCwd);
+  rmSync(root, { recursive: true, force: true });
+});
+
+describe("EventJournal", () => {
+  test("round-trips events with their dates revived", () => {
+    const journal = new EventJournal(() => {});
+    journal.setSession("s1");
+    journal.append({ type: "run.finished", runId: "r1", createdAt: new Date("2026-01-02T03:04:05.000Z") });
+    // A date-looking string outside an "...At" field stays a string
+    journal.append({ type: "assistant.message", runId: "r1", message: createAssistantMessage("2026-01-02T03:04:05.000Z") });
+    journal.flush();
+
+    const { entries, errors } = readJournal(getJournalPath("s1"));
+    expect(errors).toEqual([]);
+    expect(entries.map((e) => e.seq)).toEqual([1, 2]);
+    expect(entries[0].at).toBeInstanceOf(Date);
+    expect(entries[0].event).toEqual({ type: "run.finished", runId: "r1", createdAt: new Date("2026-01-02T03:04:05.000Z") });
+    const event = entries[1].event;
+    if (event.type !== "assistant.message") throw new Error(`unexpected ${event.type}`);
+    expect(event.message.content).toBe("2026-01-02T03:04:05.000Z");
+    expect(event.message.createdAt).toBeInstanceOf(Date);
+  });
+
+  test("holds events from before the first session for it and restarts seq per session", () => {
+    const journal = new EventJournal(() => {});
+    journal.append(createLogEvent("info", "starting"));
+    journal.setSession("s1");
+    journal.append(createLogEvent("info", "in s1"));
+    journal.setSession("s2");
+    journal.append(createLogEvent("info", "in s2"));
+    journal.flush();
+
+    expect(readJournal(getJournalPath("s1")).entries.map((e) => e.seq)).toEqual([1, 2]);
+    expect(readJournal(getJournalPath("s2")).entries.map((e) => e.seq)).toEqual([1]);
+  });
+
+  test("skips and reports malformed lines", () => {
+    const journal = new EventJournal(() => {});
+    journal.setSession("s1");
+    journal.append(createLogEvent("info", "kept"));
+    journal.flush();
+    const path = getJournalPath("s1");
+    appendFileSync(path, `{"seq":2,"at":"2026-01-01T00:00:00.000Z"}\n{"seq":3,"ev`);
+
+    const { entries, errors } = readJournal(path);
+    expect(entries).toHaveLength(1);
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toBe("line 2: missing event");
+    expect(errors[1]).toStartWith("line 3: ");
+  });
+
+  test("reports a write failure once and stops journaling", () => {
+    const messages: string[] = [];
+    const journal = new EventJournal((message) => messages.push(message));
+    // A file where the journal directory should be
+    appendFileSync(join(root, ".anvil"), "");
+    journal.setSession("s1");
+    journal.append(createLogEvent("info", "one"));
+    journal.flush();
+    journal.append(createLogEvent("info", "two"));
+    journal.flush();
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0]).toStartWith("Event journal disabled");
+  });
+
+  test("resolves session IDs and file paths", () => {
+    expect(resolveJournalPath("s1")).toBe(getJournalPath("s1"));
+    expect(resolveJournalPath("backup/s1.jsonl")).toBe(join(root, "backup", "s1.jsonl"));
+    expect(() => readJournal(getJournalPath("missing"))).toThrow("Journal not found");
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Event journal — an append-only record of every `HarnessEvent`, one JSONL
+ * file per session:
+ *   <project>/.anvil/journal/<session-id>.jsonl
+ *
+ * Each line is a `JournalEntry`. Events keep their own fields (run IDs, tool
+ * arguments and outputs, usage); `Date` values are written as ISO strings and
+ * revived on read. Writes are batched and flushed on a short timer, on
+ * session change and on shutdown, so streaming deltas don't hit the disk one
+ * by one.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "node:fs";
+import { dirname, isAbsolute, resolve } from "node:path";
+import type { HarnessEvent } from "../harness/events.js";
+import { getConfigPath } from "../utils/config.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface JournalEntry {
+  /** Position within the session's journal, starting at 1 per process */
+  seq: number;
+  /** When the harness emitted the event */
+  at: Date;
+  event: HarnessEvent;
+}
+
+const JOURNAL_DIR = "journal";
+const FLUSH_INTERVAL_MS = 250;
+// Events emitted before the first session exists are held for it, up to this many
+const MAX_PENDING = 1000;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+// ---------------------------------------------------------------------------
+// Paths and parsing
+// ---------------------------------------------------------------------------
+
+export function getJournalPath(sessionId: string): string {
+  return getConfigPath("project", JOURNAL_DIR, `${sessionId}.jsonl`);
+}
+
+/** Accepts a journal file path or a session ID. */
+export function resolveJournalPath(pathOrSessionId: string): string {
+  if (pathOrSessionId.endsWith(".jsonl") || isAbsolute(pathOrSessionId)) {
+    return resolve(pathOrSessionId);
+  }
+  return getJournalPath(pathOrSessionId);
+}
+
+// Timestamps are the only non-JSON values events carry, always in "...At" fields
+function reviveDates(key: string, value: unknown): unknown {
+  if (typeof value === "string" && (key === "at" || key.endsWith("At")) && ISO_DATE.test(value)) {
+    return new Date(value);
+  }
+  return value;
+}
+
+/**
+ * Read a journal file. Malformed lines (e.g. a partial line after a crash)
+ * are skipped and reported in `errors`.
+ */
+export function readJournal(filePath: string): { entries: JournalEntry[]; errors: string[] } {
+  if (!existsSync(filePath)) {
+    throw new Error(`Journal not found: ${filePath}`);
+  }
+
+  const entries: JournalEntry[] = [];
+  const errors: string[] = [];
+  const lines = readFileSync(filePath, "utf-8").split("\n");
+  lines.forEach((line, index) => {
+    if (!line.trim()) return;
+    try {
+      const entry = JSON.parse(line, reviveDates) as JournalEntry;
+      if (!entry.event || typeof entry.event.type !== "string") {
+        errors.push(`line ${index + 1}: missing event`);
+        return;
+      }
+      entries.push(entry);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      errors.push(`line ${index + 1}: ${message}`);
+    }
+  });
+  return { entries, errors };
+}
+
+// ---------------------------------------------------------------------------
+// Writer
+// ---------------------------------------------------------------------------
+
+export class EventJournal {
+  private sessionId: string | null = null;
+  private buffer: string[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private seq = 0;
+  private failed = false;
+
+  /**
+   * @param onError Called once if writing fails; journaling stops afterwards
+   *                so a full disk doesn't turn into an error per event.
+   */
+  constructor(private onError: (message: string) => void) {}
+
+  get currentPath(): string | null {
+    return this.sessionId ? getJournalPath(this.sessionId) : null;
+  }
+
+  /** Direct subsequent events to another session's journal. */
+  setSession(sessionId: string): void {
+    if (sessionId === this.sessionId) return;
+    // Events held before the first session belong to it
+    if (this.sessionId) {
+      this.flush();
+      this.seq = 0;
+    }
+    this.sessionId = sessionId;
+    this.scheduleFlush();
+  }
+
+  append(event: HarnessEvent): void {
+    if (this.failed) return;
+    if (!this.sessionId && this.buffer.length >= MAX_PENDING) return;
+
+    this.seq++;
+    this.buffer.push(JSON.stringify({ seq: this.seq, at: new Date(), event }));
+    this.scheduleFlush();
+  }
+
+  /** Write buffered entries now. */
+  flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (!this.sessionId || this.buffer.length === 0 || this.failed) return;
+
+    const filePath = getJournalPath(this.sessionId);
+    const lines = this.buffer.join("\n") + "\n";
+    this.buffer = [];
+    try {
+      mkdirSync(dirname(filePath), { recursive: true });
+      appendFileSync(filePath, lines, "utf-8");
+    } catch (error) {
+      this.failed = true;
+      const message = error instanceof Error ? error.message : String(error);
+      this.onError(`Event journal disabled, could not write ${filePath}: ${message}`);
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer || !this.sessionId) return;
+    this.flushTimer = setTimeout(() => this.flush(), FLUSH_INTERVAL_MS);
+  }
+}
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test";
+import { appendFileSync, mkdirSync, mkdtempSync, realpathSync, rmSync, writeFileSync } from "node:fs";
+import * as os from "node:os";
+import { join } from "node:path";
+import { getProjectMcpTrust, loadMcpServers, trustProjectMcpConfig } from "./McpConfig.js";
+
+const originalCwd = process.cwd();
+let root: string;
+
+// Bun reads the home directory once at startup, so ~/.anvil is redirected here instead of through HOME
+mock.module("node:os", () => ({ ...os, homedir: () => join(root, "home") }));
+
+function writeConfig(scope: "user" | "project", mcpServers: Record<string, unknown>): void {
+  const dir = join(root, scope === "user" ? "home" : "project", ".anvil");
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(join(dir, "mcp.json"), JSON.stringify({ mcpServers }));
+}
+
+beforeEach(() => {
+  root = realpathSync(mkdtempSync(join(os.tmpdir(), "anvil-mcp-")));
+  mkdirSync(join(root, "home"));
+  mkdirSync(join(root, "project"));
+  process.chdir(join(root, "project"));
+});
+
+afterEach(() => {
+  process.chdir(originalCwd);
+  rmSync(root, { recursive: true, force: true });
+});
+
+describe("loadMcpServers", () => {
+  test("fills in defaults", () => {
+    writeConfig("user", { echo: { command: "node" } });
+    const { servers, errors } = loadMcpServers();
+    expect(errors).toEqual([]);
+    expect(servers).toEqual([{ name: "echo", command: "node", args: [], tools: ["*"], scope: "user" }]);
+  });
+
+  test("skips and reports invalid servers", () => {
+    writeConfig("user", {
+      good: { command: "node", args: ["server.mjs"], tools: ["echo"], timeout: 5000 },
+      noCommand: { args: ["x"] },
+      badArgs: { command: "node", args: "server.mjs" },
+      badEnv: { command: "node", env: { PORT: 1 } },
+      badTimeout: { command: "node", timeout: "5s" },
+      notAnObject: "node",
+    });
+    const { servers, errors } = loadMcpServers();
+    expect(servers.map((s) => s.name)).toEqual(["good"]);
+    expect(errors).toHaveLength(5);
+    expect(errors.some((e) => e.includes(`server "noCommand" is missing "command"`))).toBe(true);
+    expect(errors.some((e) => e.includes(`server "badTimeout" has non-numeric "timeout"`))).toBe(true);
+  });
+
+  test("reports malformed JSON", () => {
+    mkdirSync(join(root, "home", ".anvil"), { recursive: true });
+    writeFileSync(join(root, "home", ".anvil", "mcp.json"), "{ nope");
+    const { servers, errors } = loadMcpServers();
+    expect(servers).toEqual([]);
+    expect(errors[0]).toContain("Invalid JSON");
+  });
+
+  test("leaves out project servers until the project file is trusted", () => {
+    writeConfig("user", { shared: { command: "user-server" } });
+    writeConfig("project", { shared: { command: "project-server" }, local: { command: "local-server" } });
+
+    let loaded = loadMcpServers();
+    expect(loaded.trust).toBe("untrusted");
+    expect(loaded.untrusted).toEqual(["shared", "local"]);
+    // The user's own definition still applies
+    expect(loaded.servers.map((s) => [s.name, s.command])).toEqual([["shared", "user-server"]]);
+
+    trustProjectMcpConfig();
+    loaded = loadMcpServers();
+    expect(loaded.untrusted).toEqual([]);
+    // Project servers replace user servers with the same name
+    expect(loaded.servers.map((s) => [s.name, s.command, s.scope])).toEqual([
+      ["shared", "project-server", "project"],
+      ["local", "local-server", "project"],
+    ]);
+  });
+
+  test("editing a trusted project file withdraws trust", () => {
+    writeConfig("project", { local: { command: "local-server" } });
+    trustProjectMcpConfig();
+    expect(getProjectMcpTrust()).toBe("trusted");
+
+    appendFileSync(join(root, "project", ".anvil", "mcp.json"), "\n");
+    expect(getProjectMcpTrust()).toBe("changed");
+    expect(loadMcpServers().servers).toEqual([]);
+  });
+});
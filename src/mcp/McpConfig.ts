@@ -0,0 +1,188 @@
+/**
+ * MCP config loader — reads local (stdio) MCP server definitions.
+ *
+ * Servers are declared in two JSON files:
+ *   <project>/.anvil/mcp.json
+ *   ~/.anvil/mcp.json
+ *
+ * Both use the common `mcpServers` shape:
+ *
+ *   { "mcpServers": { "echo": { "command": "node", "args": ["echo.mjs"], "tools": ["*"] } } }
+ *
+ * A project server replaces a user server with the same name.
+ *
+ * Project servers run commands from whatever repository anvil is started in,
+ * so they are only loaded once the user trusts the project file (`/mcp
+ * trust`). Trust is recorded in `~/.anvil/mcp-trust.json` with a hash of the
+ * file's contents; editing the file withdraws it.
+ */
+
+import { createHash } from "node:crypto";
+import { existsSync, readFileSync } from "node:fs";
+import { getConfigPath, readJsonConfig, writeJsonConfig } from "../utils/config.js";
+import type { ConfigScope } from "../utils/config.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface McpServerDefinition {
+  name: string;
+  command: string;
+  args: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+  /** Tool allowlist; ["*"] exposes every tool, [] exposes none */
+  tools: string[];
+  /** Per-call timeout in milliseconds */
+  timeout?: number;
+  scope: ConfigScope;
+}
+
+/** Whether the project's mcp.json may be loaded; "changed" when it was edited after being trusted */
+export type ProjectMcpTrust = "trusted" | "untrusted" | "changed";
+
+interface McpConfigFile {
+  mcpServers?: Record<string, unknown>;
+}
+
+interface McpTrustFile {
+  /** Absolute path of a project mcp.json -> SHA-256 of the contents that were trusted */
+  trusted?: Record<string, string>;
+}
+
+const MCP_CONFIG_FILE = "mcp.json";
+const MCP_TRUST_FILE = "mcp-trust.json";
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string");
+}
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    Object.values(value).every((v) => typeof v === "string")
+  );
+}
+
+function parseServer(name: string, value: unknown, scope: ConfigScope): McpServerDefinition | string {
+  if (!value || typeof value !== "object") return `server "${name}" must be an object`;
+  const raw = value as Record<string, unknown>;
+
+  if (typeof raw.command !== "string" || !raw.command) return `server "${name}" is missing "command"`;
+  if (raw.args !== undefined && !isStringArray(raw.args)) return `server "${name}" has non-string "args"`;
+  if (raw.env !== undefined && !isStringRecord(raw.env)) return `server "${name}" has non-string "env" values`;
+  if (raw.tools !== undefined && !isStringArray(raw.tools)) return `server "${name}" has non-string "tools"`;
+  if (raw.cwd !== undefined && typeof raw.cwd !== "string") return `server "${name}" has non-string "cwd"`;
+  if (raw.timeout !== undefined && typeof raw.timeout !== "number") return `server "${name}" has non-numeric "timeout"`;
+
+  return {
+    name,
+    command: raw.command,
+    args: (raw.args as string[] | undefined) ?? [],
+    env: raw.env as Record<string, string> | undefined,
+    cwd: raw.cwd as string | undefined,
+    tools: (raw.tools as string[] | undefined) ?? ["*"],
+    timeout: raw.timeout as number | undefined,
+    scope,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Trust
+// ---------------------------------------------------------------------------
+
+function projectConfigHash(): string | null {
+  const filePath = getConfigPath("project", MCP_CONFIG_FILE);
+  if (!existsSync(filePath)) return null;
+  return createHash("sha256").update(readFileSync(filePath)).digest("hex");
+}
+
+/** Whether the project's mcp.json, as it is now, was trusted. A missing file has nothing to trust. */
+export function getProjectMcpTrust(): ProjectMcpTrust {
+  const hash = projectConfigHash();
+  if (!hash) return "trusted";
+
+  let trusted: string | undefined;
+  try {
+    const store = readJsonConfig<McpTrustFile>(getConfigPath("user", MCP_TRUST_FILE));
+    trusted = store?.trusted?.[getConfigPath("project", MCP_CONFIG_FILE)];
+  } catch {
+    // A corrupt trust store trusts nothing
+    return "untrusted";
+  }
+  if (trusted === undefined) return "untrusted";
+  return trusted === hash ? "trusted" : "changed";
+}
+
+/**
+ * Trust the project's mcp.json as it is now.
+ * Returns the trusted file's path, or null when the project has none.
+ */
+export function trustProjectMcpConfig(): string | null {
+  const hash = projectConfigHash();
+  if (!hash) return null;
+
+  const storePath = getConfigPath("user", MCP_TRUST_FILE);
+  let store: McpTrustFile;
+  try {
+    store = readJsonConfig<McpTrustFile>(storePath) ?? {};
+  } catch {
+    // Rewritten rather than failing, since it only ever holds trust decisions
+    store = {};
+  }
+  const filePath = getConfigPath("project", MCP_CONFIG_FILE);
+  writeJsonConfig(storePath, { ...store, trusted: { ...store.trusted, [filePath]: hash } });
+  return filePath;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Load MCP server definitions from the user and project config files.
+ * Invalid files and entries are skipped and reported in `errors`. Servers of
+ * an untrusted project file are left out and named in `untrusted`.
+ */
+export function loadMcpServers(): {
+  servers: McpServerDefinition[];
+  errors: string[];
+  untrusted: string[];
+  trust: ProjectMcpTrust;
+} {
+  const byName = new Map<string, McpServerDefinition>();
+  const errors: string[] = [];
+  const untrusted: string[] = [];
+  const trust = getProjectMcpTrust();
+
+  // User first so project definitions override them
+  for (const scope of ["user", "project"] as const) {
+    const filePath = getConfigPath(scope, MCP_CONFIG_FILE);
+    let file: McpConfigFile | null;
+    try {
+      file = readJsonConfig<McpConfigFile>(filePath);
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+      continue;
+    }
+
+    for (const [name, value] of Object.entries(file?.mcpServers ?? {})) {
+      const parsed = parseServer(name, value, scope);
+      if (typeof parsed === "string") {
+        errors.push(`${filePath}: ${parsed}`);
+      } else if (scope === "project" && trust !== "trusted") {
+        untrusted.push(name);
+      } else {
+        byName.set(name, parsed);
+      }
+    }
+  }
+
+  return { servers: Array.from(byName.values()), errors, untrusted, trust };
+}
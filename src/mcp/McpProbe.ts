@@ -0,0 +1,125 @@
+/**
+ * MCP probe — checks that a local MCP server starts and lists its tools.
+ *
+ * The Copilot CLI owns the real MCP connections and does not report their
+ * state, so the harness spawns each configured server once on its own,
+ * performs the `initialize` / `tools/list` handshake over newline-delimited
+ * JSON-RPC on stdio, and shuts it down again.
+ */
+
+import { spawn } from "node:child_process";
+import type { McpServerDefinition } from "./McpConfig.js";
+
+const PROTOCOL_VERSION = "2024-11-05";
+const DEFAULT_PROBE_TIMEOUT_MS = 10_000;
+
+interface JsonRpcResponse {
+  id?: number;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+/**
+ * Start the server, list its tools and stop it.
+ * Resolves with tool names; rejects with a readable error on spawn failure,
+ * protocol error, early exit or timeout.
+ */
+export function probeMcpServer(
+  server: McpServerDefinition,
+  timeoutMs: number = DEFAULT_PROBE_TIMEOUT_MS
+): Promise<string[]> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(server.command, server.args, {
+      cwd: server.cwd,
+      env: { ...process.env, ...server.env },
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+
+    let settled = false;
+    let stdoutBuffer = "";
+    let stderrTail = "";
+
+    const finish = (error: Error | null, tools?: string[]) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      child.stdin.end();
+      child.kill();
+      if (error) reject(error);
+      else resolve(tools ?? []);
+    };
+
+    const send = (message: Record<string, unknown>) => {
+      child.stdin.write(JSON.stringify({ jsonrpc: "2.0", ...message }) + "\n");
+    };
+
+    const timer = setTimeout(() => {
+      finish(new Error(`No response within ${Math.round(timeoutMs / 1000)}s`));
+    }, timeoutMs);
+
+    const handleResponse = (response: JsonRpcResponse) => {
+      if (response.error) {
+        finish(new Error(`${response.error.message} (code ${response.error.code})`));
+        return;
+      }
+      if (response.id === 1) {
+        send({ method: "notifications/initialized" });
+        send({ id: 2, method: "tools/list", params: {} });
+      } else if (response.id === 2) {
+        const result = response.result as { tools?: Array<{ name?: unknown }> } | undefined;
+        const tools = (result?.tools ?? [])
+          .map((tool) => tool.name)
+          .filter((name): name is string => typeof name === "string");
+        finish(null, tools);
+      }
+    };
+
+    child.stdout.setEncoding("utf-8");
+    child.stdout.on("data", (chunk: string) => {
+      stdoutBuffer += chunk;
+      let newline: number;
+      while ((newline = stdoutBuffer.indexOf("\n")) !== -1) {
+        const line = stdoutBuffer.slice(0, newline).trim();
+        stdoutBuffer = stdoutBuffer.slice(newline + 1);
+        if (!line) continue;
+        try {
+          handleResponse(JSON.parse(line) as JsonRpcResponse);
+        } catch {
+          // Servers sometimes log to stdout; ignore anything that isn't JSON
+        }
+      }
+    });
+
+    child.stderr.setEncoding("utf-8");
+    child.stderr.on("data", (chunk: string) => {
+      stderrTail = (stderrTail + chunk).slice(-500);
+    });
+
+    child.on("error", (error) => finish(error));
+    child.on("exit", (code, signal) => {
+      const detail = stderrTail.trim().split("\n").pop();
+      const reason = signal ? `signal ${signal}` : `code ${code}`;
+      finish(new Error(`Exited with ${reason}${detail ? `: ${detail}` : ""}`));
+    });
+    // Writes to a dead process surface here rather than as uncaught errors
+    child.stdin.on("error", () => {});
+
+    send({
+      id: 1,
+      method: "initialize",
+      params: {
+        protocolVersion: PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: { name: "copilot-anvil", version: "1.0.0" },
+      },
+    });
+  });
+}
+
+/**
+ * Apply a server's tool allowlist to the tools it reported.
+ */
+export function filterAllowedTools(tools: string[], allowlist: string[]): string[] {
+  if (allowlist.includes("*")) return tools;
+  return tools.filter((tool) => allowlist.includes(tool));
+}
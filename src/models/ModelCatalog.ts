@@ -0,0 +1,100 @@
+/**
+ * Model catalog helpers — turn SDK model metadata into `ModelDescription`s
+ * and group, filter and format them for the model selector.
+ *
+ * The SDK doesn't report a vendor, so it is inferred from the model ID
+ * ("claude-*" → Anthropic, "gpt-*" → OpenAI, ...). Provider models are
+ * grouped under their profile name instead.
+ */
+
+import type { ModelInfo } from "@github/copilot-sdk";
+import type { ModelDescription } from "../harness/backend.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ModelGroup {
+  vendor: string;
+  models: ModelDescription[];
+}
+
+/** Capability filter cycled in the model selector */
+export type ModelCapabilityFilter = "all" | "vision" | "reasoning";
+
+const VENDOR_PREFIXES: Array<[RegExp, string]> = [
+  [/^claude/i, "Anthropic"],
+  [/^(gpt|o\d|codex)/i, "OpenAI"],
+  [/^gemini/i, "Google"],
+  [/^grok/i, "xAI"],
+];
+
+const OTHER_VENDOR = "Other";
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export function inferVendor(modelId: string): string {
+  const bare = modelId.split("/").pop() ?? modelId;
+  return VENDOR_PREFIXES.find(([pattern]) => pattern.test(bare))?.[1] ?? OTHER_VENDOR;
+}
+
+export function describeCopilotModel(info: ModelInfo): ModelDescription {
+  const { supports, limits } = info.capabilities ?? { supports: undefined, limits: undefined };
+  return {
+    id: info.id,
+    name: info.name,
+    vendor: inferVendor(info.id),
+    contextWindow: limits?.max_context_window_tokens,
+    maxPromptTokens: limits?.max_prompt_tokens,
+    vision: supports?.vision,
+    reasoning: supports?.reasoningEffort,
+    reasoningEfforts: info.supportedReasoningEfforts,
+    multiplier: info.billing?.multiplier,
+  };
+}
+
+/** Token budget the context gauge should scale against, if known. */
+export function modelTokenLimit(model: ModelDescription | undefined): number | undefined {
+  return model?.maxPromptTokens ?? model?.contextWindow;
+}
+
+export function matchesModelFilter(
+  model: ModelDescription,
+  query: string,
+  capability: ModelCapabilityFilter
+): boolean {
+  if (capability === "vision" && !model.vision) return false;
+  if (capability === "reasoning" && !model.reasoning) return false;
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  return [model.id, model.name, model.vendor ?? "", model.provider ?? ""]
+    .some((field) => field.toLowerCase().includes(needle));
+}
+
+/** Group by vendor, keeping the first-seen order of vendors and models. */
+export function groupModelsByVendor(models: ModelDescription[]): ModelGroup[] {
+  const groups = new Map<string, ModelDescription[]>();
+  for (const model of models) {
+    const vendor = model.provider ?? model.vendor ?? inferVendor(model.id);
+    const group = groups.get(vendor);
+    if (group) {
+      group.push(model);
+    } else {
+      groups.set(vendor, [model]);
+    }
+  }
+  return Array.from(groups, ([vendor, grouped]) => ({ vendor, models: grouped }));
+}
+
+/** Compact token count: 128000 → "128k", 1048576 → "1M". */
+export function formatTokenCount(tokens: number): string {
+  if (tokens >= 1_000_000) return `${Math.round(tokens / 100_000) / 10}M`;
+  if (tokens >= 1_000) return `${Math.round(tokens / 1_000)}k`;
+  return String(tokens);
+}
+
+export function formatMultiplier(multiplier: number): string {
+  return `${Math.round(multiplier * 100) / 100}x`;
+}
@@ -0,0 +1,262 @@
+/**
+ * Permission policy — declarative allow/deny/ask rules for tool operations.
+ *
+ * Rules are loaded from two JSON files:
+ *   <project>/.anvil/permissions.json
+ *   ~/.anvil/permissions.json
+ *
+ * Each file has the shape `{ "rules": PermissionRule[] }`. A rule matches on
+ * tool kind plus an optional shell command pattern or file path glob.
+ * When several rules match, deny beats ask beats allow, so a narrow deny
+ * (e.g. writes to `.env`) can never be overridden by a broad allow. Allow
+ * rules with a command pattern never match commands that chain, pipe,
+ * redirect or substitute, so `git *` can't approve `git status && rm -rf ~`.
+ */
+
+import { basename, isAbsolute, relative, sep } from "node:path";
+import type { PermissionKind } from "../harness/events.js";
+import { getConfigPath, readJsonConfig, writeJsonConfig } from "../utils/config.js";
+import type { ConfigScope } from "../utils/config.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type PermissionRuleAction = "allow" | "deny" | "ask";
+
+export interface PermissionRule {
+  action: PermissionRuleAction;
+  /** Tool kind the rule applies to; omitted or "*" matches every kind */
+  kind?: PermissionKind | "*";
+  /** Shell command pattern, `*` matches any run of characters (shell requests only) */
+  command?: string;
+  /** File path glob relative to the project root (read/write requests only) */
+  path?: string;
+}
+
+export interface ScopedPermissionRule extends PermissionRule {
+  scope: ConfigScope;
+}
+
+export interface PolicyDecision {
+  action: PermissionRuleAction;
+  /** The deciding rule, or undefined when no rule matched */
+  rule?: ScopedPermissionRule;
+}
+
+interface PermissionsFile {
+  rules?: PermissionRule[];
+}
+
+const PERMISSIONS_FILE = "permissions.json";
+const RULE_ACTIONS: PermissionRuleAction[] = ["allow", "deny", "ask"];
+const RULE_KINDS: Array<PermissionKind | "*"> = ["shell", "write", "read", "url", "mcp", "*"];
+const ACTION_PRIORITY: Record<PermissionRuleAction, number> = { allow: 0, ask: 1, deny: 2 };
+
+// ---------------------------------------------------------------------------
+// Pattern matching
+// ---------------------------------------------------------------------------
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Control operators, redirections and command substitution: `;` `&` `&&` `|` `||` `<` `>` backticks `$(` and newlines
+const SHELL_COMPOSITION = /[;&|<>`\n]|\$\(/;
+
+/** `*` matches anything, including spaces and slashes. */
+function commandPatternToRegExp(pattern: string): RegExp {
+  const source = pattern.trim().split("*").map(escapeRegExp).join(".*");
+  return new RegExp(`^${source}$`);
+}
+
+/** `**` crosses directories, `*` and `?` stay within one path segment. */
+function pathGlobToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      source += ".*";
+      i++;
+      if (glob[i + 1] === "/") i++;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function toProjectPath(target: string): string {
+  const relativePath = isAbsolute(target) ? relative(process.cwd(), target) : target;
+  return relativePath.split(sep).join("/").replace(/^\.\//, "");
+}
+
+function ruleMatches(rule: PermissionRule, kind: PermissionKind, target?: string): boolean {
+  if (rule.kind && rule.kind !== "*" && rule.kind !== kind) return false;
+
+  if (rule.command !== undefined) {
+    if (kind !== "shell" || !target) return false;
+    if (!commandPatternToRegExp(rule.command).test(target.trim())) return false;
+    // The pattern only vouches for one simple command; anything composed is asked about
+    if (rule.action === "allow" && SHELL_COMPOSITION.test(target)) return false;
+  }
+
+  if (rule.path !== undefined) {
+    if ((kind !== "write" && kind !== "read") || !target) return false;
+    const projectPath = toProjectPath(target);
+    const regex = pathGlobToRegExp(rule.path);
+    // Patterns without a slash match the file name anywhere, like .gitignore
+    const matched = regex.test(projectPath) || (!rule.path.includes("/") && regex.test(basename(projectPath)));
+    if (!matched) return false;
+  }
+
+  return true;
+}
+
+// ---------------------------------------------------------------------------
+// Formatting and parsing
+// ---------------------------------------------------------------------------
+
+export function formatPermissionRule(rule: ScopedPermissionRule): string {
+  const parts: string[] = [rule.action, rule.kind ?? "*"];
+  if (rule.command !== undefined) parts.push(`command="${rule.command}"`);
+  if (rule.path !== undefined) parts.push(`path="${rule.path}"`);
+  parts.push(`(${rule.scope})`);
+  return parts.join(" ");
+}
+
+function validateRule(value: unknown): PermissionRule | null {
+  if (!value || typeof value !== "object") return null;
+  const rule = value as Record<string, unknown>;
+  if (!RULE_ACTIONS.includes(rule.action as PermissionRuleAction)) return null;
+  if (rule.kind !== undefined && !RULE_KINDS.includes(rule.kind as PermissionKind)) return null;
+  if (rule.command !== undefined && typeof rule.command !== "string") return null;
+  if (rule.path !== undefined && typeof rule.path !== "string") return null;
+  return {
+    action: rule.action as PermissionRuleAction,
+    kind: rule.kind as PermissionRule["kind"],
+    command: rule.command as string | undefined,
+    path: rule.path as string | undefined,
+  };
+}
+
+/**
+ * Parse `/permissions add` arguments:
+ *
+ *   [--user] <allow|deny|ask> <kind|*> [pattern...]
+ *
+ * The pattern becomes a command pattern for shell rules and a path glob for
+ * read/write rules. Returns an error message string on invalid input.
+ */
+export function parsePermissionRuleArgs(
+  args: string
+): { rule: PermissionRule; scope: ConfigScope } | string {
+  const tokens = args.trim().split(/\s+/).filter(Boolean);
+  let scope: ConfigScope = "project";
+  if (tokens[0] === "--user") {
+    scope = "user";
+    tokens.shift();
+  }
+
+  const [action, kind, ...patternParts] = tokens;
+  if (!RULE_ACTIONS.includes(action as PermissionRuleAction)) {
+    return `Expected action allow, deny or ask, got "${action ?? ""}"`;
+  }
+  if (!RULE_KINDS.includes(kind as PermissionKind)) {
+    return `Expected kind ${RULE_KINDS.join(", ")}, got "${kind ?? ""}"`;
+  }
+
+  const rule: PermissionRule = { action: action as PermissionRuleAction, kind: kind as PermissionRule["kind"] };
+  const pattern = patternParts.join(" ").replace(/^"(.*)"$/, "$1");
+  if (pattern) {
+    if (kind === "shell") {
+      rule.command = pattern;
+    } else if (kind === "write" || kind === "read") {
+      rule.path = pattern;
+    } else {
+      return `Patterns are only supported for shell, write and read rules`;
+    }
+  }
+
+  return { rule, scope };
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export class PermissionPolicy {
+  private rules: ScopedPermissionRule[] = [];
+
+  constructor() {
+    this.reload();
+  }
+
+  /**
+   * Re-read both permission files. Project rules are listed before user rules.
+   * Returns a message for every file or rule that could not be loaded.
+   */
+  reload(): string[] {
+    const errors: string[] = [];
+    this.rules = [];
+
+    for (const scope of ["project", "user"] as const) {
+      const filePath = getConfigPath(scope, PERMISSIONS_FILE);
+      let file: PermissionsFile | null;
+      try {
+        file = readJsonConfig<PermissionsFile>(filePath);
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : String(error));
+        continue;
+      }
+
+      for (const [index, value] of (file?.rules ?? []).entries()) {
+        const rule = validateRule(value);
+        if (rule) {
+          this.rules.push({ ...rule, scope });
+        } else {
+          errors.push(`Ignoring invalid rule #${index + 1} in ${filePath}`);
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  /** List all loaded rules. */
+  list(): ScopedPermissionRule[] {
+    return [...this.rules];
+  }
+
+  /**
+   * Decide what to do with a permission request.
+   * Falls back to "ask" with no rule when nothing matches.
+   */
+  evaluate(kind: PermissionKind, target?: string): PolicyDecision {
+    let decision: PolicyDecision = { action: "ask" };
+    for (const rule of this.rules) {
+      if (!ruleMatches(rule, kind, target)) continue;
+      if (!decision.rule || ACTION_PRIORITY[rule.action] > ACTION_PRIORITY[decision.action]) {
+        decision = { action: rule.action, rule };
+      }
+    }
+    return decision;
+  }
+
+  /**
+   * Append a rule to the project or user permissions file and reload.
+   * Returns the path of the file that was written.
+   */
+  addRule(rule: PermissionRule, scope: ConfigScope): string {
+    const filePath = getConfigPath(scope, PERMISSIONS_FILE);
+    const file = readJsonConfig<PermissionsFile>(filePath) ?? {};
+    file.rules = [...(file.rules ?? []), rule];
+    writeJsonConfig(filePath, file);
+    this.reload();
+    return filePath;
+  }
+}
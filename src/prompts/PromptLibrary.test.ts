@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test";
+import { mkdirSync, mkdtempSync, realpathSync, rmSync, writeFileSync } from "node:fs";
+import * as os from "node:os";
+import { join } from "node:path";
+import { builtinValues, extractVariables, loadPromptSnippets, renderSnippet } from "./PromptLibrary.js";
+
+const originalCwd = process.cwd();
+let root: string;
+
+// Bun reads the home directory once at startup, so ~/.anvil is redirected here instead of through HOME
+mock.module("node:os", () => ({ ...os, homedir: () => join(root, "home") }));
+
+function writeSnippet(scope: "user" | "project", file: string, content: string): void {
+  const dir = join(root, scope === "user" ? "home" : "project", ".anvil", "prompts");
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(join(dir, file), content);
+}
+
+beforeEach(() => {
+  root = realpathSync(mkdtempSync(join(os.tmpdir(), "anvil-prompts-")));
+  mkdirSync(join(root, "home"));
+  mkdirSync(join(root, "project"));
+  process.chdir(join(root, "project"));
+});
+
+afterEach(() => {
+  process.chdir(originalCwd);
+  rmSync(root, { recursive: true, force: true });
+});
+
+describe("variables", () => {
+  test("are listed once each, in order of appearance", () => {
+    expect(extractVariables("Fix {{ticket}} on {{ branch }}; see {{ticket}} and {{notes-v2}}")).toEqual([
+      "ticket",
+      "branch",
+      "notes-v2",
+    ]);
+    expect(extractVariables("No {{ 1bad }} or {single} braces")).toEqual([]);
+  });
+
+  test("are substituted, leaving unknown ones as written", () => {
+    const rendered = renderSnippet("Fix {{ticket}} ({{ ticket }}) on {{branch}} for {{who}}", {
+      ticket: "ABC-1",
+      branch: "main",
+    });
+    expect(rendered).toBe("Fix ABC-1 (ABC-1) on main for {{who}}");
+  });
+
+  test("values are inserted literally", () => {
+    expect(renderSnippet("{{a}}", { a: "$& and $1" })).toBe("$& and $1");
+    expect(renderSnippet("{{toString}}", {})).toBe("{{toString}}");
+  });
+
+  test("built-ins come from the snippet context", () => {
+    const values = builtinValues({
+      branch: null,
+      modifiedFiles: [
+        { path: "src/a.ts", status: "modified", additions: 3, deletions: 1 },
+        { path: "src/b.ts", status: "added", additions: 10, deletions: 0 },
+      ],
+      selection: "const x = 1;",
+      clipboard: null,
+    });
+    expect(values).toEqual({
+      branch: "",
+      modified_files: "- src/a.ts (modified, +3 -1)\n- src/b.ts (added, +10 -0)",
+      selection: "const x = 1;",
+      clipboard: "",
+    });
+  });
+});
+
+describe("loadPromptSnippets", () => {
+  test("reads frontmatter and lists the variables the user has to fill", () => {
+    writeSnippet("project", "review.md", "---\nname: review\ndescription: Review a ticket\n---\nReview {{ticket}} on {{branch}}.\n");
+
+    const { snippets, errors } = loadPromptSnippets();
+    expect(errors).toEqual([]);
+    expect(snippets).toHaveLength(1);
+    expect(snippets[0]).toMatchObject({
+      name: "review",
+      description: "Review a ticket",
+      variables: ["ticket"],
+      scope: "project",
+    });
+    expect(snippets[0].body).toContain("Review {{ticket}} on {{branch}}.");
+  });
+
+  test("project snippets replace user snippets with the same name", () => {
+    writeSnippet("user", "standup.md", "User standup");
+    writeSnippet("user", "triage.md", "User triage");
+    writeSnippet("project", "standup.md", "Project standup");
+    writeSnippet("project", "notes.txt", "Not a snippet");
+
+    const { snippets } = loadPromptSnippets();
+    expect(snippets.map((s) => [s.name, s.scope])).toEqual([
+      ["standup", "project"],
+      ["triage", "user"],
+    ]);
+  });
+});
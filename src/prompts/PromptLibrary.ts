@@ -0,0 +1,135 @@
+/**
+ * Prompt library — reusable prompt snippets with `{{variables}}`.
+ *
+ * Snippets are markdown files in the project or user config:
+ *   <project>/.anvil/prompts/<name>.md
+ *   ~/.anvil/prompts/<name>.md
+ *
+ * A project snippet replaces a user snippet of the same name. Frontmatter
+ * may set `name` and `description`; the body is the prompt text. Variables
+ * are written `{{ticket}}` and filled in before the snippet is inserted.
+ * A few are filled automatically (see `BUILTIN_VARIABLES`).
+ */
+
+import { readFileSync, readdirSync, existsSync } from "node:fs";
+import { join, basename } from "node:path";
+import { parseFrontmatter } from "../commands/CommandLoader.js";
+import { getConfigPath, type ConfigScope } from "../utils/config.js";
+import type { FileChange } from "../utils/gitDiff.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface PromptSnippet {
+  /** Frontmatter `name`, or the filename without .md */
+  name: string;
+  description: string;
+  /** Prompt text with `{{variables}}` left in */
+  body: string;
+  /** Variables the user has to fill, in order of appearance */
+  variables: string[];
+  scope: ConfigScope;
+  filePath: string;
+}
+
+/** Values for the built-in variables, gathered when a snippet is inserted. */
+export interface SnippetContext {
+  branch: string | null;
+  modifiedFiles: FileChange[];
+  selection: string;
+  clipboard: string | null;
+}
+
+export const BUILTIN_VARIABLES = ["branch", "modified_files", "selection", "clipboard"] as const;
+
+export type BuiltinVariable = (typeof BUILTIN_VARIABLES)[number];
+
+const PROMPTS_DIR = "prompts";
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][\w-]*)\s*\}\}/g;
+
+// ---------------------------------------------------------------------------
+// Variables
+// ---------------------------------------------------------------------------
+
+export function isBuiltinVariable(name: string): name is BuiltinVariable {
+  return (BUILTIN_VARIABLES as readonly string[]).includes(name);
+}
+
+/** Every variable in `body`, once each, in order of first appearance. */
+export function extractVariables(body: string): string[] {
+  const names = new Set<string>();
+  for (const match of body.matchAll(VARIABLE_PATTERN)) {
+    names.add(match[1]);
+  }
+  return Array.from(names);
+}
+
+function formatFileChange(file: FileChange): string {
+  return `- ${file.path} (${file.status}, +${file.additions} -${file.deletions})`;
+}
+
+export function builtinValues(context: SnippetContext): Record<BuiltinVariable, string> {
+  return {
+    branch: context.branch ?? "",
+    modified_files: context.modifiedFiles.map(formatFileChange).join("\n"),
+    selection: context.selection,
+    clipboard: context.clipboard ?? "",
+  };
+}
+
+/** Substitute variables; unknown ones are left as written. */
+export function renderSnippet(body: string, values: Record<string, string>): string {
+  return body.replace(VARIABLE_PATTERN, (whole, name: string) =>
+    Object.hasOwn(values, name) ? values[name] : whole
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Discovery
+// ---------------------------------------------------------------------------
+
+function loadScope(scope: ConfigScope, errors: string[]): PromptSnippet[] {
+  const dir = getConfigPath(scope, PROMPTS_DIR);
+  if (!existsSync(dir)) return [];
+
+  let files: string[];
+  try {
+    files = readdirSync(dir).filter((f) => f.endsWith(".md")).sort();
+  } catch (error) {
+    errors.push(`${dir}: ${error instanceof Error ? error.message : String(error)}`);
+    return [];
+  }
+
+  const snippets: PromptSnippet[] = [];
+  for (const file of files) {
+    const filePath = join(dir, file);
+    try {
+      const { frontmatter, body } = parseFrontmatter(readFileSync(filePath, "utf-8"));
+      snippets.push({
+        name: frontmatter.name || basename(file, ".md"),
+        description: frontmatter.description ?? "",
+        body,
+        variables: extractVariables(body).filter((name) => !isBuiltinVariable(name)),
+        scope,
+        filePath,
+      });
+    } catch (error) {
+      errors.push(`${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return snippets;
+}
+
+/** Load user and project snippets; project ones win on name clashes. */
+export function loadPromptSnippets(): { snippets: PromptSnippet[]; errors: string[] } {
+  const errors: string[] = [];
+  const byName = new Map<string, PromptSnippet>();
+  for (const scope of ["user", "project"] as const) {
+    for (const snippet of loadScope(scope, errors)) {
+      byName.set(snippet.name, snippet);
+    }
+  }
+  const snippets = Array.from(byName.values()).sort((a, b) => a.name.localeCompare(b.name));
+  return { snippets, errors };
+}
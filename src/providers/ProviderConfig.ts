@@ -0,0 +1,206 @@
+/**
+ * Provider config loader — bring-your-own-model provider profiles.
+ *
+ * Profiles are declared in two JSON files:
+ *   <project>/.anvil/providers.json
+ *   ~/.anvil/providers.json
+ *
+ *   {
+ *     "providers": {
+ *       "local": {
+ *         "type": "openai",
+ *         "baseUrl": "http://localhost:8080/v1",
+ *         "apiKeyEnv": "LOCAL_LLM_API_KEY",
+ *         "wireApi": "completions",
+ *         "models": ["qwen2.5-coder", { "id": "llama3", "name": "Llama 3", "contextWindow": 8192, "vision": false }]
+ *       }
+ *     }
+ *   }
+ *
+ * Secrets never live in the file: `apiKeyEnv` / `bearerTokenEnv` name the
+ * environment variables to read. A project profile replaces a user profile
+ * with the same name.
+ *
+ * A cloned repository must not be able to point a base URL at its own server
+ * and collect the user's keys, so project profiles that name credential
+ * variables are skipped unless the user file sets
+ * `"allowProjectCredentials": true`.
+ */
+
+import { getConfigPath, readJsonConfig } from "../utils/config.js";
+import type { ConfigScope } from "../utils/config.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type ProviderType = "openai" | "azure" | "anthropic";
+
+export type ProviderWireApi = "completions" | "responses";
+
+export interface ProviderModel {
+  /** Model name sent to the provider */
+  id: string;
+  /** Name shown in the model selector */
+  name: string;
+  /** Optional capability hints, shown in the selector and used by the harness */
+  contextWindow?: number;
+  vision?: boolean;
+  reasoning?: boolean;
+}
+
+export interface ProviderProfile {
+  name: string;
+  type: ProviderType;
+  baseUrl: string;
+  wireApi?: ProviderWireApi;
+  /** Environment variable holding the API key */
+  apiKeyEnv?: string;
+  /** Environment variable holding a bearer token (takes precedence over the API key) */
+  bearerTokenEnv?: string;
+  models: ProviderModel[];
+  scope: ConfigScope;
+}
+
+/** Credentials and endpoint for one profile, with secrets read from the environment. */
+export interface ResolvedProvider {
+  type: ProviderType;
+  baseUrl: string;
+  wireApi?: ProviderWireApi;
+  apiKey?: string;
+  bearerToken?: string;
+}
+
+interface ProvidersFile {
+  providers?: Record<string, unknown>;
+  /** Only honoured in the user file */
+  allowProjectCredentials?: boolean;
+}
+
+const PROVIDERS_FILE = "providers.json";
+const PROVIDER_TYPES: ProviderType[] = ["openai", "azure", "anthropic"];
+const WIRE_APIS: ProviderWireApi[] = ["completions", "responses"];
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+function parseModels(value: unknown): ProviderModel[] | null {
+  if (!Array.isArray(value)) return null;
+  const models: ProviderModel[] = [];
+  for (const entry of value) {
+    if (typeof entry === "string" && entry) {
+      models.push({ id: entry, name: entry });
+    } else if (entry && typeof entry === "object" && typeof (entry as ProviderModel).id === "string") {
+      const model = entry as Partial<ProviderModel>;
+      models.push({
+        id: model.id!,
+        name: typeof model.name === "string" ? model.name : model.id!,
+        contextWindow: typeof model.contextWindow === "number" ? model.contextWindow : undefined,
+        vision: typeof model.vision === "boolean" ? model.vision : undefined,
+        reasoning: typeof model.reasoning === "boolean" ? model.reasoning : undefined,
+      });
+    } else {
+      return null;
+    }
+  }
+  return models;
+}
+
+function parseProfile(name: string, value: unknown, scope: ConfigScope): ProviderProfile | string {
+  if (!value || typeof value !== "object") return `provider "${name}" must be an object`;
+  const raw = value as Record<string, unknown>;
+
+  if (typeof raw.baseUrl !== "string" || !raw.baseUrl) return `provider "${name}" is missing "baseUrl"`;
+  const type = (raw.type ?? "openai") as ProviderType;
+  if (!PROVIDER_TYPES.includes(type)) return `provider "${name}" has unknown type "${raw.type}"`;
+  if (raw.wireApi !== undefined && !WIRE_APIS.includes(raw.wireApi as ProviderWireApi)) {
+    return `provider "${name}" has unknown wireApi "${raw.wireApi}"`;
+  }
+  if (raw.apiKeyEnv !== undefined && typeof raw.apiKeyEnv !== "string") return `provider "${name}" has non-string "apiKeyEnv"`;
+  if (raw.bearerTokenEnv !== undefined && typeof raw.bearerTokenEnv !== "string") {
+    return `provider "${name}" has non-string "bearerTokenEnv"`;
+  }
+  const models = parseModels(raw.models);
+  if (!models || models.length === 0) return `provider "${name}" needs a non-empty "models" list`;
+
+  return {
+    name,
+    type,
+    baseUrl: raw.baseUrl,
+    wireApi: raw.wireApi as ProviderWireApi | undefined,
+    apiKeyEnv: raw.apiKeyEnv as string | undefined,
+    bearerTokenEnv: raw.bearerTokenEnv as string | undefined,
+    models,
+    scope,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Load provider profiles from the user and project config files.
+ * Invalid files and entries are skipped and reported in `errors`, as are
+ * credential variables that are not set.
+ */
+export function loadProviders(): { providers: ProviderProfile[]; errors: string[] } {
+  const byName = new Map<string, ProviderProfile>();
+  const errors: string[] = [];
+  let allowProjectCredentials = false;
+
+  // User first so project profiles override them
+  for (const scope of ["user", "project"] as const) {
+    const filePath = getConfigPath(scope, PROVIDERS_FILE);
+    let file: ProvidersFile | null;
+    try {
+      file = readJsonConfig<ProvidersFile>(filePath);
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+      continue;
+    }
+    if (scope === "user") allowProjectCredentials = file?.allowProjectCredentials === true;
+
+    for (const [name, value] of Object.entries(file?.providers ?? {})) {
+      const parsed = parseProfile(name, value, scope);
+      if (typeof parsed === "string") {
+        errors.push(`${filePath}: ${parsed}`);
+        continue;
+      }
+      const variables = [parsed.apiKeyEnv, parsed.bearerTokenEnv].filter(Boolean);
+      if (scope === "project" && variables.length > 0 && !allowProjectCredentials) {
+        errors.push(
+          `${filePath}: provider "${name}" reads ${variables.join(", ")} but project profiles may only use credentials ` +
+            `when ~/.anvil/providers.json sets "allowProjectCredentials": true`
+        );
+        continue;
+      }
+      byName.set(name, parsed);
+    }
+  }
+
+  for (const profile of byName.values()) {
+    for (const variable of [profile.apiKeyEnv, profile.bearerTokenEnv]) {
+      if (variable && !process.env[variable]) {
+        errors.push(`provider "${profile.name}": environment variable ${variable} is not set`);
+      }
+    }
+  }
+
+  return { providers: Array.from(byName.values()), errors };
+}
+
+/**
+ * Read a profile's credentials from the environment at session creation
+ * time, so rotating a key only needs a new session, not a restart.
+ */
+export function resolveProvider(profile: ProviderProfile): ResolvedProvider {
+  return {
+    type: profile.type,
+    baseUrl: profile.baseUrl,
+    wireApi: profile.wireApi,
+    apiKey: profile.apiKeyEnv ? process.env[profile.apiKeyEnv] : undefined,
+    bearerToken: profile.bearerTokenEnv ? process.env[profile.bearerTokenEnv] : undefined,
+  };
+}
@@ -0,0 +1,199 @@
+import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test";
+import { mkdirSync, mkdtempSync, realpathSync, rmSync, writeFileSync } from "node:fs";
+import * as os from "node:os";
+import { join } from "node:path";
+import type { TranscriptItem } from "../harness/events.js";
+import { Harness } from "../harness/Harness.js";
+import { loadBackendScript, ScriptedBackend, type BackendScript } from "./ScriptedBackend.js";
+
+const originalCwd = process.cwd();
+let root: string;
+let harness: Harness | undefined;
+
+// Bun reads the home directory once at startup, so ~/.anvil is redirected here instead of through HOME
+mock.module("node:os", () => ({ ...os, homedir: () => join(root, "home") }));
+
+async function start(script: BackendScript): Promise<ScriptedBackend> {
+  const backend = new ScriptedBackend(script);
+  const started = new Harness();
+  started.setAdapter(backend);
+  await started.initialize();
+  harness = started;
+  return backend;
+}
+
+async function waitFor(predicate: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!predicate()) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting for the harness");
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+async function prompt(text: string): Promise<void> {
+  await harness!.dispatch({ type: "submit.prompt", text });
+  await waitFor(() => harness!.getState().status !== "running");
+}
+
+function messages(transcript: readonly TranscriptItem[] = harness!.getState().transcript): string[] {
+  return transcript.flatMap((item) => (item.kind === "message" ? [`${item.role}: ${item.content}`] : []));
+}
+
+function writeScript(name: string, content: string): string {
+  const path = join(root, name);
+  writeFileSync(path, content);
+  return path;
+}
+
+beforeEach(() => {
+  root = realpathSync(mkdtempSync(join(os.tmpdir(), "anvil-scripted-")));
+  mkdirSync(join(root, "home"));
+  mkdirSync(join(root, "project"));
+  process.chdir(join(root, "project"));
+});
+
+afterEach(async () => {
+  await harness?.shutdown();
+  harness = undefined;
+  process.chdir(originalCwd);
+  rmSync(root, { recursive: true, force: true });
+});
+
+describe("loadBackendScript", () => {
+  test("reads JSON and YAML scripts", () => {
+    const script = { model: "m", runs: [{ match: "hi", steps: [{ event: { type: "assistant.message", content: "Hello" } }] }] };
+    expect(loadBackendScript(writeScript("script.json", JSON.stringify(script)))).toEqual(script as BackendScript);
+
+    const yaml = ["model: m", "runs:", "  - match: hi", "    steps:", "      - event: { type: assistant.message, content: Hello }"];
+    expect(loadBackendScript(writeScript("script.yaml", yaml.join("\n")))).toEqual(script as BackendScript);
+  });
+
+  test.each([
+    [{}, `"runs" must be an array`],
+    [{ runs: [{}] }, `runs[0] needs a "steps" array`],
+    [{ runs: [{ match: "(unclosed", steps: [] }] }, "runs[0].match is not a valid regex"],
+    [{ runs: [{ match: 1, steps: [] }] }, "runs[0].match must be a string"],
+    [{ runs: [{ steps: [{ delay: -5, event: { type: "log" } }] }] }, "runs[0].steps[0].delay must be a non-negative number"],
+    [{ runs: [{ steps: [{ delay: 5 }] }] }, `runs[0].steps[0] needs "event", "ask" or "permission"`],
+    [{ runs: [], ephemeral: [{ steps: [{ event: {} }] }] }, `ephemeral[0].steps[0].event is missing "type"`],
+  ])("rejects %p", (script, message) => {
+    const path = writeScript("bad.json", JSON.stringify(script));
+    expect(() => loadBackendScript(path)).toThrow(message);
+  });
+
+  test("reports unreadable files with their path", () => {
+    const path = writeScript("broken.json", "{ runs:");
+    expect(() => loadBackendScript(path)).toThrow(`Failed to read script ${path}`);
+  });
+});
+
+describe("ScriptedBackend driving a Harness", () => {
+  test("plays the matching run, otherwise the unmatched runs in turn", async () => {
+    await start({
+      model: "scripted-model",
+      runs: [
+        { match: "^deploy", steps: [{ event: { type: "assistant.message", content: "Deploying." } }] },
+        { steps: [{ event: { type: "assistant.delta", text: "First" } }, { event: { type: "assistant.message", content: "First" } }] },
+        { steps: [{ event: { type: "assistant.message", content: "Second" } }] },
+      ],
+    });
+    expect(harness!.getState().currentModel).toBe("scripted-model");
+
+    await prompt("one");
+    await prompt("Deploy it");
+    await prompt("two");
+    await prompt("three");
+
+    expect(messages()).toEqual([
+      "user: one",
+      "assistant: First",
+      "user: Deploy it",
+      "assistant: Deploying.",
+      "user: two",
+      "assistant: Second",
+      "user: three",
+      "assistant: First",
+    ]);
+    expect(harness!.getState().streamingContent).toBe("");
+  });
+
+  test("answers with a placeholder when no run matches", async () => {
+    await start({ runs: [{ match: "never", steps: [{ event: { type: "assistant.message", content: "x" } }] }] });
+    await prompt("hello");
+    expect(messages()).toEqual(["user: hello", "assistant: (no scripted response)"]);
+  });
+
+  test("waits out delays and stops playback on cancel", async () => {
+    await start({
+      runs: [
+        {
+          steps: [
+            { event: { type: "assistant.message", content: "Starting" } },
+            { delay: 5000, event: { type: "assistant.message", content: "Too late" } },
+          ],
+        },
+      ],
+    });
+
+    await harness!.dispatch({ type: "submit.prompt", text: "slow" });
+    await waitFor(() => messages().length === 2);
+    expect(harness!.getState().status).toBe("running");
+
+    await harness!.dispatch({ type: "cancel" });
+    expect(harness!.getState().status).toBe("idle");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(messages()).toEqual(["user: slow", "assistant: Starting"]);
+  });
+
+  test("pauses on questions and permissions until the user responds", async () => {
+    await start({
+      runs: [
+        {
+          steps: [
+            { ask: { question: "Which branch?", choices: ["main", "dev"] } },
+            { permission: { kind: "shell", intention: "Push the branch", target: "git push origin dev" } },
+            { event: { type: "assistant.message", content: "Pushed." } },
+          ],
+        },
+      ],
+    });
+
+    await harness!.dispatch({ type: "submit.prompt", text: "push" });
+    await waitFor(() => harness!.getState().pendingQuestion !== null);
+    const question = harness!.getState().pendingQuestion!;
+    expect(question.question).toBe("Which branch?");
+    await harness!.dispatch({ type: "answer.question", requestId: question.requestId, answer: "dev", wasFreeform: false });
+
+    await waitFor(() => harness!.getState().pendingPermissions.length > 0);
+    const [permission] = harness!.getState().pendingPermissions;
+    expect(permission.target).toBe("git push origin dev");
+    expect(messages()).toEqual(["user: push"]);
+    await harness!.dispatch({ type: "permission.respond", requestId: permission.requestId, decision: "allow-once" });
+
+    await waitFor(() => harness!.getState().status !== "running");
+    expect(messages()).toEqual(["user: push", "assistant: Pushed."]);
+  });
+
+  test("lists scripted sessions and switches to their transcripts", async () => {
+    await start({
+      sessions: [{ id: "demo", name: "Demo", transcript: [{ role: "user", content: "Hi" }, { role: "assistant", content: "Hello" }] }],
+      runs: [],
+    });
+    expect(harness!.getState().availableSessions.map((s) => s.id)).toContain("demo");
+
+    await harness!.dispatch({ type: "session.switch", sessionId: "demo" });
+    expect(harness!.getState().currentSessionId).toBe("demo");
+    expect(messages()).toEqual(["user: Hi", "assistant: Hello"]);
+  });
+
+  test("rewindToTurn drops the given turn and everything after it", async () => {
+    const backend = await start({ runs: [{ steps: [{ event: { type: "assistant.message", content: "ok" } }] }] });
+    await prompt("first");
+    await prompt("second");
+    await prompt("third");
+
+    await backend.rewindToTurn(1);
+    const transcript = await backend.getSessionTranscript(backend.currentSessionId!);
+    expect(messages(transcript)).toEqual(["user: first", "assistant: ok"]);
+  });
+});
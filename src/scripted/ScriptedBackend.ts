@@ -0,0 +1,464 @@
+/**
+ * Scripted backend — replays recorded HarnessEvent sequences without the
+ * Copilot CLI, for demos, reproducible bug reports and headless UI runs.
+ *
+ * A script is a JSON (or, under Bun, YAML) file:
+ *
+ *   {
+ *     "model": "scripted-model",
+ *     "sessions": [{ "id": "demo", "name": "Demo", "transcript": [{ "role": "user", "content": "Hi" }] }],
+ *     "runs": [
+ *       { "match": "hello", "steps": [
+ *         { "delay": 100, "event": { "type": "assistant.delta", "text": "Hello!" } },
+ *         { "delay": 50, "event": { "type": "assistant.message", "content": "Hello!" } }
+ *       ] }
+ *     ]
+ *   }
+ *
+ * Each prompt plays the first run whose `match` regex matches it, otherwise
+ * the next run without `match` (cycling). `runId` and `createdAt` are filled
+ * in automatically, and a `run.finished` is appended when the steps don't
+ * end with one. Steps can also pause on a question (`ask`) or a permission
+ * prompt (`permission`), which go through the normal harness modals.
+ */
+
+import { readFileSync } from "node:fs";
+import { extname } from "node:path";
+import type {
+  ChatMessage,
+  HarnessEvent,
+  PermissionKind,
+  SessionInfo,
+  TranscriptItem,
+} from "../harness/events.js";
+import { createAssistantMessage, createLogEvent, createUserMessage } from "../harness/events.js";
+import type {
+  AgentBackend,
+  BackendEventHandler,
+  EphemeralPromptOptions,
+  ModelDescription,
+  PermissionRequestHandler,
+  UserInputHandler,
+} from "../harness/backend.js";
+
+// ---------------------------------------------------------------------------
+// Script types
+// ---------------------------------------------------------------------------
+
+export interface ScriptStep {
+  /** Milliseconds to wait before the step (default 0) */
+  delay?: number;
+  /** Event to emit; runId/createdAt are optional, assistant.message accepts `content` */
+  event?: Record<string, unknown> & { type: HarnessEvent["type"] };
+  /** Ask the user a question and wait for the answer */
+  ask?: { question: string; choices?: string[]; allowFreeform?: boolean };
+  /** Request a permission and wait for the decision */
+  permission?: { kind: PermissionKind; intention: string; target?: string; diff?: string };
+}
+
+export interface ScriptRun {
+  /** Regex tested against the prompt; runs without it are used in order */
+  match?: string;
+  steps: ScriptStep[];
+}
+
+export interface ScriptSession {
+  id: string;
+  name?: string;
+  transcript?: Array<{ role: "user" | "assistant"; content: string }>;
+}
+
+export interface BackendScript {
+  model?: string;
+  models?: ModelDescription[];
+  sessions?: ScriptSession[];
+  runs: ScriptRun[];
+  /** Runs used for ephemeral prompts (e.g. smart commit); defaults to `runs` */
+  ephemeral?: ScriptRun[];
+}
+
+/** Events whose payload carries the runId of the run that produced them. */
+const RUN_SCOPED_EVENTS = new Set<HarnessEvent["type"]>([
+  "assistant.delta",
+  "assistant.message",
+  "reasoning.delta",
+  "reasoning.message",
+  "log",
+  "run.cancelled",
+  "run.finished",
+  "run.model",
+  "run.usage",
+  "tool.started",
+  "tool.progress",
+  "tool.completed",
+  "subagent.started",
+  "subagent.completed",
+  "subagent.failed",
+  "skill.invoked",
+  "intent.updated",
+  "todo.updated",
+  "turn.started",
+  "turn.ended",
+]);
+
+// ---------------------------------------------------------------------------
+// Script loading
+// ---------------------------------------------------------------------------
+
+function parseScriptText(text: string, filePath: string): unknown {
+  const ext = extname(filePath).toLowerCase();
+  if (ext === ".yaml" || ext === ".yml") {
+    // Bun ships a YAML parser; there is no YAML dependency otherwise
+    const yaml = (globalThis as { Bun?: { YAML?: { parse(text: string): unknown } } }).Bun?.YAML;
+    if (!yaml) {
+      throw new Error(`YAML scripts need the Bun runtime: ${filePath}`);
+    }
+    return yaml.parse(text);
+  }
+  return JSON.parse(text);
+}
+
+function validateRuns(value: unknown, field: string): string | null {
+  if (!Array.isArray(value)) return `"${field}" must be an array`;
+  for (const [index, run] of value.entries()) {
+    if (!run || typeof run !== "object" || !Array.isArray((run as ScriptRun).steps)) {
+      return `${field}[${index}] needs a "steps" array`;
+    }
+    const { match } = run as ScriptRun;
+    if (match !== undefined) {
+      if (typeof match !== "string") return `${field}[${index}].match must be a string`;
+      // Checked here so a bad pattern fails at load, not in the middle of a session
+      try {
+        new RegExp(match, "i");
+      } catch (error) {
+        return `${field}[${index}].match is not a valid regex: ${error instanceof Error ? error.message : String(error)}`;
+      }
+    }
+    for (const [stepIndex, step] of (run as ScriptRun).steps.entries()) {
+      if (!step || typeof step !== "object") {
+        return `${field}[${index}].steps[${stepIndex}] must be an object`;
+      }
+      if (step.delay !== undefined && (typeof step.delay !== "number" || step.delay < 0)) {
+        return `${field}[${index}].steps[${stepIndex}].delay must be a non-negative number`;
+      }
+      if (!step.event && !step.ask && !step.permission) {
+        return `${field}[${index}].steps[${stepIndex}] needs "event", "ask" or "permission"`;
+      }
+      if (step.event && typeof step.event.type !== "string") {
+        return `${field}[${index}].steps[${stepIndex}].event is missing "type"`;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Read and validate a backend script. Throws with the file path and the
+ * offending field on malformed input.
+ */
+export function loadBackendScript(filePath: string): BackendScript {
+  let parsed: unknown;
+  try {
+    parsed = parseScriptText(readFileSync(filePath, "utf-8"), filePath);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to read script ${filePath}: ${message}`);
+  }
+
+  if (!parsed || typeof parsed !== "object") {
+    throw new Error(`Invalid script ${filePath}: expected an object`);
+  }
+  const script = parsed as BackendScript;
+  const problem =
+    validateRuns(script.runs, "runs") ??
+    (script.ephemeral !== undefined ? validateRuns(script.ephemeral, "ephemeral") : null);
+  if (problem) {
+    throw new Error(`Invalid script ${filePath}: ${problem}`);
+  }
+  return script;
+}
+
+// ---------------------------------------------------------------------------
+// Backend
+// ---------------------------------------------------------------------------
+
+interface ScriptedSessionState {
+  info: SessionInfo;
+  transcript: TranscriptItem[];
+}
+
+export class ScriptedBackend implements AgentBackend {
+  private eventHandler: BackendEventHandler | null = null;
+  private userInputHandler: UserInputHandler | null = null;
+  private permissionHandler: PermissionRequestHandler | null = null;
+  private sessions: Map<string, ScriptedSessionState> = new Map();
+  private _currentModel: string | null = null;
+  private _availableModels: ModelDescription[] = [];
+  private _currentSessionId: string | null = null;
+  private currentRunId: string | null = null;
+  // Bumped on abort so an in-flight playback stops at its next step
+  private playbackGeneration = 0;
+  private nextRunIndex = 0;
+  private nextEphemeralIndex = 0;
+
+  constructor(private script: BackendScript) {}
+
+  onEvent(handler: BackendEventHandler): void {
+    this.eventHandler = handler;
+  }
+
+  onUserInputRequest(handler: UserInputHandler): void {
+    this.userInputHandler = handler;
+  }
+
+  onPermissionRequest(handler: PermissionRequestHandler): void {
+    this.permissionHandler = handler;
+  }
+
+  // Tools, agents, MCP servers, providers and reasoning effort only matter to a real model
+  setToolProvider(): void {}
+  setAgentProvider(): void {}
+  setMcpServers(): void {}
+  setProviders(): void {}
+  setReasoningEffortProvider(): void {}
+
+  get currentModel(): string | null {
+    return this._currentModel;
+  }
+
+  get availableModels(): ModelDescription[] {
+    return this._availableModels;
+  }
+
+  get currentSessionId(): string | null {
+    return this._currentSessionId;
+  }
+
+  private emit(event: HarnessEvent): void {
+    if (this.eventHandler) {
+      this.eventHandler(event);
+    }
+  }
+
+  async initialize(model?: string): Promise<void> {
+    const defaultModel = this.script.model ?? "scripted";
+    this._availableModels = this.script.models ?? [{ id: defaultModel, name: `${defaultModel} (scripted)` }];
+    if (model && !this._availableModels.some((m) => m.id === model)) {
+      throw new Error(`Unknown model: ${model}`);
+    }
+    this._currentModel = model ?? this.script.model ?? this._availableModels[0]?.id ?? null;
+
+    for (const session of this.script.sessions ?? []) {
+      this.sessions.set(session.id, {
+        info: { id: session.id, name: session.name ?? session.id, isCurrentProject: true },
+        transcript: (session.transcript ?? []).map((entry) =>
+          entry.role === "user" ? createUserMessage(entry.content) : createAssistantMessage(entry.content)
+        ),
+      });
+    }
+
+    // Start in a fresh session like the real adapter does
+    this._currentSessionId = this.addSession();
+  }
+
+  async shutdown(): Promise<void> {
+    this.playbackGeneration++;
+  }
+
+  async sendPrompt(prompt: string, runId: string): Promise<void> {
+    const run = this.pickRun(this.script.runs, prompt, "main");
+    this.currentRunId = runId;
+    this.currentSession()?.transcript.push(createUserMessage(prompt));
+
+    // Playback continues in the background; completion arrives as run.finished
+    void this.play(run, runId, (event) => {
+      if (event.type === "assistant.message") {
+        this.currentSession()?.transcript.push(event.message);
+      }
+      this.emit(event);
+    }).finally(() => {
+      if (this.currentRunId === runId) this.currentRunId = null;
+    });
+  }
+
+  async abort(): Promise<void> {
+    const runId = this.currentRunId;
+    this.playbackGeneration++;
+    this.currentRunId = null;
+
+    if (runId) {
+      this.emit({
+        type: "run.cancelled",
+        runId,
+        createdAt: new Date(),
+      });
+    }
+  }
+
+  async switchModel(modelId: string): Promise<void> {
+    if (!this._availableModels.some((m) => m.id === modelId)) {
+      throw new Error(`Unknown model: ${modelId}`);
+    }
+    this._currentModel = modelId;
+    this.emit({ type: "model.changed", model: modelId });
+  }
+
+  async setReasoningEffort(): Promise<void> {}
+
+  async listSessions(): Promise<SessionInfo[]> {
+    return Array.from(this.sessions.values()).map((session) => session.info);
+  }
+
+  async createNewSession(): Promise<string> {
+    if (this.currentRunId) {
+      throw new Error("Cannot create new session while processing");
+    }
+
+    const sessionId = this.addSession();
+    this._currentSessionId = sessionId;
+    this.emit({
+      type: "session.created",
+      sessionId,
+      sessionName: this.sessions.get(sessionId)!.info.name,
+    });
+    return sessionId;
+  }
+
+  async switchToSession(sessionId: string): Promise<void> {
+    if (this.currentRunId) {
+      throw new Error("Cannot switch session while processing");
+    }
+
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Unknown session: ${sessionId}`);
+    }
+
+    this._currentSessionId = sessionId;
+    this.emit({
+      type: "session.switched",
+      sessionId,
+      sessionName: session.info.name,
+      transcript: [...session.transcript],
+    });
+  }
+
+  async getSessionTranscript(sessionId: string): Promise<TranscriptItem[]> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Unknown session: ${sessionId}`);
+    }
+    return [...session.transcript];
+  }
+
+  async rewindToTurn(turn: number): Promise<void> {
+    if (this.currentRunId) {
+      throw new Error("Cannot rewind while processing");
+    }
+
+    const session = this.currentSession();
+    if (!session) {
+      throw new Error("No active session");
+    }
+
+    let seen = 0;
+    const index = session.transcript.findIndex(
+      (item) => item.kind === "message" && item.role === "user" && seen++ === turn
+    );
+    if (index !== -1) {
+      session.transcript.splice(index);
+    }
+  }
+
+  async runEphemeralPrompt(prompt: string, runId: string, options?: EphemeralPromptOptions): Promise<void> {
+    const run = this.pickRun(this.script.ephemeral ?? this.script.runs, prompt, "ephemeral");
+    await this.play(run, runId, options?.onEvent ?? ((event) => this.emit(event)));
+  }
+
+  // -------------------------------------------------------------------------
+  // Playback
+  // -------------------------------------------------------------------------
+
+  private currentSession(): ScriptedSessionState | undefined {
+    return this._currentSessionId ? this.sessions.get(this._currentSessionId) : undefined;
+  }
+
+  private addSession(): string {
+    const sessionId = `scripted-${Date.now().toString(36)}-${this.sessions.size}`;
+    this.sessions.set(sessionId, {
+      info: { id: sessionId, name: sessionId, createdAt: new Date(), isCurrentProject: true },
+      transcript: [],
+    });
+    return sessionId;
+  }
+
+  private pickRun(runs: ScriptRun[], prompt: string, kind: "main" | "ephemeral"): ScriptRun | null {
+    const matched = runs.find((run) => run.match && new RegExp(run.match, "i").test(prompt));
+    if (matched) return matched;
+
+    const unmatched = runs.filter((run) => !run.match);
+    if (unmatched.length === 0) return null;
+    if (kind === "main") {
+      return unmatched[this.nextRunIndex++ % unmatched.length];
+    }
+    return unmatched[this.nextEphemeralIndex++ % unmatched.length];
+  }
+
+  private async play(run: ScriptRun | null, runId: string, emit: (event: HarnessEvent) => void): Promise<void> {
+    const generation = this.playbackGeneration;
+    const isLive = () => generation === this.playbackGeneration;
+
+    if (!run) {
+      emit(createLogEvent("warn", "No scripted run matches this prompt", runId));
+      emit({ type: "assistant.message", runId, message: createAssistantMessage("(no scripted response)") });
+      emit({ type: "run.finished", runId, createdAt: new Date() });
+      return;
+    }
+
+    let finished = false;
+    for (const step of run.steps) {
+      if (step.delay && step.delay > 0) {
+        await new Promise((resolve) => setTimeout(resolve, step.delay));
+      }
+      if (!isLive()) return;
+
+      if (step.event) {
+        const event = this.hydrateEvent(step.event, runId);
+        emit(event);
+        if (event.type === "run.finished") finished = true;
+      } else if (step.ask && this.userInputHandler) {
+        const { answer } = await this.userInputHandler(step.ask);
+        emit(createLogEvent("debug", `Scripted question answered: ${answer}`, runId));
+      } else if (step.permission && this.permissionHandler) {
+        const outcome = await this.permissionHandler(step.permission);
+        emit(createLogEvent("debug", `Scripted permission ${outcome}`, runId));
+      }
+      if (!isLive()) return;
+    }
+
+    if (!finished) {
+      emit({ type: "run.finished", runId, createdAt: new Date() });
+    }
+  }
+
+  /** Fill in the fields a script may leave out. */
+  private hydrateEvent(raw: ScriptStep["event"] & {}, runId: string): HarnessEvent {
+    const event: Record<string, unknown> = { ...raw };
+
+    if (RUN_SCOPED_EVENTS.has(raw.type) && event.runId === undefined) {
+      event.runId = runId;
+    }
+    if (raw.type === "log" || raw.type === "run.finished" || raw.type === "run.cancelled") {
+      event.createdAt = event.createdAt ? new Date(event.createdAt as string) : new Date();
+    }
+    if (raw.type === "assistant.message") {
+      const message = event.message as Partial<ChatMessage> | undefined;
+      event.message = message
+        ? { ...createAssistantMessage(message.content ?? ""), ...message, createdAt: new Date() }
+        : createAssistantMessage(String(event.content ?? ""));
+      delete event.content;
+    }
+
+    return event as unknown as HarnessEvent;
+  }
+}
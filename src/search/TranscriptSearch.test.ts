@@ -0,0 +1,96 @@
+import { describe, expect, test } from "bun:test";
+import type { ChatMessage, ToolCallItem } from "../harness/events.js";
+import {
+  findTranscriptMatches,
+  matchSnippet,
+  searchableText,
+  searchSessionTranscript,
+  splitMatches,
+} from "./TranscriptSearch.js";
+
+const at = new Date("2026-03-04T05:06:07.000Z");
+
+function message(id: string, role: ChatMessage["role"], content: string): ChatMessage {
+  return { id, kind: "message", role, content, createdAt: at };
+}
+
+function toolCall(id: string, toolName: string, args: Record<string, unknown>, output?: string): ToolCallItem {
+  return {
+    id,
+    kind: "tool-call",
+    toolCallId: `call-${id}`,
+    toolName,
+    arguments: args,
+    progress: [],
+    status: "completed",
+    startedAt: at,
+    output,
+  };
+}
+
+const transcript = [
+  message("m1", "user", "Rename parseConfig to loadConfig"),
+  toolCall("t1", "edit", { path: "src/config.ts", old_str: "parseConfig(", new_str: "loadConfig(" }, "parseConfig renamed"),
+  toolCall("t2", "report_intent", { intent: "Renaming parseConfig" }),
+  toolCall("t3", "shell", { command: "npm test", timeout: 60 }, "ParseConfig tests pass"),
+  message("m2", "assistant", "Renamed PARSECONFIG everywhere."),
+];
+
+describe("searchableText", () => {
+  test("covers message content and tool arguments, not outputs", () => {
+    expect(searchableText(transcript[0])).toBe("Rename parseConfig to loadConfig");
+    expect(searchableText(transcript[3])).toBe("npm test\n60");
+    expect(searchableText(transcript[2])).toBe("");
+  });
+});
+
+describe("findTranscriptMatches", () => {
+  test("matches case-insensitively, in transcript order", () => {
+    expect(findTranscriptMatches(transcript, "  parseconfig ")).toEqual(["m1", "t1", "m2"]);
+    expect(findTranscriptMatches(transcript, "tests pass")).toEqual([]);
+    expect(findTranscriptMatches(transcript, "   ")).toEqual([]);
+  });
+});
+
+describe("splitMatches", () => {
+  test("keeps the original casing of each run", () => {
+    expect(splitMatches("Foo foo bar FOO", "foo")).toEqual([
+      { text: "Foo", match: true },
+      { text: " ", match: false },
+      { text: "foo", match: true },
+      { text: " bar ", match: false },
+      { text: "FOO", match: true },
+    ]);
+    expect(splitMatches("no hits", "x")).toEqual([{ text: "no hits", match: false }]);
+    expect(splitMatches("text", "")).toEqual([{ text: "text", match: false }]);
+  });
+});
+
+describe("matchSnippet", () => {
+  test("trims long text around the first match onto one line", () => {
+    const text = `${"a".repeat(60)}\nneedle\n${"b".repeat(60)}`;
+    expect(matchSnippet(text, "Needle")).toBe(`…${"a".repeat(39)} needle ${"b".repeat(39)}…`);
+    expect(matchSnippet("short needle text", "needle")).toBe("short needle text");
+    expect(matchSnippet("nothing here", "needle")).toBe("");
+  });
+});
+
+describe("searchSessionTranscript", () => {
+  test("returns labelled results, newest first", () => {
+    const results = searchSessionTranscript({ id: "s1", name: "Refactor" }, transcript, "parseConfig");
+    expect(results.map((r) => [r.itemId, r.label])).toEqual([
+      ["m2", "assistant"],
+      ["t1", "edit"],
+      ["m1", "user"],
+    ]);
+    expect(results[0]).toEqual({
+      sessionId: "s1",
+      sessionName: "Refactor",
+      itemId: "m2",
+      label: "assistant",
+      snippet: "Renamed PARSECONFIG everywhere.",
+      createdAt: at,
+    });
+    expect(searchSessionTranscript({ id: "s1", name: "Refactor" }, transcript, "")).toEqual([]);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Transcript search — case-insensitive text search over transcript items.
+ *
+ * Messages are searched by content and tool calls by their arguments, both in
+ * the current transcript (Ctrl+F) and across stored sessions. Tool outputs are
+ * left out: they are large and rarely what "where did we change X" is after.
+ */
+
+import type { TranscriptItem } from "../harness/events.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A transcript item in another (or the current) session that matches a query. */
+export interface SessionSearchResult {
+  sessionId: string;
+  sessionName: string;
+  itemId: string;
+  /** "user" / "assistant" for messages, the tool name for tool calls */
+  label: string;
+  snippet: string;
+  createdAt: Date;
+}
+
+/** Text split around matches, for highlighting. */
+export interface TextSegment {
+  text: string;
+  match: boolean;
+}
+
+const SNIPPET_RADIUS = 40;
+
+// Shown in the Plan & Progress pane instead of the transcript
+const HIDDEN_TOOLS = new Set(["report_intent"]);
+
+// ---------------------------------------------------------------------------
+// Matching
+// ---------------------------------------------------------------------------
+
+/** The text a transcript item is searched by. */
+export function searchableText(item: TranscriptItem): string {
+  if (item.kind === "message") return item.content;
+  if (HIDDEN_TOOLS.has(item.toolName) || !item.arguments) return "";
+  return Object.values(item.arguments)
+    .map((value) => (typeof value === "string" ? value : JSON.stringify(value)))
+    .join("\n");
+}
+
+/** IDs of the items matching `query`, in transcript order. */
+export function findTranscriptMatches(items: TranscriptItem[], query: string): string[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+  return items.filter((item) => searchableText(item).toLowerCase().includes(needle)).map((item) => item.id);
+}
+
+/** Split `text` into matching and non-matching runs. */
+export function splitMatches(text: string, query: string): TextSegment[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [{ text, match: false }];
+
+  const segments: TextSegment[] = [];
+  const haystack = text.toLowerCase();
+  let from = 0;
+  for (let at = haystack.indexOf(needle); at !== -1; at = haystack.indexOf(needle, from)) {
+    if (at > from) segments.push({ text: text.slice(from, at), match: false });
+    segments.push({ text: text.slice(at, at + needle.length), match: true });
+    from = at + needle.length;
+  }
+  if (from < text.length) segments.push({ text: text.slice(from), match: false });
+  return segments;
+}
+
+/** One line of context around the first match of `query` in `text`. */
+export function matchSnippet(text: string, query: string): string {
+  const at = text.toLowerCase().indexOf(query.trim().toLowerCase());
+  if (at === -1) return "";
+  const start = Math.max(0, at - SNIPPET_RADIUS);
+  const end = Math.min(text.length, at + query.trim().length + SNIPPET_RADIUS);
+  const snippet = text.slice(start, end).replace(/\s+/g, " ").trim();
+  return (start > 0 ? "…" : "") + snippet + (end < text.length ? "…" : "");
+}
+
+/** Search one session's transcript, newest matches first. */
+export function searchSessionTranscript(
+  session: { id: string; name: string },
+  items: TranscriptItem[],
+  query: string
+): SessionSearchResult[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+
+  const results: SessionSearchResult[] = [];
+  for (const item of items) {
+    const text = searchableText(item);
+    if (!text.toLowerCase().includes(needle)) continue;
+    results.push({
+      sessionId: session.id,
+      sessionName: session.name,
+      itemId: item.id,
+      label: item.kind === "message" ? item.role : item.toolName,
+      snippet: matchSnippet(text, query),
+      createdAt: item.kind === "message" ? item.createdAt : item.startedAt,
+    });
+  }
+  return results.reverse();
+}
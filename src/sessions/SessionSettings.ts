@@ -0,0 +1,108 @@
+/**
+ * Session settings — per-session preferences that outlive the process.
+ *
+ * Stored in the project config so resumed sessions pick them up again:
+ *   <project>/.anvil/sessions.json
+ * It's per-user runtime state, git-ignored like the journal.
+ *
+ *   { "sessions": { "<session-id>": { "reasoningEffort": "high" } } }
+ *
+ * Forked sessions also record their parent, and carry the parent's
+ * conversation (`forkSeed`) until it has been sent with their first prompt.
+ */
+
+import { getConfigPath, readJsonConfig, writeJsonConfig } from "../utils/config.js";
+import type { ReasoningEffort } from "../harness/backend.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface SessionSettings {
+  reasoningEffort?: ReasoningEffort;
+  parentSessionId?: string;
+  forkedFromItemId?: string;
+  forkSeed?: string;
+}
+
+interface SessionsFile {
+  sessions?: Record<string, SessionSettings>;
+}
+
+const SESSIONS_FILE = "sessions.json";
+
+export const REASONING_EFFORTS: ReasoningEffort[] = ["low", "medium", "high"];
+
+export function isReasoningEffort(value: string): value is ReasoningEffort {
+  return (REASONING_EFFORTS as string[]).includes(value);
+}
+
+// ---------------------------------------------------------------------------
+// Store
+// ---------------------------------------------------------------------------
+
+export class SessionSettingsStore {
+  private sessions: Record<string, SessionSettings> = {};
+
+  /** Load settings from disk. Returns an error message for a malformed file. */
+  load(): string | null {
+    try {
+      const file = readJsonConfig<SessionsFile>(getConfigPath("project", SESSIONS_FILE));
+      this.sessions = file?.sessions ?? {};
+      return null;
+    } catch (error) {
+      this.sessions = {};
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  get(sessionId: string): SessionSettings {
+    return this.sessions[sessionId] ?? {};
+  }
+
+  getReasoningEffort(sessionId: string): ReasoningEffort | null {
+    const effort = this.get(sessionId).reasoningEffort;
+    return effort && isReasoningEffort(effort) ? effort : null;
+  }
+
+  setReasoningEffort(sessionId: string, effort: ReasoningEffort | null): void {
+    this.update(sessionId, { reasoningEffort: effort ?? undefined });
+  }
+
+  getParentSessionId(sessionId: string): string | null {
+    return this.get(sessionId).parentSessionId ?? null;
+  }
+
+  setFork(sessionId: string, fork: { parentSessionId: string; forkedFromItemId: string; forkSeed: string }): void {
+    this.update(sessionId, fork);
+  }
+
+  /** The parent conversation a fork still has to send with its first prompt. */
+  getForkSeed(sessionId: string): string | null {
+    return this.get(sessionId).forkSeed ?? null;
+  }
+
+  clearForkSeed(sessionId: string): void {
+    if (this.get(sessionId).forkSeed !== undefined) {
+      this.update(sessionId, { forkSeed: undefined });
+    }
+  }
+
+  // Undefined values remove a setting; sessions left with none are dropped
+  private update(sessionId: string, patch: Partial<SessionSettings>): void {
+    const next: Record<string, unknown> = { ...this.get(sessionId), ...patch };
+    for (const key of Object.keys(next)) {
+      if (next[key] === undefined) delete next[key];
+    }
+    if (Object.keys(next).length > 0) {
+      this.sessions[sessionId] = next as SessionSettings;
+    } else {
+      delete this.sessions[sessionId];
+    }
+    this.save();
+  }
+
+  private save(): void {
+    writeJsonConfig(getConfigPath("project", SESSIONS_FILE), { sessions: this.sessions });
+  }
+}
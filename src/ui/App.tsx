@@ -1,19 +1,32 @@
 import { useKeyboard, useTerminalDimensions } from '@opentui/react'
 import type { CliRenderer } from '@opentui/core'
-import { useCallback, useEffect, useRef, useState } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import type { Harness, HarnessState } from '../harness/Harness.js'
+import type { ChatMessage, ForkMode, PermissionDecision, ResendMessageAction } from '../harness/events.js'
+import type { ExportOptions } from '../export/TranscriptExport.js'
+import { findTranscriptMatches, type SessionSearchResult } from '../search/TranscriptSearch.js'
+import type { AgentDefinition } from '../agents/AgentLoader.js'
 import { ChatPane } from './panes/ChatPane.js'
-import { InputBar } from './panes/InputBar.js'
+import { InputBar, type SubmitData } from './panes/InputBar.js'
 import { StartScreen } from './panes/StartScreen.js'
 import { QuestionModal } from './panes/QuestionModal.js'
 import { ModelSelector } from './panes/ModelSelector.js'
 import { SessionSwitcher } from './panes/SessionSwitcher.js'
+import { QueuePanel } from './panes/QueuePanel.js'
+import { ExportModal } from './panes/ExportModal.js'
+import { SearchBar } from './panes/SearchBar.js'
+import { SessionSearch } from './panes/SessionSearch.js'
+import { MessageActionsBar } from './panes/MessageActionsBar.js'
 import { SkillsPane } from './panes/SkillsPane.js'
+import { AgentsPane } from './panes/AgentsPane.js'
 import { ConfirmModal } from './panes/ConfirmModal.js'
+import { PermissionModal } from './panes/PermissionModal.js'
 import { CommandModal } from './panes/CommandModal.js'
+import { UndoModal } from './panes/UndoModal.js'
 import { Sidebar } from './panes/Sidebar.js'
 import { DebugOverlay } from './panes/DebugOverlay.js'
 import { getTheme } from './theme.js'
+import { REASONING_EFFORTS } from '../sessions/SessionSettings.js'
 import { getGitInfo, getGitInfoAsync, type GitInfo } from '../utils/git.js'
 import { getModifiedFiles, getModifiedFilesAsync, type FileChange } from '../utils/gitDiff.js'
 
@@ -41,15 +54,49 @@ function useSpinner(active: boolean): string {
 export function App({ harness, renderer }: AppProps) {
   const { width, height } = useTerminalDimensions();
   const [state, setState] = useState<HarnessState>(harness.getState());
-  const [hasStarted, setHasStarted] = useState(false);
+  // A replayed session opens straight into its transcript
+  const [hasStarted, setHasStarted] = useState(() => harness.getState().transcript.length > 0);
   const [gitInfo, setGitInfo] = useState<GitInfo>(getGitInfo());
   const [modifiedFiles, setModifiedFiles] = useState<FileChange[]>(getModifiedFiles());
   const [showModelSelector, setShowModelSelector] = useState(false);
   const [showSessionSwitcher, setShowSessionSwitcher] = useState(false);
   const [showSkillsPane, setShowSkillsPane] = useState(false);
+  const [showAgentsPane, setShowAgentsPane] = useState(false);
+  const [showQueuePanel, setShowQueuePanel] = useState(false);
+  const [showExportModal, setShowExportModal] = useState(false);
+  // Ctrl+F: in-transcript search bar, and the all-sessions search it can hand off to
+  const [showSearch, setShowSearch] = useState(false);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [focusedItemId, setFocusedItemId] = useState<string | null>(null);
+  const [showSessionSearch, setShowSessionSearch] = useState(false);
+  // Ctrl+K: a message picked in the transcript, for forking or editing
+  const [selectedMessageId, setSelectedMessageId] = useState<string | null>(null);
+  // An earlier prompt being edited in the input bar, resent on submit
+  const [editTarget, setEditTarget] = useState<{ itemId: string; mode: ResendMessageAction["mode"] } | null>(null);
+  const [draft, setDraft] = useState<{ id: string; text: string } | null>(null);
+  const draftCounterRef = useRef(0);
+  const [inputPickerOpen, setInputPickerOpen] = useState(false);
   const [showCommitConfirm, setShowCommitConfirm] = useState(false);
   const [inputBarHeight, setInputBarHeight] = useState(MIN_INPUT_BAR_HEIGHT);
   const spinner = useSpinner(state.status === "running");
+  const pendingPermission = state.pendingPermissions[0] ?? null;
+  const currentModelInfo = state.availableModels.find((m) => m.id === state.currentModel);
+  const searchMatches = useMemo(
+    () => (showSearch ? findTranscriptMatches(state.transcript, searchQuery) : []),
+    [showSearch, state.transcript, searchQuery]
+  );
+  const searchIndex = focusedItemId ? searchMatches.indexOf(focusedItemId) : -1;
+  const messages = useMemo(
+    () => state.transcript.filter(
+      (item): item is ChatMessage => item.kind === "message" && (item.role === "user" || item.role === "assistant")
+    ),
+    [state.transcript]
+  );
+  const canRewindHistory = harness.canRewindHistory();
+  const editBanner = editTarget
+    ? `✎ Editing an earlier message — Enter resends ${editTarget.mode === "in-place" ? "in place, dropping later turns" : "in a new fork"} • Esc cancel`
+    : "";
+  const selectedMessageIndex = selectedMessageId ? messages.findIndex((m) => m.id === selectedMessageId) : -1;
 
   // Coalesce rapid events into a single setState per microtask
   const rafRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -83,15 +130,27 @@ export function App({ harness, renderer }: AppProps) {
   }, []);
 
   const handleSubmit = useCallback(
-    (data: { text: string; images?: string[] }) => {
+    (data: SubmitData) => {
       if (!hasStarted) {
         setHasStarted(true);
       }
-      harness.dispatch({ type: "submit.prompt", text: data.text, images: data.images });
+      if (editTarget) {
+        setEditTarget(null);
+        harness.dispatch({
+          type: "message.resend",
+          itemId: editTarget.itemId,
+          text: data.text,
+          mode: editTarget.mode,
+          images: data.images,
+          attachments: data.attachments,
+        });
+      } else {
+        harness.dispatch({ type: "submit.prompt", text: data.text, images: data.images, attachments: data.attachments });
+      }
       // Reset input bar height when submitting
       setInputBarHeight(MIN_INPUT_BAR_HEIGHT);
     },
-    [harness, hasStarted]
+    [harness, hasStarted, editTarget]
   );
 
   const handleCancel = useCallback(() => {
@@ -128,6 +187,22 @@ export function App({ harness, renderer }: AppProps) {
     setShowSkillsPane(false);
   }, []);
 
+  const handleSelectAgent = useCallback((agent: AgentDefinition) => {
+    setShowAgentsPane(false);
+    // Custom agents run as subagents, so ask the model to delegate to it
+    harness.dispatch({
+      type: "submit.prompt",
+      text: `Use the ${agent.name} agent`,
+    });
+    if (!hasStarted) {
+      setHasStarted(true);
+    }
+  }, [harness, hasStarted]);
+
+  const handleCloseAgentsPane = useCallback(() => {
+    setShowAgentsPane(false);
+  }, []);
+
   const handleSelectSession = useCallback((sessionId: string) => {
     harness.dispatch({ type: "session.switch", sessionId });
     setHasStarted(true);
@@ -141,6 +216,114 @@ export function App({ harness, renderer }: AppProps) {
     setShowSessionSwitcher(false);
   }, []);
 
+  const handleCloseQueuePanel = useCallback(() => {
+    setShowQueuePanel(false);
+  }, []);
+
+  const handleEditQueued = useCallback((id: string, text: string) => {
+    harness.dispatch({ type: "queue.edit", id, text });
+  }, [harness]);
+
+  const handleMoveQueued = useCallback((id: string, offset: number) => {
+    harness.dispatch({ type: "queue.move", id, offset });
+  }, [harness]);
+
+  const handleRemoveQueued = useCallback((id: string) => {
+    harness.dispatch({ type: "queue.remove", id });
+  }, [harness]);
+
+  const handleSendQueuedNow = useCallback((id: string) => {
+    harness.dispatch({ type: "queue.sendNow", id });
+  }, [harness]);
+
+  const handleExport = useCallback((options: ExportOptions) => {
+    setShowExportModal(false);
+    harness.dispatch({ type: "export.transcript", ...options });
+  }, [harness]);
+
+  const handleCloseExportModal = useCallback(() => {
+    setShowExportModal(false);
+  }, []);
+
+  const handleSearchQueryChange = useCallback((query: string) => {
+    setSearchQuery(query);
+    // Start from the newest match
+    const matches = findTranscriptMatches(harness.getState().transcript, query);
+    setFocusedItemId(matches[matches.length - 1] ?? null);
+  }, [harness]);
+
+  const stepSearch = useCallback((offset: number) => {
+    if (searchMatches.length === 0) return;
+    const from = searchIndex === -1 ? searchMatches.length : searchIndex;
+    const next = (from + offset + searchMatches.length) % searchMatches.length;
+    setFocusedItemId(searchMatches[next]);
+  }, [searchMatches, searchIndex]);
+
+  const handleSearchNext = useCallback(() => stepSearch(1), [stepSearch]);
+  const handleSearchPrevious = useCallback(() => stepSearch(-1), [stepSearch]);
+
+  const handleCloseSearch = useCallback(() => {
+    setShowSearch(false);
+    setSearchQuery("");
+    setFocusedItemId(null);
+  }, []);
+
+  const handleSearchAllSessions = useCallback(() => {
+    setShowSearch(false);
+    setShowSessionSearch(true);
+  }, []);
+
+  const handleSessionSearch = useCallback((query: string) => harness.searchSessions(query), [harness]);
+
+  const handleOpenSearchResult = useCallback(async (result: SessionSearchResult, query: string) => {
+    setShowSessionSearch(false);
+    if (result.sessionId !== harness.getState().currentSessionId) {
+      await harness.dispatch({ type: "session.switch", sessionId: result.sessionId });
+      if (harness.getState().currentSessionId !== result.sessionId) return;
+    }
+    setHasStarted(true);
+    // Reopen the search bar on the match so next/previous keep working
+    setSearchQuery(query);
+    setFocusedItemId(result.itemId);
+    setShowSearch(true);
+  }, [harness]);
+
+  const handleCloseSessionSearch = useCallback(() => {
+    setShowSessionSearch(false);
+    setSearchQuery("");
+    setFocusedItemId(null);
+  }, []);
+
+  const handleMoveMessageSelection = useCallback((offset: number) => {
+    if (messages.length === 0) return;
+    const from = selectedMessageIndex === -1 ? messages.length : selectedMessageIndex;
+    const next = Math.max(0, Math.min(messages.length - 1, from + offset));
+    setSelectedMessageId(messages[next].id);
+  }, [messages, selectedMessageIndex]);
+
+  const handleForkSession = useCallback((mode: ForkMode) => {
+    if (!selectedMessageId) return;
+    setSelectedMessageId(null);
+    harness.dispatch({ type: "session.fork", itemId: selectedMessageId, mode });
+  }, [harness, selectedMessageId]);
+
+  const handleEditMessage = useCallback((mode: ResendMessageAction["mode"]) => {
+    const message = messages[selectedMessageIndex];
+    if (!message || message.role !== "user") return;
+    setSelectedMessageId(null);
+    setEditTarget({ itemId: message.id, mode });
+    setDraft({ id: `edit-${++draftCounterRef.current}`, text: message.content });
+  }, [messages, selectedMessageIndex]);
+
+  const handleCancelEdit = useCallback(() => {
+    setEditTarget(null);
+    setDraft({ id: `edit-${++draftCounterRef.current}`, text: "" });
+  }, []);
+
+  const handleCloseMessageSelection = useCallback(() => {
+    setSelectedMessageId(null);
+  }, []);
+
   const handleInputHeightChange = useCallback((height: number) => {
     setInputBarHeight(height);
   }, []);
@@ -159,16 +342,25 @@ export function App({ harness, renderer }: AppProps) {
     [harness, state.pendingQuestion]
   );
 
+  const handleRespondPermission = useCallback(
+    (decision: PermissionDecision) => {
+      if (pendingPermission) {
+        harness.dispatch({
+          type: "permission.respond",
+          requestId: pendingPermission.requestId,
+          decision,
+        });
+      }
+    },
+    [harness, pendingPermission]
+  );
+
   const handleSmartCommitConfirm = useCallback(() => {
     setShowCommitConfirm(false);
     if (!hasStarted) {
       setHasStarted(true);
     }
-    const prompt = `Categorize the current uncommitted changes in this repository, create a distinct commit for each logical category with a descriptive commit message, and push all commits to the remote. Show me what you're doing at each step.`;
-    harness.runEphemeralPrompt(prompt, {
-      model: "gemini-3-flash",
-      displayText: "[Smart Commit & Push]",
-    });
+    harness.runSmartCommit();
   }, [harness, hasStarted]);
 
   const handleSmartCommitCancel = useCallback(() => {
@@ -179,9 +371,25 @@ export function App({ harness, renderer }: AppProps) {
     harness.dispatch({ type: "ephemeral.close" });
   }, [harness]);
 
+  const handlePreviewCheckpoint = useCallback((checkpointId: string) => {
+    harness.dispatch({ type: "undo.preview", checkpointId });
+  }, [harness]);
+
+  const handleRestoreCheckpoint = useCallback((checkpointId: string) => {
+    harness.dispatch({ type: "undo.restore", checkpointId });
+  }, [harness]);
+
+  const handleCloseUndo = useCallback(() => {
+    harness.dispatch({ type: "undo.close" });
+  }, [harness]);
+
   useKeyboard((key) => {
-    if (state.pendingQuestion || showModelSelector || showSkillsPane || showSessionSwitcher || showCommitConfirm || state.ephemeralRun) return;
+    if (state.pendingQuestion || pendingPermission || showModelSelector || showSkillsPane || showAgentsPane || showSessionSwitcher || showQueuePanel || showExportModal || showSessionSearch || showCommitConfirm || state.ephemeralRun || state.undo || inputPickerOpen || showSearch || selectedMessageId) return;
 
+    if (key.name === "escape" && editTarget) {
+      handleCancelEdit();
+      return;
+    }
     if (key.name === "escape") {
       renderer.destroy();
       process.exit(0);
@@ -197,6 +405,17 @@ export function App({ harness, renderer }: AppProps) {
     if (key.ctrl && key.name === "s") {
       setShowSkillsPane(true);
     }
+    if (key.ctrl && key.name === "t") {
+      setShowAgentsPane(true);
+    }
+    if (key.ctrl && key.name === "r") {
+      if (state.status !== "running" && currentModelInfo?.reasoning) {
+        // Cycle default → low → medium → high → default
+        const levels = [null, ...REASONING_EFFORTS];
+        const next = levels[(levels.indexOf(state.reasoningEffort) + 1) % levels.length];
+        harness.dispatch({ type: "set.reasoningEffort", effort: next });
+      }
+    }
     if (key.ctrl && key.name === "n") {
       if (state.status !== "running") {
         handleNewSession();
@@ -210,6 +429,26 @@ export function App({ harness, renderer }: AppProps) {
         });
       }
     }
+    if (key.ctrl && key.name === "q") {
+      setShowQueuePanel(true);
+    }
+    if (key.ctrl && key.name === "f") {
+      if (hasStarted && state.transcript.length > 0) {
+        setShowSearch(true);
+      } else {
+        setShowSessionSearch(true);
+      }
+    }
+    if (key.ctrl && key.name === "k") {
+      if (hasStarted && messages.length > 0) {
+        setSelectedMessageId(messages[messages.length - 1].id);
+      }
+    }
+    if (key.ctrl && key.name === "x") {
+      if (state.transcript.length > 0) {
+        setShowExportModal(true);
+      }
+    }
     if (key.ctrl && key.name === "g") {
       if (state.status !== "running" && gitInfo.hasChanges) {
         setShowCommitConfirm(true);
@@ -220,12 +459,24 @@ export function App({ harness, renderer }: AppProps) {
   const theme = getTheme();
   const c = theme.colors; // Shorthand for cleaner code
 
-  const statusColor = state.status === "running" ? c.warning : c.success;
-  const statusText = state.status === "running" ? "Processing" : "Ready";
+  const { connection } = state;
+  const statusColor =
+    connection.state === "disconnected" ? c.error
+    : connection.state === "reconnecting" || state.status === "running" ? c.warning
+    : c.success;
+  const statusText =
+    connection.state === "disconnected" ? "Disconnected"
+    : connection.state === "reconnecting" ? `Reconnecting (attempt ${connection.attempt ?? 1})`
+    : state.status === "running" ? "Processing"
+    : "Ready";
 
   const modelDisplay = state.currentModel
     ? state.currentModel.split("/").pop() || state.currentModel
     : "loading...";
+  const effortDisplay = currentModelInfo?.reasoning ? state.reasoningEffort ?? "default" : null;
+  const servedModelDisplay = state.servedModel
+    ? state.servedModel.split("/").pop() || state.servedModel
+    : null;
 
   const contentHeight = Math.max(1, height - STATUS_BAR_HEIGHT - 1);
 
@@ -241,6 +492,8 @@ export function App({ harness, renderer }: AppProps) {
               isStreaming={state.status === "running"}
               height={contentHeight - inputBarHeight}
               theme={theme}
+              searchQuery={showSearch ? searchQuery : undefined}
+              focusedItemId={showSearch ? focusedItemId : selectedMessageId}
             />
             {state.pendingQuestion ? (
               <QuestionModal
@@ -248,26 +501,60 @@ export function App({ harness, renderer }: AppProps) {
                 onAnswer={handleAnswerQuestion}
                 theme={theme}
               />
+            ) : showSearch ? (
+              <SearchBar
+                query={searchQuery}
+                onQueryChange={handleSearchQueryChange}
+                matchCount={searchMatches.length}
+                currentIndex={searchIndex}
+                onNext={handleSearchNext}
+                onPrevious={handleSearchPrevious}
+                onSearchAllSessions={handleSearchAllSessions}
+                onClose={handleCloseSearch}
+                onHeightChange={handleInputHeightChange}
+                theme={theme}
+              />
+            ) : selectedMessageId ? (
+              <MessageActionsBar
+                selectedIndex={selectedMessageIndex}
+                messageCount={messages.length}
+                preview={messages[selectedMessageIndex]?.content ?? ""}
+                onMove={handleMoveMessageSelection}
+                onFork={handleForkSession}
+                canEdit={messages[selectedMessageIndex]?.role === "user"}
+                canEditInPlace={canRewindHistory}
+                onEdit={handleEditMessage}
+                onClose={handleCloseMessageSelection}
+                onHeightChange={handleInputHeightChange}
+                theme={theme}
+                width={Math.floor(width * 0.825)}
+              />
             ) : (
               <InputBar
                 onSubmit={handleSubmit}
                 disabled={state.status === "running"}
-                suppressKeys={showModelSelector || showSkillsPane || showSessionSwitcher || showCommitConfirm || !!state.ephemeralRun}
+                suppressKeys={showModelSelector || showSkillsPane || showAgentsPane || showSessionSwitcher || showQueuePanel || showExportModal || showSessionSearch || showCommitConfirm || !!state.ephemeralRun || !!state.undo || !!pendingPermission}
                 queuedCount={state.messageQueue.length}
+                visionSupported={currentModelInfo?.vision}
                 theme={theme}
                 onHeightChange={handleInputHeightChange}
+                onPickerChange={setInputPickerOpen}
+                draft={draft}
+                banner={editTarget ? editBanner : undefined}
               />
             )}
           </box>
           <box flexDirection="column" width="17.5%">
             <Sidebar
               contextInfo={state.contextInfo}
+              contextBudget={state.contextBudget}
               files={modifiedFiles}
               currentIntent={state.currentIntent}
               currentTodo={state.currentTodo}
               currentPlan={state.currentPlan}
               subagents={state.subagents}
               skills={state.skills}
+              mcpServers={state.mcpServers}
               height={contentHeight}
               width={Math.floor(width * 0.175)}
               theme={theme}
@@ -279,9 +566,10 @@ export function App({ harness, renderer }: AppProps) {
           <StartScreen
             onSubmit={handleSubmit}
             disabled={state.status === "running"}
-            suppressKeys={showModelSelector || showSkillsPane || showSessionSwitcher || showCommitConfirm || !!state.ephemeralRun}
+            suppressKeys={showModelSelector || showSkillsPane || showAgentsPane || showSessionSwitcher || showQueuePanel || showExportModal || showSessionSearch || showCommitConfirm || !!state.ephemeralRun || !!state.undo || !!pendingPermission}
             theme={theme}
             height={contentHeight}
+            onPickerChange={setInputPickerOpen}
           />
         </box>
       )}
@@ -302,6 +590,14 @@ export function App({ harness, renderer }: AppProps) {
           <span fg={statusColor}>{statusText}</span>
           <span>  </span>
           <span fg={c.link}>{modelDisplay}</span>
+          {effortDisplay && (
+            <span fg={c.accent}> 🧠 {effortDisplay}</span>
+          )}
+          {servedModelDisplay && (
+            servedModelDisplay === modelDisplay
+              ? <span fg={c.success}> ✓</span>
+              : <span fg={c.warning}> (last run: {servedModelDisplay})</span>
+          )}
           {gitInfo.branch && (
             <>
               <span>  </span>
@@ -321,7 +617,20 @@ export function App({ harness, renderer }: AppProps) {
           <span fg={c.subtext0}>esc</span><span fg={c.text}> quit  </span>
           <span fg={c.subtext0}>^N</span><span fg={c.text}> new  </span>
           <span fg={c.subtext0}>^O</span><span fg={c.text}> sessions  </span>
+          <span fg={c.subtext0}>^F</span><span fg={c.text}> search  </span>
+          {messages.length > 0 && (
+            <><span fg={c.subtext0}>^K</span><span fg={c.text}> pick message  </span></>
+          )}
           <span fg={c.subtext0}>S-Tab</span><span fg={c.text}> model  </span>
+          {effortDisplay && (
+            <><span fg={c.subtext0}>^R</span><span fg={c.text}> effort  </span></>
+          )}
+          {state.messageQueue.length > 0 && (
+            <><span fg={c.subtext0}>^Q</span><span fg={c.text}> queue ({state.messageQueue.length})  </span></>
+          )}
+          {state.transcript.length > 0 && (
+            <><span fg={c.subtext0}>^X</span><span fg={c.text}> export  </span></>
+          )}
           {gitInfo.hasChanges && (
             <><span fg={c.subtext0}>^G</span><span fg={c.text}> commit  </span></>
           )}
@@ -354,6 +663,18 @@ export function App({ harness, renderer }: AppProps) {
         />
       )}
 
+      {/* Agents Pane Modal */}
+      {showAgentsPane && (
+        <AgentsPane
+          agents={harness.getAgents()}
+          onSelect={handleSelectAgent}
+          onClose={handleCloseAgentsPane}
+          theme={theme}
+          width={width}
+          height={height - 1}
+        />
+      )}
+
       {/* Session Switcher Modal */}
       {showSessionSwitcher && (
         <SessionSwitcher
@@ -368,6 +689,47 @@ export function App({ harness, renderer }: AppProps) {
         />
       )}
 
+      {/* Queue Panel Modal */}
+      {showQueuePanel && (
+        <QueuePanel
+          queue={state.messageQueue}
+          isRunning={state.status === "running"}
+          onEdit={handleEditQueued}
+          onMove={handleMoveQueued}
+          onRemove={handleRemoveQueued}
+          onSendNow={handleSendQueuedNow}
+          onClose={handleCloseQueuePanel}
+          theme={theme}
+          width={width}
+          height={height - 1}
+        />
+      )}
+
+      {/* All-sessions Search Modal */}
+      {showSessionSearch && (
+        <SessionSearch
+          initialQuery={searchQuery}
+          currentSessionId={state.currentSessionId}
+          onSearch={handleSessionSearch}
+          onOpen={handleOpenSearchResult}
+          onClose={handleCloseSessionSearch}
+          theme={theme}
+          width={width}
+          height={height - 1}
+        />
+      )}
+
+      {/* Export Modal */}
+      {showExportModal && (
+        <ExportModal
+          onExport={handleExport}
+          onClose={handleCloseExportModal}
+          theme={theme}
+          width={width}
+          height={height - 1}
+        />
+      )}
+
       {/* Smart Commit Confirm Modal */}
       {showCommitConfirm && (
         <ConfirmModal
@@ -394,6 +756,33 @@ export function App({ harness, renderer }: AppProps) {
         />
       )}
 
+      {/* Undo Modal (/undo) */}
+      {state.undo && (
+        <UndoModal
+          undo={state.undo}
+          isRunning={state.status === "running"}
+          onPreview={handlePreviewCheckpoint}
+          onRestore={handleRestoreCheckpoint}
+          onClose={handleCloseUndo}
+          theme={theme}
+          width={width}
+          height={height - 1}
+        />
+      )}
+
+      {/* Permission Modal - rendered last so it stays above ephemeral runs */}
+      {pendingPermission && (
+        <PermissionModal
+          key={pendingPermission.requestId}
+          permission={pendingPermission}
+          queuedCount={state.pendingPermissions.length - 1}
+          onRespond={handleRespondPermission}
+          theme={theme}
+          width={width}
+          height={height - 1}
+        />
+      )}
+
       <DebugOverlay theme={theme} width={width} height={height - 1} />
     </box>
   );
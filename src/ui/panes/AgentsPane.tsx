@@ -0,0 +1,145 @@
+import { useKeyboard } from '@opentui/react';
+import { useState } from 'react';
+import type { Theme } from '../theme.js';
+import type { AgentDefinition } from '../../agents/AgentLoader.js';
+
+interface AgentsPaneProps {
+  agents: AgentDefinition[];
+  onSelect: (agent: AgentDefinition) => void;
+  onClose: () => void;
+  theme: Theme;
+  width: number;
+  height: number;
+}
+
+export function AgentsPane({
+  agents,
+  onSelect,
+  onClose,
+  theme,
+  width,
+  height,
+}: AgentsPaneProps) {
+  const c = theme.colors;
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  useKeyboard((key) => {
+    if (key.name === 'escape' || key.name === 'q') {
+      onClose();
+      return;
+    }
+    if (key.name === 'up') {
+      setSelectedIndex((i) => Math.max(0, i - 1));
+      return;
+    }
+    if (key.name === 'down') {
+      setSelectedIndex((i) => Math.min(agents.length - 1, i + 1));
+      return;
+    }
+    if (key.name === 'return') {
+      if (agents[selectedIndex]) {
+        onSelect(agents[selectedIndex]);
+      }
+      return;
+    }
+  });
+
+  const modalWidth = Math.min(80, Math.floor(width * 0.8));
+  const modalHeight = Math.min(30, Math.floor(height * 0.8));
+  const left = Math.floor((width - modalWidth) / 2);
+  const top = Math.floor((height - modalHeight) / 2);
+
+  return (
+    <box
+      position="absolute"
+      top={0}
+      left={0}
+      width={width}
+      height={height}
+    >
+      <box
+        position="absolute"
+        top={top}
+        left={left}
+        width={modalWidth}
+        height={modalHeight}
+        flexDirection="column"
+        backgroundColor={c.mantle}
+        borderStyle="double"
+        borderColor={c.primary}
+        padding={1}
+      >
+        {/* Header */}
+        <box marginBottom={1}>
+          <text>
+            <span fg={c.primary}><b>🤖 Agents</b></span>
+            {agents.length > 0 && (
+              <span fg={c.subtext0}> - Select to delegate</span>
+            )}
+          </text>
+        </box>
+
+        {/* Content */}
+        <box
+          flexDirection="column"
+          marginBottom={1}
+        >
+          {agents.length === 0 ? (
+            <box>
+              <text fg={c.subtle}>No custom agents. Add markdown files to .agents/agents/</text>
+            </box>
+          ) : (
+            agents.map((agent, index) => {
+              const isSelected = selectedIndex === index;
+              return (
+                <box
+                  key={agent.name}
+                  marginBottom={index < agents.length - 1 ? 1 : 0}
+                  flexDirection="column"
+                >
+                  <text>
+                    <span fg={isSelected ? c.primary : c.subtle}>
+                      {isSelected ? '› ' : '  '}
+                    </span>
+                    <span fg={isSelected ? c.success : c.subtext0}>
+                      <b>{agent.displayName}</b>
+                    </span>
+                    {agent.displayName !== agent.name && (
+                      <span fg={c.subtext0}> ({agent.name})</span>
+                    )}
+                  </text>
+                  {agent.description && (
+                    <text fg={c.subtext0}>
+                      {'  '}{agent.description}
+                    </text>
+                  )}
+                  {isSelected && (
+                    <>
+                      <text fg={c.subtext0}>
+                        {'  '}Tools: {agent.tools ? agent.tools.join(', ') : 'all'}
+                      </text>
+                      <text fg={c.subtext0}>
+                        {'  '}Path: {agent.filePath}
+                      </text>
+                    </>
+                  )}
+                </box>
+              );
+            })
+          )}
+        </box>
+
+        {/* Footer */}
+        <box marginTop={1}>
+          <text fg={c.subtle}>
+            {agents.length > 0 ? (
+              <span>↑↓ navigate • Enter delegate • Esc cancel</span>
+            ) : (
+              <span>Press <span fg={c.primary}>esc</span> or <span fg={c.primary}>q</span> to close</span>
+            )}
+          </text>
+        </box>
+      </box>
+    </box>
+  );
+}
@@ -1,9 +1,11 @@
 import { createPatch } from "diff";
-import { getTreeSitterClient, extToFiletype } from "@opentui/core";
-import { memo } from "react";
+import { getTreeSitterClient, extToFiletype, type ScrollBoxRenderable } from "@opentui/core";
+import { memo, useEffect, useRef } from "react";
 import type { ChatMessage, ToolCallItem, TranscriptItem } from "../../harness/events.js";
 import type { Theme } from "../theme.js";
 import { getSyntaxStyle } from "../syntaxTheme.js";
+import { getEditToolArgs, isEditTool } from "../../utils/editDiff.js";
+import { searchableText, splitMatches } from "../../search/TranscriptSearch.js";
 
 // Singleton tree-sitter client for syntax highlighting
 const treeSitterClient = getTreeSitterClient();
@@ -27,6 +29,35 @@ interface ChatPaneProps {
   isStreaming: boolean;
   height: number;
   theme: Theme;
+  /** Active Ctrl+F query; matching text is highlighted */
+  searchQuery?: string;
+  /** Item scrolled into view and marked, e.g. the current search match or a picked message */
+  focusedItemId?: string | null;
+}
+
+function searchableMatch(item: TranscriptItem, query: string): boolean {
+  return searchableText(item).toLowerCase().includes(query.trim().toLowerCase());
+}
+
+/** Renderable ID of a transcript item, for scrolling to it. */
+function itemElementId(itemId: string): string {
+  return `transcript-${itemId}`;
+}
+
+// Plain text with search matches highlighted; `current` marks the focused match
+function HighlightedText({ text, query, current, fg, theme }: { text: string; query: string; current: boolean; fg: string; theme: Theme }) {
+  const c = theme.colors;
+  return (
+    <text fg={fg}>
+      {splitMatches(text, query).map((segment, idx) =>
+        segment.match ? (
+          <span key={idx} fg={c.base} bg={current ? c.warning : c.accent}>{segment.text}</span>
+        ) : (
+          <span key={idx}>{segment.text}</span>
+        )
+      )}
+    </text>
+  );
 }
 
 function formatRole(role: ChatMessage["role"]): string {
@@ -70,10 +101,25 @@ function shouldShowLabel(item: TranscriptItem, prev: TranscriptItem | null): boo
   return !prev || prev.kind === "tool-call" || (prev.kind === "message" && prev.role !== item.role);
 }
 
-const MessageItem = memo(function MessageItem({ msg, showLabel, theme }: { msg: ChatMessage; showLabel: boolean; theme: Theme }) {
+interface MessageItemProps {
+  msg: ChatMessage;
+  showLabel: boolean;
+  theme: Theme;
+  /** Set while the message matches the search; it renders as plain text so matches can be highlighted */
+  highlight?: { query: string; current: boolean };
+  focused?: boolean;
+}
+
+const MessageItem = memo(function MessageItem({ msg, showLabel, theme, highlight, focused }: MessageItemProps) {
   const c = theme.colors;
+  const content = (fg: string) =>
+    highlight ? (
+      <HighlightedText text={msg.content} query={highlight.query} current={highlight.current} fg={fg} theme={theme} />
+    ) : (
+      <text fg={fg}>{msg.content}</text>
+    );
   return (
-    <box flexDirection="column" marginBottom={1}>
+    <box id={itemElementId(msg.id)} flexDirection="column" marginBottom={1} backgroundColor={focused ? c.surface0 : undefined}>
       {msg.role === "assistant" && msg.reasoning && (
         <box flexDirection="column" marginBottom={1} paddingLeft={1} paddingRight={1}>
           <text fg={c.accent}>
@@ -88,7 +134,12 @@ const MessageItem = memo(function MessageItem({ msg, showLabel, theme }: { msg:
       {msg.role === "user" ? (
         <box borderStyle="single" border={["left"]} borderColor={c.info} backgroundColor={c.mantle} paddingLeft={1} flexDirection="column">
           {showLabel && <text fg={c.info}><b>{formatRole(msg.role)}</b></text>}
-          <text fg={c.text}>{msg.content}</text>
+          {content(c.text)}
+        </box>
+      ) : msg.role === "system" ? (
+        // Markers such as a compaction, set off from the conversation
+        <box borderStyle="single" border={["top", "bottom"]} borderColor={c.accent} paddingLeft={1} flexDirection="column">
+          {content(c.subtext0)}
         </box>
       ) : (
         <box flexDirection="column">
@@ -98,10 +149,10 @@ const MessageItem = memo(function MessageItem({ msg, showLabel, theme }: { msg:
             </text>
           )}
           <box paddingLeft={1}>
-            {msg.role === "assistant" || msg.role === "tool" ? (
+            {(msg.role === "assistant" || msg.role === "tool") && !highlight ? (
               <markdown syntaxStyle={getSyntaxStyle(theme.mode)} content={msg.content} />
             ) : (
-              <text fg={c.text}>{msg.content}</text>
+              content(c.text)
             )}
           </box>
         </box>
@@ -144,27 +195,7 @@ function formatToolArgsSummary(toolName: string, args?: Record<string, unknown>)
 }
 
 const MAX_OUTPUT_LINES = 20;
-
-function isEditTool(toolName: string): boolean {
-  return toolName === "edit" || toolName === "edit_file" || toolName === "str_replace";
-}
-
-function getEditToolArgs(args?: Record<string, unknown>): { path?: string; oldStr?: string; newStr?: string } | null {
-  if (!args) return null;
-  
-  const path = args.path ?? args.filePath ?? args.file;
-  const oldStr = args.old_str ?? args.oldStr ?? args.search;
-  const newStr = args.new_str ?? args.newStr ?? args.replace;
-  
-  if (typeof oldStr === "string" && typeof newStr === "string") {
-    return {
-      path: typeof path === "string" ? path : undefined,
-      oldStr,
-      newStr,
-    };
-  }
-  return null;
-}
+const SCROLL_AFTER_LAYOUT_MS = 50;
 
 function truncateOutput(output: string): { text: string; truncated: boolean } {
   const lines = output.split("\n");
@@ -177,13 +208,21 @@ function truncateOutput(output: string): { text: string; truncated: boolean } {
   };
 }
 
-const ToolCallInline = memo(function ToolCallInline({ tool, theme }: { tool: ToolCallItem; theme: Theme }) {
+interface ToolCallInlineProps {
+  tool: ToolCallItem;
+  theme: Theme;
+  /** Set while the tool's arguments match the search */
+  highlight?: { query: string; current: boolean };
+  focused?: boolean;
+}
+
+const ToolCallInline = memo(function ToolCallInline({ tool, theme, highlight, focused }: ToolCallInlineProps) {
   const c = theme.colors;
   const isRunning = tool.status === "running";
   const isFailed = tool.status === "failed";
   const statusIcon = isRunning ? "▮" : isFailed ? "✗" : "✓";
   const statusColor = isRunning ? c.warning : isFailed ? c.error : c.success;
-  const borderColor = isRunning ? c.warning : isFailed ? c.error : c.border;
+  const borderColor = focused ? c.accent : isRunning ? c.warning : isFailed ? c.error : c.border;
 
   const argsSummary = formatToolArgsSummary(tool.toolName, tool.arguments);
   const hasOutput = tool.output && tool.output.trim().length > 0;
@@ -195,6 +234,8 @@ const ToolCallInline = memo(function ToolCallInline({ tool, theme }: { tool: Too
 
   return (
     <box
+      id={itemElementId(tool.id)}
+      backgroundColor={focused ? c.surface0 : undefined}
       flexDirection="column"
       marginBottom={1}
       borderStyle="single"
@@ -206,10 +247,15 @@ const ToolCallInline = memo(function ToolCallInline({ tool, theme }: { tool: Too
         <span fg={statusColor}>{statusIcon} </span>
         <span fg={c.info}><b>{tool.toolName}</b></span>
         <span fg={c.subtle}> ({formatDuration(tool.startedAt, tool.completedAt)})</span>
+        {highlight && <span fg={c.accent}> ⌕ match in arguments</span>}
       </text>
       {argsSummary && (
         <box paddingLeft={2} marginTop={0}>
-          <text fg={c.subtext0}>{argsSummary}</text>
+          {highlight ? (
+            <HighlightedText text={argsSummary} query={highlight.query} current={highlight.current} fg={c.subtext0} theme={theme} />
+          ) : (
+            <text fg={c.subtext0}>{argsSummary}</text>
+          )}
         </box>
       )}
       {tool.progress.length > 0 && (
@@ -266,13 +312,34 @@ const ToolCallInline = memo(function ToolCallInline({ tool, theme }: { tool: Too
   );
 });
 
-export function ChatPane({ transcript, streamingContent, streamingReasoning, isStreaming, height, theme }: ChatPaneProps) {
+export function ChatPane({ transcript, streamingContent, streamingReasoning, isStreaming, height, theme, searchQuery, focusedItemId }: ChatPaneProps) {
   const c = theme.colors;
+  const scrollRef = useRef<ScrollBoxRenderable>(null);
   // Only auto-scroll when actively receiving streaming content, not when user is typing
-  const shouldStickyScroll = isStreaming || Boolean(streamingContent) || Boolean(streamingReasoning);
-  
+  const shouldStickyScroll = (isStreaming || Boolean(streamingContent) || Boolean(streamingReasoning)) && !focusedItemId;
+
+  // Bring the focused search match to the top of the viewport. Positions are
+  // only known after the next layout pass, so wait a frame before scrolling.
+  useEffect(() => {
+    if (!focusedItemId) return;
+    const timer = setTimeout(() => {
+      const scrollbox = scrollRef.current;
+      const target = scrollbox?.content.findDescendantById(itemElementId(focusedItemId));
+      if (scrollbox && target) {
+        scrollbox.scrollTo(Math.max(0, target.y - scrollbox.content.y - 1));
+      }
+    }, SCROLL_AFTER_LAYOUT_MS);
+    return () => clearTimeout(timer);
+  }, [focusedItemId, transcript]);
+
+  const highlightFor = (item: TranscriptItem) =>
+    searchQuery?.trim() && searchableMatch(item, searchQuery)
+      ? { query: searchQuery, current: item.id === focusedItemId }
+      : undefined;
+
   return (
     <scrollbox
+      ref={scrollRef}
       height={height}
       stickyScroll={shouldStickyScroll}
       stickyStart="bottom"
@@ -296,7 +363,7 @@ export function ChatPane({ transcript, streamingContent, streamingReasoning, isS
           if (item.toolName === "report_intent") {
             return null;
           }
-          return <ToolCallInline key={item.id} tool={item} theme={theme} />;
+          return <ToolCallInline key={item.id} tool={item} theme={theme} highlight={highlightFor(item)} focused={item.id === focusedItemId} />;
         }
 
         return (
@@ -305,6 +372,8 @@ export function ChatPane({ transcript, streamingContent, streamingReasoning, isS
             msg={item}
             showLabel={shouldShowLabel(item, prev)}
             theme={theme}
+            highlight={highlightFor(item)}
+            focused={item.id === focusedItemId}
           />
         );
       })}
@@ -0,0 +1,133 @@
+import { useKeyboard } from "@opentui/react";
+import { memo, useState } from "react";
+import type { Theme } from "../theme.js";
+import { EXPORT_FORMATS, type ExportOptions } from "../../export/TranscriptExport.js";
+
+interface ExportModalProps {
+  onExport: (options: ExportOptions) => void;
+  onClose: () => void;
+  theme: Theme;
+  width: number;
+  height: number;
+}
+
+const FORMAT_LABELS: Record<ExportOptions["format"], string> = {
+  markdown: "Markdown",
+  html: "HTML",
+  json: "JSON",
+};
+
+// Rows: 0 format, 1 redact tool outputs, 2 include ephemeral runs
+const ROW_COUNT = 3;
+
+export const ExportModal = memo(function ExportModal({
+  onExport,
+  onClose,
+  theme,
+  width,
+  height,
+}: ExportModalProps) {
+  const c = theme.colors;
+  const [selectedRow, setSelectedRow] = useState(0);
+  const [options, setOptions] = useState<ExportOptions>({
+    format: "markdown",
+    redactToolOutputs: false,
+    includeEphemeral: false,
+  });
+
+  const cycleFormat = (offset: number) => {
+    setOptions((prev) => {
+      const index = EXPORT_FORMATS.indexOf(prev.format);
+      const next = EXPORT_FORMATS[(index + offset + EXPORT_FORMATS.length) % EXPORT_FORMATS.length];
+      return { ...prev, format: next };
+    });
+  };
+
+  const toggleRow = (row: number, offset: number) => {
+    if (row === 0) cycleFormat(offset);
+    if (row === 1) setOptions((prev) => ({ ...prev, redactToolOutputs: !prev.redactToolOutputs }));
+    if (row === 2) setOptions((prev) => ({ ...prev, includeEphemeral: !prev.includeEphemeral }));
+  };
+
+  useKeyboard((key) => {
+    if (key.name === "escape" || (key.ctrl && key.name === "x")) {
+      onClose();
+      return;
+    }
+    if (key.name === "up") {
+      setSelectedRow((r) => (r - 1 + ROW_COUNT) % ROW_COUNT);
+      return;
+    }
+    if (key.name === "down" || key.name === "tab") {
+      setSelectedRow((r) => (r + 1) % ROW_COUNT);
+      return;
+    }
+    if (key.name === "left") {
+      toggleRow(selectedRow, -1);
+      return;
+    }
+    if (key.name === "right" || key.name === "space") {
+      toggleRow(selectedRow, 1);
+      return;
+    }
+    if (key.name === "return") {
+      onExport(options);
+      return;
+    }
+  });
+
+  const modalWidth = Math.min(56, width - 4);
+  const modalHeight = Math.min(ROW_COUNT + 7, height - 4);
+  const modalX = Math.floor((width - modalWidth) / 2);
+  const modalY = Math.floor((height - modalHeight) / 2);
+
+  const checkbox = (checked: boolean) => (checked ? "[x]" : "[ ]");
+  const rows = [
+    { label: "Format", value: `‹ ${FORMAT_LABELS[options.format]} ›` },
+    { label: "Redact tool outputs", value: checkbox(options.redactToolOutputs) },
+    { label: "Include ephemeral runs", value: checkbox(options.includeEphemeral) },
+  ];
+
+  return (
+    <box
+      position="absolute"
+      left={modalX}
+      top={modalY}
+      width={modalWidth}
+      height={modalHeight}
+      borderStyle="double"
+      borderColor={c.primary}
+      backgroundColor={c.mantle}
+      flexDirection="column"
+      padding={1}
+    >
+      {/* Header */}
+      <box marginBottom={1}>
+        <text>
+          <span fg={c.primary}><b>📤 Export transcript</b></span>
+        </text>
+      </box>
+
+      {/* Options */}
+      <box flexDirection="column">
+        {rows.map((row, index) => {
+          const isSelected = index === selectedRow;
+          return (
+            <text key={row.label}>
+              <span fg={isSelected ? c.primary : c.subtle}>{isSelected ? "› " : "  "}</span>
+              <span fg={isSelected ? c.text : c.subtext0}>{row.label.padEnd(24)}</span>
+              <span fg={isSelected ? c.info : c.subtext0}>{row.value}</span>
+            </text>
+          );
+        })}
+      </box>
+
+      {/* Footer with hints */}
+      <box marginTop={1}>
+        <text>
+          <span fg={c.subtle}>↑↓ select • ←→/Space change • Enter export • Esc cancel</span>
+        </text>
+      </box>
+    </box>
+  );
+});
@@ -3,6 +3,16 @@ import { memo, useState, useEffect, useRef, useCallback } from "react";
 import { existsSync } from "node:fs";
 import type { Theme } from "../theme.js";
 import type { PasteEvent } from "@opentui/core";
+import type { PromptAttachment } from "../../harness/events.js";
+import {
+  fuzzyFilter,
+  getProjectFiles,
+  getProjectFilesAsync,
+  mentionToAttachment,
+  parseMention,
+} from "../../utils/fileIndex.js";
+import type { FileEntry } from "../../utils/fileIndex.js";
+import { SnippetPicker } from "./SnippetPicker.js";
 
 const IMAGE_EXTENSIONS = new Set([
   ".png", ".jpg", ".jpeg", ".gif", ".bmp", ".webp", ".svg", ".ico", ".tiff", ".tif",
@@ -22,9 +32,28 @@ function isImageFilePath(text: string): boolean {
 // Blinking cursor interval in ms
 const CURSOR_BLINK_INTERVAL = 530;
 
+// Rows shown in the @-mention picker
+const MENTION_PICKER_ROWS = 8;
+
+// Typed-out mentions like "@src/a.ts#L10-20" that weren't picked from the list
+const MENTION_TOKEN_REGEX = /(?:^|\s)@(\S+)/g;
+
+function attachmentKey(attachment: PromptAttachment): string {
+  return attachment.type === "selection"
+    ? `${attachment.filePath}#${attachment.startLine}-${attachment.endLine}`
+    : attachment.path;
+}
+
+function attachmentIcon(attachment: PromptAttachment): string {
+  if (attachment.type === "directory") return "📁";
+  if (attachment.type === "selection") return "✂";
+  return "📄";
+}
+
 export interface SubmitData {
   text: string;
   images?: string[]; // File paths to attached images
+  attachments?: PromptAttachment[]; // @-mentioned files, directories and line ranges
 }
 
 interface InputBarProps {
@@ -32,12 +61,20 @@ interface InputBarProps {
   disabled?: boolean;
   suppressKeys?: boolean;
   queuedCount?: number;
+  /** False when the current model is known not to accept images */
+  visionSupported?: boolean;
   theme: Theme;
   onHeightChange?: (height: number) => void;
+  /** Lets the parent ignore Esc and arrows while the @-mention or snippet picker is open */
+  onPickerChange?: (open: boolean) => void;
+  /** Text to edit, e.g. an earlier prompt; replaces the input whenever its id changes */
+  draft?: { id: string; text: string } | null;
+  /** Line shown above the prompt, e.g. while editing an earlier message */
+  banner?: string;
 }
 
 // Custom keyboard-driven input (OpenTUI's <input> doesn't work in child components)
-export const InputBar = memo(function InputBar({ onSubmit, disabled = false, suppressKeys = false, queuedCount = 0, theme, onHeightChange }: InputBarProps) {
+export const InputBar = memo(function InputBar({ onSubmit, disabled = false, suppressKeys = false, queuedCount = 0, visionSupported, theme, onHeightChange, onPickerChange, draft, banner }: InputBarProps) {
   const c = theme.colors;
   const [value, setValue] = useState("");
   const [cursorPos, setCursorPos] = useState(0);
@@ -52,6 +89,17 @@ export const InputBar = memo(function InputBar({ onSubmit, disabled = false, sup
   
   // Track attached images
   const [attachedImages, setAttachedImages] = useState<string[]>([]);
+
+  // Track @-mention attachments and the open picker (position of its "@")
+  const [attachedMentions, setAttachedMentions] = useState<PromptAttachment[]>([]);
+  const [mentionStart, setMentionStart] = useState<number | null>(null);
+  const [mentionIndex, setMentionIndex] = useState(0);
+  const [projectFiles, setProjectFiles] = useState<FileEntry[]>(getProjectFiles);
+
+  // Snippet picker: terminal selection captured when it opened (null = closed)
+  const [snippetSelection, setSnippetSelection] = useState<string | null>(null);
+  const [snippetRows, setSnippetRows] = useState(0);
+  const snippetOpen = snippetSelection !== null;
   
   // Use refs for values accessed in keyboard/paste callbacks to avoid stale closures
   const cursorPosRef = useRef(cursorPos);
@@ -62,7 +110,15 @@ export const InputBar = memo(function InputBar({ onSubmit, disabled = false, sup
   attachedImagesRef.current = attachedImages;
   const pastedContentRef = useRef(pastedContent);
   pastedContentRef.current = pastedContent;
+  const attachedMentionsRef = useRef(attachedMentions);
+  attachedMentionsRef.current = attachedMentions;
   
+  useEffect(() => {
+    if (!draft) return;
+    setValue(draft.text);
+    setCursorPos(draft.text.length);
+  }, [draft?.id]);
+
   const [cursorVisible, setCursorVisible] = useState(true);
   const blinkIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
   
@@ -87,6 +143,76 @@ export const InputBar = memo(function InputBar({ onSubmit, disabled = false, sup
     setCursorVisible(true);
   }, [value, cursorPos]);
 
+  // The picker closes once the cursor leaves the mention or a space ends it
+  const mentionQuery = mentionStart !== null && cursorPos > mentionStart && value[mentionStart] === "@"
+    ? value.slice(mentionStart + 1, cursorPos)
+    : null;
+  const mentionOpen = mentionQuery !== null && !/\s/.test(mentionQuery);
+  const mentionCandidates = mentionOpen
+    ? fuzzyFilter(parseMention(mentionQuery).path, projectFiles, MENTION_PICKER_ROWS)
+    : [];
+
+  useEffect(() => {
+    if (!mentionOpen && mentionStart !== null) setMentionStart(null);
+  }, [mentionOpen, mentionStart]);
+
+  useEffect(() => {
+    onPickerChange?.(mentionOpen || snippetOpen);
+  }, [mentionOpen, snippetOpen, onPickerChange]);
+
+  const insertSnippet = useCallback((text: string) => {
+    const pos = cursorPosRef.current;
+    setValue((v) => v.slice(0, pos) + text + v.slice(pos));
+    setCursorPos(pos + text.length);
+    setSnippetSelection(null);
+  }, []);
+
+  const closeSnippetPicker = useCallback(() => {
+    setSnippetSelection(null);
+  }, []);
+
+  useEffect(() => {
+    if (mentionStart === null) return;
+    setMentionIndex(0);
+    // Refresh the listing each time the picker opens so new files show up
+    let cancelled = false;
+    getProjectFilesAsync().then((files) => {
+      if (!cancelled) setProjectFiles(files);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [mentionStart]);
+
+  const addMention = (attachment: PromptAttachment) => {
+    if (!attachedMentionsRef.current.some((m) => attachmentKey(m) === attachmentKey(attachment))) {
+      setAttachedMentions((prev) => [...prev, attachment]);
+    }
+  };
+
+  const acceptMention = () => {
+    if (mentionStart === null || mentionQuery === null) return;
+    const candidate = mentionCandidates[Math.min(mentionIndex, mentionCandidates.length - 1)];
+    if (!candidate) {
+      // Leave unmatched text alone; it may still resolve as a typed-out path on submit
+      setMentionStart(null);
+      return;
+    }
+    const { startLine, endLine } = parseMention(mentionQuery);
+    const attachment = mentionToAttachment({
+      path: candidate.path,
+      startLine: candidate.isDirectory ? undefined : startLine,
+      endLine: candidate.isDirectory ? undefined : endLine,
+    });
+    if (attachment) addMention(attachment);
+    // Drop the "@query" text; the chip stands in for it
+    const start = mentionStart;
+    const end = cursorPosRef.current;
+    setValue((v) => v.slice(0, start) + v.slice(end));
+    setCursorPos(start);
+    setMentionStart(null);
+  };
+
   const handleSubmit = () => {
     let textToSubmit = valueRef.current;
     
@@ -107,17 +233,29 @@ export const InputBar = memo(function InputBar({ onSubmit, disabled = false, sup
     const allImages = [...attachedImagesRef.current, ...newImages];
     const currentPasted = pastedContentRef.current;
     const fullText = currentPasted ? currentPasted + "\n" + textToSubmit : textToSubmit;
+
+    // Typed-out mentions stay in the text and are attached when the path exists
+    const allMentions = [...attachedMentionsRef.current];
+    for (const match of fullText.matchAll(MENTION_TOKEN_REGEX)) {
+      const attachment = mentionToAttachment(parseMention(match[1]));
+      if (attachment && !allMentions.some((m) => attachmentKey(m) === attachmentKey(attachment))) {
+        allMentions.push(attachment);
+      }
+    }
     
-    if (fullText.trim() || allImages.length > 0) {
+    if (fullText.trim() || allImages.length > 0 || allMentions.length > 0) {
       onSubmit({
         text: fullText.trim(),
         images: allImages.length > 0 ? allImages : undefined,
+        attachments: allMentions.length > 0 ? allMentions : undefined,
       });
       setValue("");
       setCursorPos(0);
       setPastedContent("");
       setPastedLineCount(0);
       setAttachedImages([]);
+      setAttachedMentions([]);
+      setMentionStart(null);
       setResetKey((k) => k + 1);
       // Reset height to minimum when message is sent
       if (onHeightChange) {
@@ -171,10 +309,44 @@ export const InputBar = memo(function InputBar({ onSubmit, disabled = false, sup
 
   useKeyboard((key) => {
     if (suppressKeys) return;
+    // The picker handles its own keys, including Esc and Ctrl+P to close
+    if (snippetOpen) return;
+    if (key.ctrl && key.name === "p") {
+      setMentionStart(null);
+      setSnippetSelection(renderer.getSelection()?.getSelectedText() ?? "");
+      return;
+    }
+    if (mentionOpen) {
+      if (key.name === "escape") {
+        setMentionStart(null);
+        return;
+      }
+      if (key.name === "up") {
+        setMentionIndex((i) => Math.max(0, i - 1));
+        return;
+      }
+      if (key.name === "down") {
+        setMentionIndex((i) => Math.min(mentionCandidates.length - 1, i + 1));
+        return;
+      }
+      if (key.name === "return" || (key.name === "tab" && !key.shift)) {
+        acceptMention();
+        return;
+      }
+    }
     if (key.name === "return") {
       handleSubmit();
       return;
     }
+    if (key.name === "backspace" && !valueRef.current && !pastedContentRef.current) {
+      // Backspace on an empty prompt removes the newest chip
+      if (attachedMentionsRef.current.length > 0) {
+        setAttachedMentions((prev) => prev.slice(0, -1));
+      } else if (attachedImagesRef.current.length > 0) {
+        setAttachedImages((prev) => prev.slice(0, -1));
+      }
+      return;
+    }
     if (key.name === "backspace") {
       setValue((v) => {
         const pos = cursorPosRef.current;
@@ -210,12 +382,16 @@ export const InputBar = memo(function InputBar({ onSubmit, disabled = false, sup
       return;
     }
     if (key.name === "escape" || key.name === "tab" || key.name === "up" || key.name === "down") return;
-    if ((key.ctrl || key.meta) && ["s", "c"].includes(key.name || "")) return;
+    if ((key.ctrl || key.meta) && ["s", "c", "t", "r", "q", "x", "f", "k"].includes(key.name || "")) return;
     if (key.shift && key.name === "tab") return;
     // Printable character
     if (key.sequence && key.sequence.length === 1) {
+      const pos = cursorPosRef.current;
+      // "@" at the start of a word opens the file picker
+      if (key.sequence === "@" && (pos === 0 || /\s/.test(valueRef.current[pos - 1]))) {
+        setMentionStart(pos);
+      }
       setValue((v) => {
-        const pos = cursorPosRef.current;
         const newValue = v.slice(0, pos) + key.sequence + v.slice(pos);
         setCursorPos(pos + 1);
         return newValue;
@@ -235,10 +411,16 @@ export const InputBar = memo(function InputBar({ onSubmit, disabled = false, sup
   const prompt = "› ";
   const displayText = showPlaceholder ? placeholder : value;
   const fullText = prompt + displayText;
-  const lines = Math.ceil(fullText.length / contentWidth) || 1;
+  const lines = fullText
+    .split("\n")
+    .reduce((total, line) => total + (Math.ceil(line.length / contentWidth) || 1), 0);
+  const bannerLines = banner ? 1 : 0;
   const pasteIndicatorLines = pastedContent ? 1 : 0;
   const imageIndicatorLines = attachedImages.length;
-  const calculatedHeight = Math.max(3, lines + pasteIndicatorLines + imageIndicatorLines + 2); // Minimum 3, add 2 for top/bottom padding
+  const mentionChipLines = attachedMentions.length > 0 ? 1 : 0;
+  const pickerLines = mentionOpen ? Math.max(1, mentionCandidates.length) : 0;
+  const snippetLines = snippetOpen ? snippetRows : 0;
+  const calculatedHeight = Math.max(3, lines + bannerLines + pasteIndicatorLines + imageIndicatorLines + mentionChipLines + pickerLines + snippetLines + 2); // Minimum 3, add 2 for top/bottom padding
 
   // Notify parent of height change
   useEffect(() => {
@@ -261,6 +443,7 @@ export const InputBar = memo(function InputBar({ onSubmit, disabled = false, sup
       justifyContent="center"
     >
       <box flexDirection="column" justifyContent="center">
+        {banner && <text fg={c.accent}>{banner}</text>}
         {pastedContent && (
           <text>
             <span fg={c.text} bg={c.surface1}> 📋 {pastedLineCount} lines pasted </span>
@@ -269,8 +452,47 @@ export const InputBar = memo(function InputBar({ onSubmit, disabled = false, sup
         {attachedImages.map((img, idx) => (
           <text key={idx}>
             <span fg={c.text} bg={c.surface1}> 🖼 {img.split('/').pop()} </span>
+            {visionSupported === false && (
+              <span fg={c.warning}> model can't see images, switch models to send</span>
+            )}
           </text>
         ))}
+        {attachedMentions.length > 0 && (
+          <text wrapMode="word">
+            {attachedMentions.map((attachment) => (
+              <span key={attachmentKey(attachment)}>
+                <span fg={c.text} bg={c.surface1}> {attachmentIcon(attachment)} {attachment.displayName} </span>
+                <span> </span>
+              </span>
+            ))}
+          </text>
+        )}
+        {mentionOpen && (
+          mentionCandidates.length === 0 ? (
+            <text fg={c.subtle}>  No matching files</text>
+          ) : (
+            mentionCandidates.map((entry, idx) => {
+              const isSelected = idx === Math.min(mentionIndex, mentionCandidates.length - 1);
+              return (
+                <text key={entry.path}>
+                  <span fg={isSelected ? c.primary : c.subtle}>{isSelected ? "› " : "  "}</span>
+                  <span fg={isSelected ? c.info : c.subtext0}>
+                    {entry.isDirectory ? "📁 " : "📄 "}{entry.path}
+                  </span>
+                </text>
+              );
+            })
+          )
+        )}
+        {snippetOpen && (
+          <SnippetPicker
+            selection={snippetSelection}
+            onInsert={insertSnippet}
+            onClose={closeSnippetPicker}
+            onHeightChange={setSnippetRows}
+            theme={theme}
+          />
+        )}
         <text wrapMode="word">
           {showPlaceholder ? (
             <>
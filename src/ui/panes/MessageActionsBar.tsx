@@ -0,0 +1,101 @@
+import { useKeyboard } from "@opentui/react";
+import { memo, useEffect } from "react";
+import type { Theme } from "../theme.js";
+import type { ForkMode, ResendMessageAction } from "../../harness/events.js";
+
+const MESSAGE_ACTIONS_BAR_HEIGHT = 3;
+
+interface MessageActionsBarProps {
+  /** Position of the selected message among all messages, or -1 when there is none */
+  selectedIndex: number;
+  messageCount: number;
+  /** Preview of the selected message */
+  preview: string;
+  onMove: (offset: number) => void;
+  onFork: (mode: ForkMode) => void;
+  /** Whether the selected message is a user message that can be edited and resent */
+  canEdit: boolean;
+  /** Whether the backend can drop later turns, so the edit can be resent in place */
+  canEditInPlace: boolean;
+  onEdit: (mode: ResendMessageAction["mode"]) => void;
+  onClose: () => void;
+  onHeightChange?: (height: number) => void;
+  theme: Theme;
+  width: number;
+}
+
+// Replaces the input bar while picking a message in the transcript (Ctrl+K)
+export const MessageActionsBar = memo(function MessageActionsBar({
+  selectedIndex,
+  messageCount,
+  preview,
+  onMove,
+  onFork,
+  canEdit,
+  canEditInPlace,
+  onEdit,
+  onClose,
+  onHeightChange,
+  theme,
+  width,
+}: MessageActionsBarProps) {
+  const c = theme.colors;
+
+  useEffect(() => {
+    onHeightChange?.(MESSAGE_ACTIONS_BAR_HEIGHT);
+  }, [onHeightChange]);
+
+  useKeyboard((key) => {
+    if (key.name === "escape" || (key.ctrl && key.name === "k")) {
+      onClose();
+      return;
+    }
+    if (key.name === "up" || key.name === "k") {
+      onMove(-1);
+      return;
+    }
+    if (key.name === "down" || key.name === "j") {
+      onMove(1);
+      return;
+    }
+    if (selectedIndex === -1) return;
+    if (key.name === "f") {
+      onFork("verbatim");
+      return;
+    }
+    if (key.name === "s") {
+      onFork("summary");
+      return;
+    }
+    if (key.name === "e" && canEdit) {
+      onEdit(canEditInPlace && !key.shift ? "in-place" : "fork");
+      return;
+    }
+  });
+
+  const editHint = !canEdit ? "" : canEditInPlace ? "E edit & resend • Shift+E edit in fork • " : "E edit in fork • ";
+  const hints = `↑↓ select • ${editHint}F fork here • S fork with summary • Esc close`;
+  const previewWidth = Math.max(10, width - hints.length - 20);
+  const flat = preview.replace(/\s+/g, " ").trim();
+  const clipped = flat.length > previewWidth ? flat.slice(0, previewWidth - 1) + "…" : flat;
+
+  return (
+    <box
+      width="100%"
+      height={MESSAGE_ACTIONS_BAR_HEIGHT}
+      flexShrink={0}
+      borderStyle="single"
+      border={["left"]}
+      borderColor={c.accent}
+      backgroundColor={c.mantle}
+      paddingLeft={1}
+      justifyContent="center"
+    >
+      <text>
+        <span fg={c.accent}>{`❯ ${selectedIndex + 1}/${messageCount} `}</span>
+        <span fg={c.text}>{clipped}</span>
+        <span fg={c.subtle}>  {hints}</span>
+      </text>
+    </box>
+  );
+});
@@ -1,7 +1,14 @@
 import { useKeyboard } from "@opentui/react";
-import { memo, useState, useCallback } from "react";
+import { memo, useState, useMemo } from "react";
 import type { Theme } from "../theme.js";
-import type { ModelDescription } from "../../copilot/CopilotSessionAdapter.js";
+import type { ModelDescription } from "../../harness/backend.js";
+import {
+  formatMultiplier,
+  formatTokenCount,
+  groupModelsByVendor,
+  matchesModelFilter,
+} from "../../models/ModelCatalog.js";
+import type { ModelCapabilityFilter } from "../../models/ModelCatalog.js";
 
 interface ModelSelectorProps {
   models: ModelDescription[];
@@ -13,6 +20,12 @@ interface ModelSelectorProps {
   height: number;
 }
 
+const CAPABILITY_FILTERS: ModelCapabilityFilter[] = ["all", "vision", "reasoning"];
+
+type Row =
+  | { kind: "header"; vendor: string; count: number }
+  | { kind: "model"; model: ModelDescription; index: number };
+
 export const ModelSelector = memo(function ModelSelector({
   models,
   currentModelId,
@@ -23,10 +36,31 @@ export const ModelSelector = memo(function ModelSelector({
   height,
 }: ModelSelectorProps) {
   const c = theme.colors;
-  const currentIndex = models.findIndex((m) => m.id === currentModelId);
-  const [selectedIndex, setSelectedIndex] = useState(
-    currentIndex >= 0 ? currentIndex : 0
-  );
+  const [query, setQuery] = useState("");
+  const [capability, setCapability] = useState<ModelCapabilityFilter>("all");
+
+  // Selection indexes into the grouped, filtered order so ↑↓ skip headers
+  const { rows, ordered } = useMemo(() => {
+    const groups = groupModelsByVendor(
+      models.filter((m) => matchesModelFilter(m, query, capability))
+    );
+    const rows: Row[] = [];
+    const ordered: ModelDescription[] = [];
+    for (const group of groups) {
+      rows.push({ kind: "header", vendor: group.vendor, count: group.models.length });
+      for (const model of group.models) {
+        rows.push({ kind: "model", model, index: ordered.length });
+        ordered.push(model);
+      }
+    }
+    return { rows, ordered };
+  }, [models, query, capability]);
+
+  const [selectedIndex, setSelectedIndex] = useState(() => {
+    const groupedAll = groupModelsByVendor(models).flatMap((g) => g.models);
+    return Math.max(0, groupedAll.findIndex((m) => m.id === currentModelId));
+  });
+  const clampedIndex = Math.min(selectedIndex, Math.max(0, ordered.length - 1));
 
   useKeyboard((key) => {
     if (key.name === "escape") {
@@ -34,26 +68,49 @@ export const ModelSelector = memo(function ModelSelector({
       return;
     }
     if (key.name === "up") {
-      setSelectedIndex((i) => Math.max(0, i - 1));
+      setSelectedIndex(Math.max(0, clampedIndex - 1));
       return;
     }
     if (key.name === "down") {
-      setSelectedIndex((i) => Math.min(models.length - 1, i + 1));
+      setSelectedIndex(Math.min(ordered.length - 1, clampedIndex + 1));
       return;
     }
     if (key.name === "return") {
-      if (models[selectedIndex]) {
-        onSelect(models[selectedIndex].id);
+      if (ordered[clampedIndex]) {
+        onSelect(ordered[clampedIndex].id);
       }
       return;
     }
+    if (key.name === "tab") {
+      setCapability((f) => CAPABILITY_FILTERS[(CAPABILITY_FILTERS.indexOf(f) + 1) % CAPABILITY_FILTERS.length]);
+      setSelectedIndex(0);
+      return;
+    }
+    if (key.name === "backspace") {
+      setQuery((q) => q.slice(0, -1));
+      setSelectedIndex(0);
+      return;
+    }
+    if (!key.ctrl && !key.meta && key.sequence && key.sequence.length === 1 && key.sequence >= " ") {
+      setQuery((q) => q + key.sequence);
+      setSelectedIndex(0);
+    }
   });
 
-  const modalWidth = Math.min(50, width - 4);
-  const modalHeight = Math.min(models.length + 6, height - 4);
+  // Label every row with its provider once any BYOK models are listed
+  const hasProviders = models.some((m) => m.provider);
+
+  const modalWidth = Math.min(hasProviders ? 84 : 72, width - 4);
+  const modalHeight = Math.min(rows.length + 8, height - 4);
   const modalX = Math.floor((width - modalWidth) / 2);
   const modalY = Math.floor((height - modalHeight) / 2);
 
+  // Keep the selected row in view when the list is taller than the modal
+  const visibleRows = Math.max(1, modalHeight - 8);
+  const selectedRow = rows.findIndex((r) => r.kind === "model" && r.index === clampedIndex);
+  const scrollTop = Math.max(0, Math.min(selectedRow - Math.floor(visibleRows / 2), rows.length - visibleRows));
+  const shownRows = rows.slice(scrollTop, scrollTop + visibleRows);
+
   return (
     <box
       position="absolute"
@@ -68,19 +125,35 @@ export const ModelSelector = memo(function ModelSelector({
       padding={1}
     >
         {/* Header */}
-        <box marginBottom={1}>
+        <box marginBottom={1} flexDirection="row" justifyContent="space-between">
           <text>
             <span fg={c.primary}><b>🤖 Select Model</b></span>
+            <span fg={c.subtle}>  filter: </span>
+            <span fg={query ? c.text : c.subtle}>{query || "type to search"}</span>
+          </text>
+          <text fg={capability === "all" ? c.subtle : c.accent}>
+            {capability === "all" ? "all models" : `${capability} only`}
           </text>
         </box>
 
         {/* Model list */}
         <box flexDirection="column">
-          {models.map((model, index) => {
-            const isSelected = selectedIndex === index;
+          {ordered.length === 0 && (
+            <text fg={c.subtle}>No models match</text>
+          )}
+          {shownRows.map((row) => {
+            if (row.kind === "header") {
+              return (
+                <text key={`vendor-${row.vendor}`} fg={c.subtext0}>
+                  <b>{row.vendor}</b> <span fg={c.subtle}>({row.count})</span>
+                </text>
+              );
+            }
+            const { model } = row;
+            const isSelected = clampedIndex === row.index;
             const isCurrent = model.id === currentModelId;
             return (
-              <box key={model.id}>
+              <box key={model.id} flexDirection="row" justifyContent="space-between">
                 <text>
                   <span fg={isSelected ? c.primary : c.subtle}>
                     {isSelected ? "› " : "  "}
@@ -92,6 +165,21 @@ export const ModelSelector = memo(function ModelSelector({
                     <span fg={c.success}> ✓</span>
                   )}
                 </text>
+                <text>
+                  <span fg={c.subtle}>
+                    {model.contextWindow ? formatTokenCount(model.contextWindow).padStart(5) : "    ?"}
+                  </span>
+                  <span fg={model.vision ? c.info : c.subtle}>{model.vision ? "  👁" : "   ·"}</span>
+                  <span fg={model.reasoning ? c.accent : c.subtle}>{model.reasoning ? "  🧠" : "   ·"}</span>
+                  <span fg={model.multiplier && model.multiplier > 1 ? c.warning : c.subtle}>
+                    {(model.multiplier !== undefined ? formatMultiplier(model.multiplier) : "").padStart(7)}
+                  </span>
+                  {hasProviders && (
+                    <span fg={model.provider ? c.accent : c.subtle}>
+                      {"  "}{(model.provider ?? "copilot").padEnd(10)}
+                    </span>
+                  )}
+                </text>
               </box>
             );
           })}
@@ -101,7 +189,7 @@ export const ModelSelector = memo(function ModelSelector({
         <box marginTop={1}>
           <text>
             <span fg={c.subtle}>
-              ↑↓ navigate • Enter select • Esc cancel
+              ↑↓ navigate • Enter select • type to filter • Tab 👁/🧠 only • Esc cancel
             </span>
           </text>
         </box>
@@ -0,0 +1,171 @@
+import { useKeyboard } from "@opentui/react";
+import { memo, useState } from "react";
+import type { Theme } from "../theme.js";
+import type { PendingPermission } from "../../harness/Harness.js";
+import type { PermissionDecision, PermissionKind } from "../../harness/events.js";
+import { getSyntaxStyle } from "../syntaxTheme.js";
+
+interface PermissionModalProps {
+  permission: PendingPermission;
+  queuedCount: number;
+  onRespond: (decision: PermissionDecision) => void;
+  theme: Theme;
+  width: number;
+  height: number;
+}
+
+const OPTIONS: Array<{ decision: PermissionDecision; label: string }> = [
+  { decision: "allow-once", label: "Allow once" },
+  { decision: "allow-session", label: "Allow for session" },
+  { decision: "deny", label: "Deny" },
+];
+
+function formatKind(kind: PermissionKind): string {
+  switch (kind) {
+    case "shell":
+      return "Run shell command";
+    case "write":
+      return "Write file";
+    case "read":
+      return "Read path";
+    case "url":
+      return "Fetch URL";
+    case "mcp":
+      return "Call MCP tool";
+  }
+}
+
+export const PermissionModal = memo(function PermissionModal({
+  permission,
+  queuedCount,
+  onRespond,
+  theme,
+  width,
+  height,
+}: PermissionModalProps) {
+  const c = theme.colors;
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  useKeyboard((key) => {
+    if (key.name === "escape") {
+      onRespond("deny");
+      return;
+    }
+    if (key.name === "left" || key.name === "up") {
+      setSelectedIndex((i) => (i + OPTIONS.length - 1) % OPTIONS.length);
+      return;
+    }
+    if (key.name === "right" || key.name === "down" || key.name === "tab") {
+      setSelectedIndex((i) => (i + 1) % OPTIONS.length);
+      return;
+    }
+    if (key.name === "return") {
+      onRespond(OPTIONS[selectedIndex].decision);
+      return;
+    }
+    // Quick keys
+    if (key.name === "y") {
+      onRespond("allow-once");
+      return;
+    }
+    if (key.name === "a") {
+      onRespond("allow-session");
+      return;
+    }
+    if (key.name === "n") {
+      onRespond("deny");
+      return;
+    }
+  });
+
+  const modalWidth = Math.min(100, width - 4);
+  const targetLines = permission.target ? permission.target.split("\n") : [];
+  const diffLines = permission.diff ? permission.diff.split("\n").length : 0;
+  const chromeHeight = targetLines.length + 11;
+  const diffHeight = Math.max(0, Math.min(diffLines + 1, height - 4 - chromeHeight));
+  const modalHeight = Math.min(chromeHeight + diffHeight, height - 4);
+  const modalX = Math.floor((width - modalWidth) / 2);
+  const modalY = Math.floor((height - modalHeight) / 2);
+
+  return (
+    <box
+      position="absolute"
+      left={modalX}
+      top={modalY}
+      width={modalWidth}
+      height={modalHeight}
+      borderStyle="double"
+      borderColor={c.warning}
+      backgroundColor={c.mantle}
+      flexDirection="column"
+      padding={1}
+    >
+      {/* Header */}
+      <box marginBottom={1}>
+        <text>
+          <span fg={c.warning}><b>🔐 {formatKind(permission.kind)}</b></span>
+          {queuedCount > 0 && (
+            <span fg={c.subtext0}> (+{queuedCount} waiting)</span>
+          )}
+        </text>
+      </box>
+
+      {/* Intention and target */}
+      <box flexDirection="column" marginBottom={1}>
+        <text>
+          <span fg={c.info}>{permission.prompt}</span>
+        </text>
+        {targetLines.map((line, index) => (
+          <text key={index}>
+            <span fg={c.text} bg={c.surface0}>{line}</span>
+          </text>
+        ))}
+      </box>
+
+      {/* Diff preview for write requests */}
+      {permission.diff && diffHeight > 0 && (
+        <box height={diffHeight} backgroundColor={c.surface0} overflow="hidden">
+          <diff
+            diff={permission.diff}
+            view="unified"
+            syntaxStyle={getSyntaxStyle(theme.mode)}
+            showLineNumbers={true}
+            addedBg={c.surface0}
+            removedBg={c.surface0}
+            contextBg={c.surface0}
+            lineNumberBg={c.surface0}
+          />
+        </box>
+      )}
+
+      {/* Buttons */}
+      <box flexDirection="row" marginTop={1}>
+        {OPTIONS.map((option, index) => {
+          const isSelected = selectedIndex === index;
+          const isDeny = option.decision === "deny";
+          return (
+            <box key={option.decision} marginRight={2}>
+              <text>
+                <span
+                  fg={isSelected ? (isDeny ? c.error : c.success) : c.subtext0}
+                  bg={isSelected ? c.surface1 : undefined}
+                >
+                  {` ${option.label} `}
+                </span>
+              </text>
+            </box>
+          );
+        })}
+      </box>
+
+      {/* Footer with hints */}
+      <box marginTop={1}>
+        <text>
+          <span fg={c.subtle}>
+            ←→ navigate • Enter select • Y once • A session • N/Esc deny
+          </span>
+        </text>
+      </box>
+    </box>
+  );
+});
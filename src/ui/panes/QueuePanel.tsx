@@ -0,0 +1,226 @@
+import { useKeyboard } from "@opentui/react";
+import { memo, useEffect, useRef, useState } from "react";
+import type { Theme } from "../theme.js";
+import type { QueuedPrompt } from "../../harness/events.js";
+
+interface QueuePanelProps {
+  queue: QueuedPrompt[];
+  isRunning: boolean;
+  onEdit: (id: string, text: string) => void;
+  onMove: (id: string, offset: number) => void;
+  onRemove: (id: string) => void;
+  onSendNow: (id: string) => void;
+  onClose: () => void;
+  theme: Theme;
+  width: number;
+  height: number;
+}
+
+// Editing state: which entry, its draft text and the cursor within it
+interface Draft {
+  id: string;
+  text: string;
+  cursor: number;
+}
+
+function attachmentSummary(prompt: QueuedPrompt): string {
+  const parts: string[] = [];
+  if (prompt.images?.length) parts.push(`🖼 ${prompt.images.length}`);
+  if (prompt.attachments?.length) parts.push(`📎 ${prompt.attachments.length}`);
+  return parts.join(" ");
+}
+
+export const QueuePanel = memo(function QueuePanel({
+  queue,
+  isRunning,
+  onEdit,
+  onMove,
+  onRemove,
+  onSendNow,
+  onClose,
+  theme,
+  width,
+  height,
+}: QueuePanelProps) {
+  const c = theme.colors;
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const draftRef = useRef(draft);
+  draftRef.current = draft;
+
+  // Entries leave the queue as runs start; keep the selection in range
+  useEffect(() => {
+    setSelectedIndex((i) => Math.max(0, Math.min(i, queue.length - 1)));
+    if (draft && !queue.some((p) => p.id === draft.id)) setDraft(null);
+  }, [queue, draft]);
+
+  const selected = queue[selectedIndex];
+
+  const handleDraftKey = (key: { name?: string; sequence?: string; ctrl?: boolean }) => {
+    const current = draftRef.current!;
+    const { text, cursor } = current;
+    if (key.name === "escape") {
+      setDraft(null);
+      return;
+    }
+    if (key.name === "return") {
+      onEdit(current.id, text);
+      setDraft(null);
+      return;
+    }
+    if (key.name === "backspace") {
+      if (cursor > 0) setDraft({ ...current, text: text.slice(0, cursor - 1) + text.slice(cursor), cursor: cursor - 1 });
+      return;
+    }
+    if (key.name === "delete") {
+      setDraft({ ...current, text: text.slice(0, cursor) + text.slice(cursor + 1) });
+      return;
+    }
+    if (key.name === "left") {
+      setDraft({ ...current, cursor: Math.max(0, cursor - 1) });
+      return;
+    }
+    if (key.name === "right") {
+      setDraft({ ...current, cursor: Math.min(text.length, cursor + 1) });
+      return;
+    }
+    if (key.name === "home" || (key.ctrl && key.name === "a")) {
+      setDraft({ ...current, cursor: 0 });
+      return;
+    }
+    if (key.name === "end" || (key.ctrl && key.name === "e")) {
+      setDraft({ ...current, cursor: text.length });
+      return;
+    }
+    if (!key.ctrl && key.sequence && key.sequence.length === 1) {
+      setDraft({ ...current, text: text.slice(0, cursor) + key.sequence + text.slice(cursor), cursor: cursor + 1 });
+    }
+  };
+
+  useKeyboard((key) => {
+    if (draftRef.current) {
+      handleDraftKey(key);
+      return;
+    }
+    if (key.name === "escape" || (key.ctrl && key.name === "q")) {
+      onClose();
+      return;
+    }
+    if (!selected) return;
+
+    // Shift+↑/↓ (or K/J) reorder; plain arrows move the selection
+    if ((key.shift && key.name === "up") || key.sequence === "K") {
+      onMove(selected.id, -1);
+      setSelectedIndex((i) => Math.max(0, i - 1));
+      return;
+    }
+    if ((key.shift && key.name === "down") || key.sequence === "J") {
+      onMove(selected.id, 1);
+      setSelectedIndex((i) => Math.min(queue.length - 1, i + 1));
+      return;
+    }
+    if (key.name === "up") {
+      setSelectedIndex((i) => Math.max(0, i - 1));
+      return;
+    }
+    if (key.name === "down") {
+      setSelectedIndex((i) => Math.min(queue.length - 1, i + 1));
+      return;
+    }
+    if (key.name === "e") {
+      setDraft({ id: selected.id, text: selected.text, cursor: selected.text.length });
+      return;
+    }
+    if (key.name === "d" || key.name === "delete") {
+      onRemove(selected.id);
+      return;
+    }
+    if (key.name === "return") {
+      onSendNow(selected.id);
+      onClose();
+      return;
+    }
+  });
+
+  const modalWidth = Math.min(90, width - 4);
+  const textWidth = modalWidth - 14;
+  const maxItems = Math.max(1, height - 12);
+  // Keep the selection visible in long queues
+  const firstVisible = Math.max(0, Math.min(selectedIndex - Math.floor(maxItems / 2), queue.length - maxItems));
+  const visible = queue.slice(firstVisible, firstVisible + maxItems);
+  const modalHeight = Math.min(Math.max(visible.length, 1) + 7, height - 4);
+  const modalX = Math.floor((width - modalWidth) / 2);
+  const modalY = Math.floor((height - modalHeight) / 2);
+
+  const preview = (text: string) => {
+    const flat = text.replace(/\s+/g, " ").trim();
+    return flat.length > textWidth ? flat.slice(0, textWidth - 1) + "…" : flat;
+  };
+
+  return (
+    <box
+      position="absolute"
+      left={modalX}
+      top={modalY}
+      width={modalWidth}
+      height={modalHeight}
+      borderStyle="double"
+      borderColor={c.primary}
+      backgroundColor={c.mantle}
+      flexDirection="column"
+      padding={1}
+    >
+      {/* Header */}
+      <box marginBottom={1}>
+        <text>
+          <span fg={c.primary}><b>⏳ Queued prompts</b></span>
+          <span fg={c.subtext0}> ({queue.length})</span>
+        </text>
+      </box>
+
+      {/* Queue */}
+      <box flexDirection="column">
+        {queue.length === 0 && (
+          <text>
+            <span fg={c.subtle}>Nothing queued. Prompts sent while a run is in progress wait here.</span>
+          </text>
+        )}
+        {visible.map((prompt, offset) => {
+          const index = firstVisible + offset;
+          const isSelected = index === selectedIndex;
+          const isEditing = draft?.id === prompt.id;
+          const attachments = attachmentSummary(prompt);
+          return (
+            <box key={prompt.id}>
+              <text>
+                <span fg={isSelected ? c.primary : c.subtle}>{isSelected ? "› " : "  "}</span>
+                <span fg={c.subtext0}>{`${index + 1}. `}</span>
+                {isEditing ? (
+                  <>
+                    <span fg={c.text}>{draft.text.slice(0, draft.cursor)}</span>
+                    <span fg={c.cursorText} bg={c.cursor}>{draft.text[draft.cursor] ?? " "}</span>
+                    <span fg={c.text}>{draft.text.slice(draft.cursor + 1)}</span>
+                  </>
+                ) : (
+                  <span fg={isSelected ? c.text : c.subtext0}>{preview(prompt.text)}</span>
+                )}
+                {attachments && <span fg={c.info}> {attachments}</span>}
+              </text>
+            </box>
+          );
+        })}
+      </box>
+
+      {/* Footer with hints */}
+      <box marginTop={1}>
+        <text>
+          <span fg={c.subtle}>
+            {draft
+              ? "Enter save • Esc discard changes"
+              : `↑↓ select • Shift+↑↓ move • E edit • D delete • Enter ${isRunning ? "interrupt & send now" : "send now"} • Esc close`}
+          </span>
+        </text>
+      </box>
+    </box>
+  );
+});
@@ -0,0 +1,93 @@
+import { useKeyboard } from "@opentui/react";
+import { memo, useEffect } from "react";
+import type { Theme } from "../theme.js";
+
+const SEARCH_BAR_HEIGHT = 3;
+
+interface SearchBarProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  matchCount: number;
+  /** Index of the focused match, or -1 when there is none */
+  currentIndex: number;
+  onNext: () => void;
+  onPrevious: () => void;
+  onSearchAllSessions: () => void;
+  onClose: () => void;
+  onHeightChange?: (height: number) => void;
+  theme: Theme;
+}
+
+// Replaces the input bar while searching the transcript (Ctrl+F)
+export const SearchBar = memo(function SearchBar({
+  query,
+  onQueryChange,
+  matchCount,
+  currentIndex,
+  onNext,
+  onPrevious,
+  onSearchAllSessions,
+  onClose,
+  onHeightChange,
+  theme,
+}: SearchBarProps) {
+  const c = theme.colors;
+
+  useEffect(() => {
+    onHeightChange?.(SEARCH_BAR_HEIGHT);
+  }, [onHeightChange]);
+
+  useKeyboard((key) => {
+    if (key.name === "escape" || (key.ctrl && key.name === "f")) {
+      onClose();
+      return;
+    }
+    if ((key.name === "return" && key.shift) || key.name === "up") {
+      onPrevious();
+      return;
+    }
+    if (key.name === "return" || key.name === "down") {
+      onNext();
+      return;
+    }
+    if (key.name === "tab") {
+      onSearchAllSessions();
+      return;
+    }
+    if (key.name === "backspace") {
+      onQueryChange(query.slice(0, -1));
+      return;
+    }
+    if (!key.ctrl && !key.meta && key.sequence && key.sequence.length === 1) {
+      onQueryChange(query + key.sequence);
+    }
+  });
+
+  const status = !query.trim()
+    ? ""
+    : matchCount === 0
+      ? "no matches"
+      : `${currentIndex + 1}/${matchCount}`;
+
+  return (
+    <box
+      width="100%"
+      height={SEARCH_BAR_HEIGHT}
+      flexShrink={0}
+      borderStyle="single"
+      border={["left"]}
+      borderColor={c.accent}
+      backgroundColor={c.mantle}
+      paddingLeft={1}
+      justifyContent="center"
+    >
+      <text>
+        <span fg={c.accent}>⌕ </span>
+        <span fg={c.text}>{query}</span>
+        <span fg={c.cursorText} bg={c.cursor}> </span>
+        {status && <span fg={matchCount === 0 ? c.warning : c.subtext0}>  {status}</span>}
+        <span fg={c.subtle}>  Enter/↓ next • Shift+Enter/↑ previous • Tab all sessions • Esc close</span>
+      </text>
+    </box>
+  );
+});
@@ -0,0 +1,168 @@
+import { useKeyboard } from "@opentui/react";
+import { memo, useEffect, useRef, useState } from "react";
+import type { Theme } from "../theme.js";
+import type { SessionSearchResult } from "../../search/TranscriptSearch.js";
+
+interface SessionSearchProps {
+  initialQuery: string;
+  currentSessionId: string | null;
+  onSearch: (query: string) => Promise<SessionSearchResult[]>;
+  onOpen: (result: SessionSearchResult, query: string) => void;
+  onClose: () => void;
+  theme: Theme;
+  width: number;
+  height: number;
+}
+
+function formatDate(date: Date): string {
+  const d = new Date(date);
+  return d.toLocaleDateString(undefined, { month: "short", day: "numeric" });
+}
+
+// Search every stored session; Enter searches, then opens the selected match
+export const SessionSearch = memo(function SessionSearch({
+  initialQuery,
+  currentSessionId,
+  onSearch,
+  onOpen,
+  onClose,
+  theme,
+  width,
+  height,
+}: SessionSearchProps) {
+  const c = theme.colors;
+  const [query, setQuery] = useState(initialQuery);
+  const [searchedQuery, setSearchedQuery] = useState<string | null>(null);
+  const [results, setResults] = useState<SessionSearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  // Ignore results of a search that was superseded by a newer one
+  const searchIdRef = useRef(0);
+
+  const runSearch = (text: string) => {
+    const searchId = ++searchIdRef.current;
+    setSearching(true);
+    setSearchedQuery(text);
+    onSearch(text).then(
+      (found) => {
+        if (searchId !== searchIdRef.current) return;
+        setResults(found);
+        setSelectedIndex(0);
+        setSearching(false);
+      },
+      () => {
+        if (searchId !== searchIdRef.current) return;
+        setResults([]);
+        setSearching(false);
+      }
+    );
+  };
+
+  useEffect(() => {
+    if (initialQuery.trim()) runSearch(initialQuery);
+  }, []);
+
+  useKeyboard((key) => {
+    if (key.name === "escape") {
+      onClose();
+      return;
+    }
+    if (key.name === "up") {
+      setSelectedIndex((i) => Math.max(0, i - 1));
+      return;
+    }
+    if (key.name === "down") {
+      setSelectedIndex((i) => Math.min(results.length - 1, i + 1));
+      return;
+    }
+    if (key.name === "return") {
+      if (query !== searchedQuery) {
+        if (query.trim()) runSearch(query);
+      } else if (results[selectedIndex] && !searching) {
+        onOpen(results[selectedIndex], query);
+      }
+      return;
+    }
+    if (key.name === "backspace") {
+      setQuery((q) => q.slice(0, -1));
+      return;
+    }
+    if (!key.ctrl && !key.meta && key.sequence && key.sequence.length === 1) {
+      setQuery((q) => q + key.sequence);
+    }
+  });
+
+  const modalWidth = Math.min(100, width - 4);
+  const textWidth = modalWidth - 8;
+  // Each result takes two rows: session line and snippet
+  const maxItems = Math.max(1, Math.floor((height - 12) / 2));
+  const firstVisible = Math.max(0, Math.min(selectedIndex - Math.floor(maxItems / 2), results.length - maxItems));
+  const visible = results.slice(firstVisible, firstVisible + maxItems);
+  const modalHeight = Math.min(Math.max(visible.length, 1) * 2 + 7, height - 4);
+  const modalX = Math.floor((width - modalWidth) / 2);
+  const modalY = Math.floor((height - modalHeight) / 2);
+
+  const clip = (text: string, max: number) => (text.length > max ? text.slice(0, max - 1) + "…" : text);
+
+  const status = searching
+    ? "searching sessions…"
+    : searchedQuery === null
+      ? ""
+      : query !== searchedQuery
+        ? "Enter to search"
+        : `${results.length} match${results.length === 1 ? "" : "es"}`;
+
+  return (
+    <box
+      position="absolute"
+      left={modalX}
+      top={modalY}
+      width={modalWidth}
+      height={modalHeight}
+      borderStyle="double"
+      borderColor={c.primary}
+      backgroundColor={c.mantle}
+      flexDirection="column"
+      padding={1}
+    >
+      {/* Query */}
+      <box marginBottom={1}>
+        <text>
+          <span fg={c.primary}><b>⌕ Search all sessions: </b></span>
+          <span fg={c.text}>{query}</span>
+          <span fg={c.cursorText} bg={c.cursor}> </span>
+          {status && <span fg={c.subtext0}>  {status}</span>}
+        </text>
+      </box>
+
+      {/* Results */}
+      <box flexDirection="column">
+        {!searching && searchedQuery !== null && results.length === 0 && (
+          <text fg={c.subtle}>No matches in user messages, assistant messages or tool arguments</text>
+        )}
+        {visible.map((result, offset) => {
+          const isSelected = firstVisible + offset === selectedIndex;
+          const isCurrent = result.sessionId === currentSessionId;
+          return (
+            <box key={`${result.sessionId}:${result.itemId}`} flexDirection="column">
+              <text>
+                <span fg={isSelected ? c.primary : c.subtle}>{isSelected ? "› " : "  "}</span>
+                <span fg={isSelected ? c.info : c.subtext0}>{clip(result.sessionName, textWidth / 2)}</span>
+                {isCurrent && <span fg={c.success}> (current)</span>}
+                <span fg={c.subtle}> · {result.label} · {formatDate(result.createdAt)}</span>
+              </text>
+              <text fg={isSelected ? c.text : c.subtext0}>    {clip(result.snippet, textWidth)}</text>
+            </box>
+          );
+        })}
+      </box>
+
+      {/* Footer with hints */}
+      <box marginTop={1}>
+        <text>
+          <span fg={c.subtle}>Type to edit • Enter search / open • ↑↓ select • Esc close</span>
+        </text>
+      </box>
+    </box>
+  );
+});
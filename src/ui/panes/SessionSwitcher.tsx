@@ -54,6 +54,28 @@ function getDateGroup(date: Date): string {
   return sessionDate.toLocaleDateString(undefined, { month: "short", day: "numeric" });
 }
 
+// Helper: Order sessions so forks follow their parent, with their depth in the fork tree.
+// Sessions whose parent isn't in the list are shown as roots.
+function forkTree(sessions: SessionInfo[]): Array<{ session: SessionInfo; depth: number }> {
+  const ids = new Set(sessions.map((s) => s.id));
+  const children = new Map<string, SessionInfo[]>();
+  for (const session of sessions) {
+    if (session.parentId && ids.has(session.parentId)) {
+      children.set(session.parentId, [...(children.get(session.parentId) ?? []), session]);
+    }
+  }
+
+  const ordered: Array<{ session: SessionInfo; depth: number }> = [];
+  const visit = (session: SessionInfo, depth: number) => {
+    ordered.push({ session, depth });
+    for (const child of children.get(session.id) ?? []) visit(child, depth + 1);
+  };
+  for (const session of sessions) {
+    if (!session.parentId || !ids.has(session.parentId)) visit(session, 0);
+  }
+  return ordered;
+}
+
 export const SessionSwitcher = memo(function SessionSwitcher({
   sessions,
   currentSessionId,
@@ -74,18 +96,27 @@ export const SessionSwitcher = memo(function SessionSwitcher({
     })
     .slice(0, 10);
 
-  // Group sessions by date
+  // Group sessions by date; forks stay under their parent's group
   const groupedSessions: Array<{ date: string; sessions: SessionInfo[] }> = [];
-  recentSessions.forEach((session) => {
-    const date = session.lastUsedAt || session.createdAt;
-    if (!date) return;
-    
-    const dateGroup = getDateGroup(date);
-    let group = groupedSessions.find((g) => g.date === dateGroup);
-    if (!group) {
-      group = { date: dateGroup, sessions: [] };
-      groupedSessions.push(group);
+  const depths = new Map<string, number>();
+  let group: { date: string; sessions: SessionInfo[] } | undefined;
+  forkTree(recentSessions).forEach(({ session, depth }) => {
+    if (depth === 0) {
+      const date = session.lastUsedAt || session.createdAt;
+      if (!date) {
+        group = undefined;
+        return;
+      }
+
+      const dateGroup = getDateGroup(date);
+      group = groupedSessions.find((g) => g.date === dateGroup);
+      if (!group) {
+        group = { date: dateGroup, sessions: [] };
+        groupedSessions.push(group);
+      }
     }
+    if (!group) return;
+    depths.set(session.id, depth);
     group.sessions.push(session);
   });
 
@@ -101,7 +132,7 @@ export const SessionSwitcher = memo(function SessionSwitcher({
   })).filter((g) => g.sessions.length > 0);
   
   // Build flat list of items for navigation
-  const items: Array<{ type: "new" | "divider" | "session"; id: string; name: string; session?: SessionInfo; time?: string }> = [
+  const items: Array<{ type: "new" | "divider" | "session"; id: string; name: string; session?: SessionInfo; time?: string; depth?: number }> = [
     { type: "new", id: "__new__", name: "New Session" },
   ];
 
@@ -111,7 +142,7 @@ export const SessionSwitcher = memo(function SessionSwitcher({
     group.sessions.forEach((s) => {
       const date = s.lastUsedAt || s.createdAt;
       const time = date ? formatTime(date) : "";
-      items.push({ type: "session", id: s.id, name: s.name, session: s, time });
+      items.push({ type: "session", id: s.id, name: s.name, session: s, time, depth: depths.get(s.id) });
     });
   });
 
@@ -123,7 +154,7 @@ export const SessionSwitcher = memo(function SessionSwitcher({
       group.sessions.forEach((s) => {
         const date = s.lastUsedAt || s.createdAt;
         const time = date ? formatTime(date) : "";
-        items.push({ type: "session", id: s.id, name: s.name, session: s, time });
+        items.push({ type: "session", id: s.id, name: s.name, session: s, time, depth: depths.get(s.id) });
       });
     });
   }
@@ -193,7 +224,9 @@ export const SessionSwitcher = memo(function SessionSwitcher({
     const name = item.name || "Untitled";
     const time = item.time ? ` • ${item.time}` : "";
     const displayName = name.length > 30 ? name.slice(0, 27) + "..." : name;
-    return displayName + time;
+    // Forks are indented under their parent
+    const branch = item.depth ? "  ".repeat(item.depth - 1) + "└⑂ " : "";
+    return branch + displayName + time;
   };
 
   return (
@@ -3,22 +3,35 @@ import type { Theme } from "../theme.js";
 import type { ContextInfo } from "./ContextPane.js";
 import type { FileChange } from "../../utils/gitDiff.js";
 import type { Subagent, Skill } from "./SubagentsPane.js";
+import type { HarnessState, McpServerStatus } from "../../harness/Harness.js";
 
 interface SidebarProps {
   contextInfo: ContextInfo;
+  contextBudget: HarnessState["contextBudget"];
   files: FileChange[];
   currentIntent: string | null;
   currentTodo: string | null;
   currentPlan: string | null;
   subagents: Subagent[];
   skills: Skill[];
+  mcpServers: McpServerStatus[];
   height: number;
   width: number;
   theme: Theme;
 }
 
 // --- Context Section (always visible) ---
-function ContextSection({ contextInfo, theme, innerWidth }: { contextInfo: ContextInfo; theme: Theme; innerWidth: number }) {
+function ContextSection({
+  contextInfo,
+  contextBudget,
+  theme,
+  innerWidth,
+}: {
+  contextInfo: ContextInfo;
+  contextBudget: HarnessState["contextBudget"];
+  theme: Theme;
+  innerWidth: number;
+}) {
   const c = theme.colors;
   const { currentTokens, tokenLimit, consumedRequests, remainingPremiumRequests } = contextInfo;
   
@@ -26,10 +39,12 @@ function ContextSection({ contextInfo, theme, innerWidth }: { contextInfo: Conte
     ? Math.round((currentTokens / tokenLimit) * 100) 
     : 0;
   
-  const percentColor = contextPercent > 80 
-    ? c.error 
-    : contextPercent > 60 
-    ? c.warning 
+  // Colored by the budget thresholds (.anvil/context.json)
+  const { warnAt, compactAt } = contextBudget;
+  const percentColor = compactAt !== null && contextPercent >= compactAt
+    ? c.error
+    : warnAt !== null && contextPercent >= warnAt
+    ? c.warning
     : c.success;
 
   // Dynamic bar width: use available inner width, capped reasonably
@@ -71,6 +86,9 @@ function ContextSection({ contextInfo, theme, innerWidth }: { contextInfo: Conte
         <box>
           <text fg={percentColor}>{progressBar}</text>
         </box>
+        {compactAt !== null && (
+          <text fg={c.subtle}>auto-compact at {compactAt}%</text>
+        )}
       </box>
     </box>
   );
@@ -307,15 +325,77 @@ function SubagentsSection({
   );
 }
 
+// --- MCP Servers Section ---
+function McpSection({ servers, theme }: { servers: McpServerStatus[]; theme: Theme }) {
+  const c = theme.colors;
+
+  const getStateIcon = (state: McpServerStatus["state"]): string => {
+    switch (state) {
+      case "connecting": return "⟳";
+      case "connected": return "●";
+      case "failed": return "✗";
+    }
+  };
+
+  const getStateColor = (state: McpServerStatus["state"]): string => {
+    switch (state) {
+      case "connecting": return c.warning;
+      case "connected": return c.success;
+      case "failed": return c.error;
+    }
+  };
+
+  return (
+    <box flexDirection="column">
+      <text fg={c.primary}>
+        <b>MCP Servers</b>
+        <span fg={c.subtext0}> ({servers.length})</span>
+        {/* States come from probing each server, not from the session's own connections */}
+        <span fg={c.subtle}> · probe</span>
+      </text>
+
+      {servers.map((server) => {
+        const lastFailure = server.failures[server.failures.length - 1];
+        return (
+          <box key={server.name} marginTop={1} flexDirection="column">
+            <box flexDirection="row" justifyContent="space-between">
+              <text>
+                <span fg={getStateColor(server.state)}>{getStateIcon(server.state)} </span>
+                <span fg={c.text}><b>{server.name}</b></span>
+              </text>
+              {server.state === "connected" && (
+                <text fg={c.subtext0}>{server.tools.length} tools</text>
+              )}
+            </box>
+            {server.tools.length > 0 && (
+              <text fg={c.subtle}>{server.tools.join(", ")}</text>
+            )}
+            {lastFailure && (
+              <text fg={c.error}>
+                {lastFailure.message}
+                {server.failures.length > 1 && (
+                  <span fg={c.subtext0}> (+{server.failures.length - 1} earlier)</span>
+                )}
+              </text>
+            )}
+          </box>
+        );
+      })}
+    </box>
+  );
+}
+
 // --- Main Sidebar Component ---
 export const Sidebar = memo(function Sidebar({
   contextInfo,
+  contextBudget,
   files,
   currentIntent,
   currentTodo,
   currentPlan,
   subagents,
   skills,
+  mcpServers,
   height,
   width,
   theme,
@@ -358,7 +438,7 @@ export const Sidebar = memo(function Sidebar({
       )}
 
       {/* Context Section - Always visible */}
-      <ContextSection contextInfo={contextInfo} theme={theme} innerWidth={innerWidth} />
+      <ContextSection contextInfo={contextInfo} contextBudget={contextBudget} theme={theme} innerWidth={innerWidth} />
 
       {/* Files Modified Section - Only when files exist */}
       {hasFiles && (
@@ -386,6 +466,14 @@ export const Sidebar = memo(function Sidebar({
           <SubagentsSection subagents={subagents} skills={skills} theme={theme} />
         </>
       )}
+
+      {/* MCP Servers Section - Only when servers are configured */}
+      {mcpServers.length > 0 && (
+        <>
+          <SectionDivider theme={theme} innerWidth={innerWidth} />
+          <McpSection servers={mcpServers} theme={theme} />
+        </>
+      )}
     </box>
   );
 });
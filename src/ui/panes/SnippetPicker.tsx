@@ -0,0 +1,207 @@
+import { useKeyboard } from "@opentui/react";
+import { memo, useEffect, useMemo, useRef, useState } from "react";
+import type { Theme } from "../theme.js";
+import {
+  builtinValues,
+  extractVariables,
+  loadPromptSnippets,
+  renderSnippet,
+  type PromptSnippet,
+} from "../../prompts/PromptLibrary.js";
+import { fuzzyScore } from "../../utils/fileIndex.js";
+import { getGitInfoAsync } from "../../utils/git.js";
+import { getModifiedFilesAsync } from "../../utils/gitDiff.js";
+import { readClipboard } from "../../utils/clipboard.js";
+
+const PICKER_ROWS = 6;
+
+interface SnippetPickerProps {
+  /** Text selected in the terminal when the picker opened, for {{selection}} */
+  selection: string;
+  onInsert: (text: string) => void;
+  onClose: () => void;
+  /** Rows the picker occupies, so the input bar can size itself */
+  onHeightChange: (rows: number) => void;
+  theme: Theme;
+}
+
+function matchSnippets(query: string, snippets: PromptSnippet[]): PromptSnippet[] {
+  if (!query) return snippets.slice(0, PICKER_ROWS);
+  const scored: Array<{ snippet: PromptSnippet; score: number }> = [];
+  for (const snippet of snippets) {
+    const score = fuzzyScore(query, snippet.name)
+      ?? (snippet.description.toLowerCase().includes(query.toLowerCase()) ? 0 : null);
+    if (score !== null) scored.push({ snippet, score });
+  }
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .slice(0, PICKER_ROWS)
+    .map((s) => s.snippet);
+}
+
+// Searchable snippet list; picking one with variables switches to an inline form
+export const SnippetPicker = memo(function SnippetPicker({ selection, onInsert, onClose, onHeightChange, theme }: SnippetPickerProps) {
+  const c = theme.colors;
+  const [{ snippets, errors }] = useState(loadPromptSnippets);
+  const [query, setQuery] = useState("");
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  // Form state once a snippet with variables is chosen
+  const [chosen, setChosen] = useState<PromptSnippet | null>(null);
+  const [values, setValues] = useState<string[]>([]);
+  const [field, setField] = useState(0);
+  const [inserting, setInserting] = useState(false);
+  const valuesRef = useRef(values);
+  valuesRef.current = values;
+
+  const matches = useMemo(() => matchSnippets(query, snippets), [query, snippets]);
+  const highlighted = matches[Math.min(selectedIndex, matches.length - 1)];
+
+  const rows = chosen
+    ? chosen.variables.length + 1
+    : 1 + Math.max(1, matches.length) + (errors.length > 0 ? 1 : 0);
+  useEffect(() => {
+    onHeightChange(rows);
+  }, [rows, onHeightChange]);
+
+  const insert = async (snippet: PromptSnippet, userValues: string[]) => {
+    setInserting(true);
+    const used = new Set(extractVariables(snippet.body));
+    const [gitInfo, modifiedFiles, clipboard] = await Promise.all([
+      used.has("branch") ? getGitInfoAsync() : null,
+      used.has("modified_files") ? getModifiedFilesAsync() : [],
+      used.has("clipboard") ? readClipboard() : null,
+    ]);
+    const named = Object.fromEntries(snippet.variables.map((name, i) => [name, userValues[i] ?? ""]));
+    onInsert(
+      renderSnippet(snippet.body, {
+        ...builtinValues({ branch: gitInfo?.branch ?? null, modifiedFiles, selection, clipboard }),
+        ...named,
+      })
+    );
+  };
+
+  const choose = (snippet: PromptSnippet) => {
+    if (snippet.variables.length === 0) {
+      void insert(snippet, []);
+      return;
+    }
+    setChosen(snippet);
+    setValues(snippet.variables.map(() => ""));
+    setField(0);
+  };
+
+  const editField = (update: (value: string) => string) => {
+    setValues((prev) => prev.map((v, i) => (i === field ? update(v) : v)));
+  };
+
+  useKeyboard((key) => {
+    if (inserting) return;
+
+    if (chosen) {
+      if (key.name === "escape") {
+        setChosen(null);
+        return;
+      }
+      if (key.name === "return" || (key.name === "tab" && !key.shift)) {
+        if (field < chosen.variables.length - 1) {
+          setField(field + 1);
+        } else if (key.name === "return") {
+          void insert(chosen, valuesRef.current);
+        }
+        return;
+      }
+      if ((key.name === "tab" && key.shift) || key.name === "up") {
+        setField(Math.max(0, field - 1));
+        return;
+      }
+      if (key.name === "down") {
+        setField(Math.min(chosen.variables.length - 1, field + 1));
+        return;
+      }
+      if (key.name === "backspace") {
+        editField((v) => v.slice(0, -1));
+        return;
+      }
+      if (!key.ctrl && !key.meta && key.sequence && key.sequence.length === 1) {
+        editField((v) => v + key.sequence);
+      }
+      return;
+    }
+
+    if (key.name === "escape" || (key.ctrl && key.name === "p")) {
+      onClose();
+      return;
+    }
+    if (key.name === "up") {
+      setSelectedIndex((i) => Math.max(0, i - 1));
+      return;
+    }
+    if (key.name === "down") {
+      setSelectedIndex((i) => Math.min(matches.length - 1, i + 1));
+      return;
+    }
+    if (key.name === "return" || key.name === "tab") {
+      if (highlighted) choose(highlighted);
+      return;
+    }
+    if (key.name === "backspace") {
+      setQuery((q) => q.slice(0, -1));
+      setSelectedIndex(0);
+      return;
+    }
+    if (!key.ctrl && !key.meta && key.sequence && key.sequence.length === 1) {
+      setQuery((q) => q + key.sequence);
+      setSelectedIndex(0);
+    }
+  });
+
+  if (chosen) {
+    return (
+      <box flexDirection="column">
+        <text>
+          <span fg={c.primary}>✎ {chosen.name}</span>
+          <span fg={c.subtle}>  Tab next • Enter {field === chosen.variables.length - 1 ? "insert" : "next"} • Esc back</span>
+        </text>
+        {chosen.variables.map((name, i) => (
+          <text key={name}>
+            <span fg={i === field ? c.primary : c.subtle}>{i === field ? "› " : "  "}</span>
+            <span fg={c.subtext0}>{name}: </span>
+            <span fg={c.text}>{values[i]}</span>
+            {i === field && <span fg={c.cursorText} bg={c.cursor}> </span>}
+          </text>
+        ))}
+      </box>
+    );
+  }
+
+  return (
+    <box flexDirection="column">
+      <text>
+        <span fg={c.primary}>⌘ snippet: </span>
+        <span fg={c.text}>{query}</span>
+        <span fg={c.cursorText} bg={c.cursor}> </span>
+        <span fg={c.subtle}>  ↑↓ select • Enter insert • Esc close</span>
+      </text>
+      {errors.length > 0 && (
+        <text fg={c.warning}>  {errors.length} snippet file(s) couldn't be read: {errors[0]}</text>
+      )}
+      {matches.length === 0 ? (
+        <text fg={c.subtle}>
+          {snippets.length === 0 ? "  No snippets yet. Add markdown files to .anvil/prompts/" : "  No matching snippets"}
+        </text>
+      ) : (
+        matches.map((snippet) => {
+          const isSelected = snippet === highlighted;
+          return (
+            <text key={snippet.filePath}>
+              <span fg={isSelected ? c.primary : c.subtle}>{isSelected ? "› " : "  "}</span>
+              <span fg={isSelected ? c.info : c.subtext0}>{snippet.name}</span>
+              {snippet.description && <span fg={c.subtle}> — {snippet.description}</span>}
+              {snippet.scope === "user" && <span fg={c.subtle}> (user)</span>}
+            </text>
+          );
+        })
+      )}
+    </box>
+  );
+});
@@ -7,6 +7,7 @@ interface StartScreenProps {
   suppressKeys?: boolean;
   theme: Theme;
   height: number;
+  onPickerChange?: (open: boolean) => void;
 }
 
 const LOGO_LINES = [
@@ -31,7 +32,7 @@ const RAINBOW_COLORS = [
   "#ff00ff",
 ];
 
-export function StartScreen({ onSubmit, disabled = false, suppressKeys = false, theme, height }: StartScreenProps) {
+export function StartScreen({ onSubmit, disabled = false, suppressKeys = false, theme, height, onPickerChange }: StartScreenProps) {
   const c = theme.colors;
   return (
     <box flexDirection="column" width="100%" height={height}>
@@ -45,7 +46,13 @@ export function StartScreen({ onSubmit, disabled = false, suppressKeys = false,
           <text fg={c.subtle}>Ask anything to get started.</text>
         </box>
       </box>
-      <InputBar onSubmit={onSubmit} disabled={disabled} suppressKeys={suppressKeys} theme={theme} />
+      <InputBar
+        onSubmit={onSubmit}
+        disabled={disabled}
+        suppressKeys={suppressKeys}
+        theme={theme}
+        onPickerChange={onPickerChange}
+      />
     </box>
   );
 }
@@ -0,0 +1,189 @@
+import { useKeyboard } from "@opentui/react";
+import { memo, useState } from "react";
+import type { Theme } from "../theme.js";
+import type { UndoPicker } from "../../harness/Harness.js";
+import { getSyntaxStyle } from "../syntaxTheme.js";
+
+interface UndoModalProps {
+  undo: UndoPicker;
+  isRunning: boolean;
+  onPreview: (checkpointId: string) => void;
+  onRestore: (checkpointId: string) => void;
+  onClose: () => void;
+  theme: Theme;
+  width: number;
+  height: number;
+}
+
+const MAX_CHECKPOINT_ROWS = 6;
+const MAX_FILE_ROWS = 5;
+
+function getRelativeTime(date: Date): string {
+  const seconds = Math.floor((Date.now() - date.getTime()) / 1000);
+  const minutes = Math.floor(seconds / 60);
+  const hours = Math.floor(minutes / 60);
+  if (seconds < 60) return "just now";
+  if (minutes < 60) return `${minutes}m ago`;
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+}
+
+// Opened by /undo: pick a checkpoint, check what restoring it changes, restore
+export const UndoModal = memo(function UndoModal({
+  undo,
+  isRunning,
+  onPreview,
+  onRestore,
+  onClose,
+  theme,
+  width,
+  height,
+}: UndoModalProps) {
+  const c = theme.colors;
+  const { checkpoints, preview } = undo;
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const selected = checkpoints[selectedIndex];
+  // The preview arrives asynchronously; only show it once it matches the selection
+  const shown = preview && preview.checkpoint.id === selected?.id ? preview : null;
+
+  const select = (index: number) => {
+    if (index === selectedIndex || index < 0 || index >= checkpoints.length) return;
+    setSelectedIndex(index);
+    onPreview(checkpoints[index].id);
+  };
+
+  useKeyboard((key) => {
+    if (key.name === "escape") {
+      onClose();
+      return;
+    }
+    if (key.name === "up" || key.name === "k") {
+      select(selectedIndex - 1);
+      return;
+    }
+    if (key.name === "down" || key.name === "j") {
+      select(selectedIndex + 1);
+      return;
+    }
+    if (key.name === "return" && shown && shown.files.length > 0 && !isRunning) {
+      onRestore(shown.checkpoint.id);
+      return;
+    }
+  });
+
+  const modalWidth = Math.min(110, width - 4);
+  const labelWidth = modalWidth - 20;
+  const modalHeight = height - 4;
+  const modalX = Math.floor((width - modalWidth) / 2);
+  const modalY = 2;
+
+  // Keep the selection visible in long lists
+  const firstVisible = Math.max(
+    0,
+    Math.min(selectedIndex - Math.floor(MAX_CHECKPOINT_ROWS / 2), checkpoints.length - MAX_CHECKPOINT_ROWS)
+  );
+  const visible = checkpoints.slice(firstVisible, firstVisible + MAX_CHECKPOINT_ROWS);
+  const files = shown?.files ?? [];
+  const visibleFiles = files.slice(0, MAX_FILE_ROWS);
+  const hiddenFiles = files.length - visibleFiles.length;
+  const chromeHeight = visible.length + visibleFiles.length + (hiddenFiles > 0 ? 1 : 0) + 11;
+  const diffHeight = Math.max(0, modalHeight - chromeHeight);
+
+  const clip = (text: string) => (text.length > labelWidth ? text.slice(0, labelWidth - 1) + "…" : text);
+
+  let status: string;
+  if (!shown) {
+    status = "Comparing with the working tree…";
+  } else if (files.length === 0) {
+    status = "The files this run touched already match the checkpoint.";
+  } else {
+    status = `Restoring changes ${files.length} file${files.length === 1 ? "" : "s"} the run touched:`;
+  }
+
+  return (
+    <box
+      position="absolute"
+      left={modalX}
+      top={modalY}
+      width={modalWidth}
+      height={modalHeight}
+      borderStyle="double"
+      borderColor={c.warning}
+      backgroundColor={c.mantle}
+      flexDirection="column"
+      padding={1}
+    >
+      {/* Header */}
+      <box marginBottom={1}>
+        <text>
+          <span fg={c.warning}><b>↶ Undo to checkpoint</b></span>
+          <span fg={c.subtext0}> ({checkpoints.length})</span>
+        </text>
+      </box>
+
+      {/* Checkpoints, newest first */}
+      <box flexDirection="column" flexShrink={0}>
+        {visible.map((checkpoint, offset) => {
+          const index = firstVisible + offset;
+          const isSelected = index === selectedIndex;
+          return (
+            <box key={checkpoint.id}>
+              <text>
+                <span fg={isSelected ? c.warning : c.subtle}>{isSelected ? "› " : "  "}</span>
+                <span fg={c.subtext0}>{getRelativeTime(checkpoint.createdAt).padEnd(10)}</span>
+                <span fg={isSelected ? c.text : c.subtext0}>{clip(checkpoint.label)}</span>
+              </text>
+            </box>
+          );
+        })}
+      </box>
+
+      {/* Files restoring would change */}
+      <box flexDirection="column" flexShrink={0} marginTop={1}>
+        <text>
+          <span fg={c.info}>{status}</span>
+        </text>
+        {visibleFiles.map((file) => (
+          <text key={file.path}>
+            <span fg={file.action === "delete" ? c.error : c.success}>
+              {file.action === "delete" ? "  − delete  " : "  ↺ restore "}
+            </span>
+            <span fg={c.text}>{clip(file.path)}</span>
+          </text>
+        ))}
+        {hiddenFiles > 0 && (
+          <text>
+            <span fg={c.subtle}>{`  … ${hiddenFiles} more`}</span>
+          </text>
+        )}
+      </box>
+
+      {/* Diff of what restoring changes */}
+      {shown && shown.diff.trim() && diffHeight > 0 && (
+        <box height={diffHeight} marginTop={1} backgroundColor={c.surface0} overflow="hidden">
+          <diff
+            diff={shown.diff}
+            view="unified"
+            syntaxStyle={getSyntaxStyle(theme.mode)}
+            showLineNumbers={true}
+            addedBg={c.surface0}
+            removedBg={c.surface0}
+            contextBg={c.surface0}
+            lineNumberBg={c.surface0}
+          />
+        </box>
+      )}
+
+      {/* Footer with hints */}
+      <box marginTop={1} flexShrink={0}>
+        <text>
+          <span fg={c.subtle}>
+            {isRunning
+              ? "↑↓ select • wait for the run to finish to restore • Esc close"
+              : `↑↓ select • Enter restore${shown?.truncated ? " (diff truncated)" : ""} • Esc close`}
+          </span>
+        </text>
+      </box>
+    </box>
+  );
+});
@@ -0,0 +1,203 @@
+import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test";
+import { appendFileSync, mkdirSync, mkdtempSync, realpathSync, rmSync, writeFileSync } from "node:fs";
+import * as os from "node:os";
+import { join } from "node:path";
+import {
+  appendUsageEntry,
+  buildUsageReport,
+  entriesInPeriod,
+  formatUsageReport,
+  loadUsageBudget,
+  monthPremiumRequests,
+  parseUsagePeriod,
+  periodStart,
+  readUsageLedger,
+  usageToCsv,
+  type UsageEntry,
+} from "./UsageLedger.js";
+
+const originalCwd = process.cwd();
+let root: string;
+
+// Bun reads the home directory once at startup, so ~/.anvil is redirected here instead of through HOME
+mock.module("node:os", () => ({ ...os, homedir: () => join(root, "home") }));
+
+// Monday 19 October 2026, local time
+const now = new Date(2026, 9, 19, 12);
+
+function entry(overrides: Partial<UsageEntry>): UsageEntry {
+  return {
+    runId: "run",
+    startedAt: now,
+    durationMs: 1000,
+    project: "/work/app",
+    sessionId: "s1",
+    command: "prompt",
+    model: "model-a",
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    premiumRequests: 0,
+    status: "finished",
+    ephemeral: false,
+    ...overrides,
+  };
+}
+
+const entries = [
+  entry({ runId: "r1", startedAt: new Date(2026, 9, 19, 9), inputTokens: 1500, outputTokens: 500, premiumRequests: 1, durationMs: 30_000 }),
+  entry({ runId: "r2", startedAt: new Date(2026, 9, 19, 10), sessionId: "s2", model: "model-b", command: "/review", inputTokens: 200, outputTokens: 100, durationMs: 5000 }),
+  entry({ runId: "r3", startedAt: new Date(2026, 9, 14), inputTokens: 1000, premiumRequests: 2, durationMs: 90_000 }),
+  entry({ runId: "r4", startedAt: new Date(2026, 9, 2), sessionId: null, model: null, command: "smart-commit", inputTokens: 10, outputTokens: 10, premiumRequests: 0.5, ephemeral: true }),
+  entry({ runId: "r5", startedAt: new Date(2026, 8, 30), sessionId: "s3", premiumRequests: 3 }),
+];
+
+beforeEach(() => {
+  root = realpathSync(mkdtempSync(join(os.tmpdir(), "anvil-usage-")));
+  mkdirSync(join(root, "home"));
+  mkdirSync(join(root, "project"));
+  process.chdir(join(root, "project"));
+});
+
+afterEach(() => {
+  process.chdir(originalCwd);
+  rmSync(root, { recursive: true, force: true });
+});
+
+describe("periods", () => {
+  test("parse the known period names only", () => {
+    expect(["today", "week", "month", "all", "year", "toString"].map(parseUsagePeriod)).toEqual([
+      "today",
+      "week",
+      "month",
+      "all",
+      null,
+      null,
+    ]);
+  });
+
+  test("start at local midnight: today, six days back, or the first of the month", () => {
+    expect(periodStart("today", now)).toEqual(new Date(2026, 9, 19));
+    expect(periodStart("week", now)).toEqual(new Date(2026, 9, 13));
+    expect(periodStart("month", now)).toEqual(new Date(2026, 9, 1));
+    expect(periodStart("all", now)).toBeNull();
+  });
+
+  test("select the entries started since then", () => {
+    const ids = (period: Parameters<typeof entriesInPeriod>[1]) => entriesInPeriod(entries, period, now).map((e) => e.runId);
+    expect(ids("today")).toEqual(["r1", "r2"]);
+    expect(ids("week")).toEqual(["r1", "r2", "r3"]);
+    expect(ids("month")).toEqual(["r1", "r2", "r3", "r4"]);
+    expect(ids("all")).toHaveLength(5);
+  });
+});
+
+describe("buildUsageReport", () => {
+  test("totals the period and groups it, most expensive first", () => {
+    const report = buildUsageReport(entries, "month", now);
+    expect(report.since).toEqual(new Date(2026, 9, 1));
+    expect(report.totals).toEqual({ runs: 4, inputTokens: 2710, outputTokens: 610, premiumRequests: 3.5, durationMs: 126_000 });
+    expect(report.byDay.map((row) => [row.key, row.runs])).toEqual([
+      ["2026-10-19", 2],
+      ["2026-10-14", 1],
+      ["2026-10-02", 1],
+    ]);
+    expect(report.bySession.map((row) => [row.key, row.premiumRequests])).toEqual([
+      ["s1", 3],
+      ["(no session)", 0.5],
+      ["s2", 0],
+    ]);
+    expect(report.byModel.map((row) => row.key)).toEqual(["model-a", "(unknown)", "model-b"]);
+    expect(report.byCommand.map((row) => row.key)).toEqual(["prompt", "smart-commit", "/review"]);
+  });
+
+  test("breaks ties on tokens when no premium requests were used", () => {
+    const report = buildUsageReport([entry({ model: "small", inputTokens: 10 }), entry({ model: "big", inputTokens: 900 })], "all", now);
+    expect(report.byModel.map((row) => row.key)).toEqual(["big", "small"]);
+  });
+
+  test("counts this month's premium requests for the budget", () => {
+    expect(monthPremiumRequests(entries, now)).toBe(3.5);
+  });
+});
+
+describe("formatUsageReport", () => {
+  test("summarises the totals, the budget and each breakdown", () => {
+    const text = formatUsageReport(buildUsageReport(entries, "today", now), {
+      sessionNames: new Map([["s1", "Fix the login flow for SSO users"]]),
+      budget: { limit: 300, used: 3.5 },
+    });
+    const lines = text.split("\n");
+    expect(lines[0]).toBe("Usage today: 2 runs, 2k in / 600 out tokens, 1 premium requests, 35s");
+    expect(lines[1]).toBe("Monthly budget: 3.5 of 300 premium requests (1%)");
+    expect(lines).toContain("By session:");
+    expect(text).toContain("  Fix the login flow f (s1)");
+    expect(text).toContain("  s2 ");
+    expect(text).toContain("By command:");
+  });
+
+  test("stops after the totals when nothing ran", () => {
+    expect(formatUsageReport(buildUsageReport([], "week", now))).toBe(
+      "Usage the last 7 days: 0 runs, 0 in / 0 out tokens, 0 premium requests, 0s"
+    );
+  });
+});
+
+describe("usageToCsv", () => {
+  test("writes a header and quotes fields that need it", () => {
+    const csv = usageToCsv([entry({ runId: "r1", startedAt: new Date("2026-10-19T09:00:00.000Z"), project: '/work/"a,b"', sessionId: null })]);
+    const [header, row, end] = csv.split("\n");
+    expect(header).toBe(
+      "startedAt,durationMs,project,sessionId,command,model,inputTokens,outputTokens,cacheReadTokens,cacheWriteTokens,premiumRequests,status,ephemeral,runId"
+    );
+    expect(row).toBe(`2026-10-19T09:00:00.000Z,1000,"/work/""a,b""",,prompt,model-a,0,0,0,0,0,finished,false,r1`);
+    expect(end).toBe("");
+  });
+});
+
+describe("ledger file", () => {
+  test("round-trips entries and skips malformed lines", () => {
+    const path = join(root, "home", ".anvil", "usage.jsonl");
+    appendUsageEntry(entries[0], path);
+    appendUsageEntry(entries[3], path);
+    appendFileSync(path, `{"runId": "partial\n{"foo": 1}\n`);
+
+    const { entries: read, errors } = readUsageLedger(path);
+    expect(read).toEqual([entries[0], entries[3]]);
+    expect(read[0].startedAt).toBeInstanceOf(Date);
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toStartWith("line 3: ");
+    expect(errors[1]).toBe("line 4: not a usage entry");
+  });
+
+  test("a missing ledger is empty", () => {
+    expect(readUsageLedger(join(root, "missing.jsonl"))).toEqual({ entries: [], errors: [] });
+  });
+});
+
+describe("loadUsageBudget", () => {
+  function writeBudget(scope: "user" | "project", content: string): void {
+    const dir = join(root, scope === "user" ? "home" : "project", ".anvil");
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(join(dir, "usage.json"), content);
+  }
+
+  test("defaults to no budget", () => {
+    expect(loadUsageBudget()).toEqual({ budget: { monthlyPremiumRequests: null }, errors: [] });
+  });
+
+  test("the project budget overrides the user's", () => {
+    writeBudget("user", JSON.stringify({ monthlyPremiumRequests: 300 }));
+    writeBudget("project", JSON.stringify({ monthlyPremiumRequests: 100 }));
+    expect(loadUsageBudget()).toEqual({ budget: { monthlyPremiumRequests: 100 }, errors: [] });
+  });
+
+  test("invalid values are reported and skipped", () => {
+    writeBudget("user", JSON.stringify({ monthlyPremiumRequests: 300 }));
+    writeBudget("project", JSON.stringify({ monthlyPremiumRequests: -1 }));
+    const { budget, errors } = loadUsageBudget();
+    expect(budget.monthlyPremiumRequests).toBe(300);
+    expect(errors).toEqual([`${join(root, "project", ".anvil", "usage.json")}: "monthlyPremiumRequests" must be a positive number or null`]);
+  });
+});
@@ -0,0 +1,330 @@
+/**
+ * Usage ledger — a persistent record of what every run cost.
+ *
+ * One JSONL line per run, shared by all projects so the monthly budget sees
+ * the whole account:
+ *   ~/.anvil/usage.jsonl
+ *
+ * Each line is a `UsageEntry`: token counts summed over the run's model calls,
+ * premium requests, duration, and what started the run (`command`). Reports
+ * group entries by day, session, model and command. An optional monthly
+ * premium-request budget is read from `.anvil/usage.json` in the project and
+ * `~/.anvil/usage.json` (project fields override user fields):
+ *
+ *   { "monthlyPremiumRequests": 300 }
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "node:fs";
+import { dirname } from "node:path";
+import { formatTokenCount } from "../models/ModelCatalog.js";
+import { getConfigPath, readJsonConfig } from "../utils/config.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface UsageEntry {
+  runId: string;
+  startedAt: Date;
+  durationMs: number;
+  /** Working directory the run was started from */
+  project: string;
+  sessionId: string | null;
+  /** "prompt", "/<command>" for slash commands, or an internal run such as "smart-commit" or "compact" */
+  command: string;
+  /** Model that served the run, or the selected model when none was reported */
+  model: string | null;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  premiumRequests: number;
+  status: "finished" | "cancelled";
+  /** Ran outside the session history (smart commit, summaries) */
+  ephemeral: boolean;
+}
+
+export type UsagePeriod = "today" | "week" | "month" | "all";
+
+export interface UsageTotals {
+  runs: number;
+  inputTokens: number;
+  outputTokens: number;
+  premiumRequests: number;
+  durationMs: number;
+}
+
+export interface UsageRow extends UsageTotals {
+  key: string;
+}
+
+export interface UsageReport {
+  period: UsagePeriod;
+  /** Start of the period, or null for all time */
+  since: Date | null;
+  totals: UsageTotals;
+  byDay: UsageRow[];
+  bySession: UsageRow[];
+  byModel: UsageRow[];
+  byCommand: UsageRow[];
+}
+
+export interface UsageBudget {
+  /** Premium requests allowed per calendar month, or null for no budget */
+  monthlyPremiumRequests: number | null;
+}
+
+interface UsageConfigFile {
+  monthlyPremiumRequests?: unknown;
+}
+
+export const USAGE_PERIODS: UsagePeriod[] = ["today", "week", "month", "all"];
+
+const LEDGER_FILE = "usage.jsonl";
+const USAGE_CONFIG_FILE = "usage.json";
+// Rows shown per breakdown; the CSV export has everything
+const MAX_REPORT_ROWS = 10;
+const CSV_COLUMNS: Array<keyof UsageEntry> = [
+  "startedAt",
+  "durationMs",
+  "project",
+  "sessionId",
+  "command",
+  "model",
+  "inputTokens",
+  "outputTokens",
+  "cacheReadTokens",
+  "cacheWriteTokens",
+  "premiumRequests",
+  "status",
+  "ephemeral",
+  "runId",
+];
+
+// ---------------------------------------------------------------------------
+// Ledger file
+// ---------------------------------------------------------------------------
+
+export function getUsageLedgerPath(): string {
+  return getConfigPath("user", LEDGER_FILE);
+}
+
+export function appendUsageEntry(entry: UsageEntry, filePath: string = getUsageLedgerPath()): void {
+  mkdirSync(dirname(filePath), { recursive: true });
+  appendFileSync(filePath, JSON.stringify(entry) + "\n", "utf-8");
+}
+
+/**
+ * Read the ledger; a missing file is an empty ledger. Malformed lines (e.g. a
+ * partial line after a crash) are skipped and reported in `errors`.
+ */
+export function readUsageLedger(filePath: string = getUsageLedgerPath()): { entries: UsageEntry[]; errors: string[] } {
+  if (!existsSync(filePath)) return { entries: [], errors: [] };
+
+  const entries: UsageEntry[] = [];
+  const errors: string[] = [];
+  const lines = readFileSync(filePath, "utf-8").split("\n");
+  lines.forEach((line, index) => {
+    if (!line.trim()) return;
+    try {
+      const raw = JSON.parse(line) as UsageEntry;
+      if (typeof raw.runId !== "string" || typeof raw.startedAt !== "string") {
+        errors.push(`line ${index + 1}: not a usage entry`);
+        return;
+      }
+      entries.push({ ...raw, startedAt: new Date(raw.startedAt) });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      errors.push(`line ${index + 1}: ${message}`);
+    }
+  });
+  return { entries, errors };
+}
+
+/**
+ * Load the monthly budget from the user and project config files.
+ * Invalid files and fields are skipped and reported in `errors`.
+ */
+export function loadUsageBudget(): { budget: UsageBudget; errors: string[] } {
+  const budget: UsageBudget = { monthlyPremiumRequests: null };
+  const errors: string[] = [];
+
+  // User first so the project budget overrides it
+  for (const scope of ["user", "project"] as const) {
+    const filePath = getConfigPath(scope, USAGE_CONFIG_FILE);
+    let file: UsageConfigFile | null;
+    try {
+      file = readJsonConfig<UsageConfigFile>(filePath);
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+      continue;
+    }
+    if (file?.monthlyPremiumRequests === undefined) continue;
+
+    const value = file.monthlyPremiumRequests;
+    if (value === null || (typeof value === "number" && value > 0)) {
+      budget.monthlyPremiumRequests = value;
+    } else {
+      errors.push(`${filePath}: "monthlyPremiumRequests" must be a positive number or null`);
+    }
+  }
+
+  return { budget, errors };
+}
+
+// ---------------------------------------------------------------------------
+// Reports
+// ---------------------------------------------------------------------------
+
+/** Local calendar day, e.g. "2026-10-19". */
+export function dayKey(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function parseUsagePeriod(value: string): UsagePeriod | null {
+  return (USAGE_PERIODS as string[]).includes(value) ? (value as UsagePeriod) : null;
+}
+
+/** Start of `period` in local time: today, the last 7 days, or the calendar month. */
+export function periodStart(period: UsagePeriod, now: Date = new Date()): Date | null {
+  switch (period) {
+    case "today":
+      return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    case "week":
+      return new Date(now.getFullYear(), now.getMonth(), now.getDate() - 6);
+    case "month":
+      return new Date(now.getFullYear(), now.getMonth(), 1);
+    case "all":
+      return null;
+  }
+}
+
+export function entriesInPeriod(entries: UsageEntry[], period: UsagePeriod, now: Date = new Date()): UsageEntry[] {
+  const since = periodStart(period, now);
+  return since ? entries.filter((entry) => entry.startedAt >= since) : entries;
+}
+
+function emptyTotals(): UsageTotals {
+  return { runs: 0, inputTokens: 0, outputTokens: 0, premiumRequests: 0, durationMs: 0 };
+}
+
+function addEntry(totals: UsageTotals, entry: UsageEntry): void {
+  totals.runs++;
+  totals.inputTokens += entry.inputTokens;
+  totals.outputTokens += entry.outputTokens;
+  totals.premiumRequests += entry.premiumRequests;
+  totals.durationMs += entry.durationMs;
+}
+
+function groupBy(entries: UsageEntry[], key: (entry: UsageEntry) => string): UsageRow[] {
+  const rows = new Map<string, UsageRow>();
+  for (const entry of entries) {
+    const name = key(entry);
+    let row = rows.get(name);
+    if (!row) {
+      row = { key: name, ...emptyTotals() };
+      rows.set(name, row);
+    }
+    addEntry(row, entry);
+  }
+  return Array.from(rows.values());
+}
+
+// Most expensive first; tokens break ties when nothing used premium requests
+function byCost(a: UsageRow, b: UsageRow): number {
+  return b.premiumRequests - a.premiumRequests || b.inputTokens + b.outputTokens - (a.inputTokens + a.outputTokens);
+}
+
+export function buildUsageReport(entries: UsageEntry[], period: UsagePeriod, now: Date = new Date()): UsageReport {
+  const inPeriod = entriesInPeriod(entries, period, now);
+  const totals = emptyTotals();
+  for (const entry of inPeriod) addEntry(totals, entry);
+
+  return {
+    period,
+    since: periodStart(period, now),
+    totals,
+    byDay: groupBy(inPeriod, (entry) => dayKey(entry.startedAt)).sort((a, b) => b.key.localeCompare(a.key)),
+    bySession: groupBy(inPeriod, (entry) => entry.sessionId ?? "(no session)").sort(byCost),
+    byModel: groupBy(inPeriod, (entry) => entry.model ?? "(unknown)").sort(byCost),
+    byCommand: groupBy(inPeriod, (entry) => entry.command).sort(byCost),
+  };
+}
+
+/** Premium requests used in the calendar month of `now`, across all projects. */
+export function monthPremiumRequests(entries: UsageEntry[], now: Date = new Date()): number {
+  return entriesInPeriod(entries, "month", now).reduce((sum, entry) => sum + entry.premiumRequests, 0);
+}
+
+function formatPremium(requests: number): string {
+  return String(Math.round(requests * 100) / 100);
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+const PERIOD_LABELS: Record<UsagePeriod, string> = {
+  today: "today",
+  week: "the last 7 days",
+  month: "this month",
+  all: "all time",
+};
+
+/**
+ * Plain-text report for the log pane. `sessionNames` labels session rows;
+ * `budget` adds a line with this month's premium requests against it.
+ */
+export function formatUsageReport(
+  report: UsageReport,
+  options: { sessionNames?: Map<string, string>; budget?: { limit: number; used: number } } = {}
+): string {
+  const { totals } = report;
+  const lines = [
+    `Usage ${PERIOD_LABELS[report.period]}: ${totals.runs} run${totals.runs === 1 ? "" : "s"}, ` +
+      `${formatTokenCount(totals.inputTokens)} in / ${formatTokenCount(totals.outputTokens)} out tokens, ` +
+      `${formatPremium(totals.premiumRequests)} premium requests, ${formatDuration(totals.durationMs)}`,
+  ];
+  if (options.budget) {
+    const { limit, used } = options.budget;
+    lines.push(`Monthly budget: ${formatPremium(used)} of ${limit} premium requests (${Math.round((used / limit) * 100)}%)`);
+  }
+  if (totals.runs === 0) return lines.join("\n");
+
+  const section = (title: string, rows: UsageRow[], label: (key: string) => string = (key) => key) => {
+    lines.push(`${title}:`);
+    for (const row of rows.slice(0, MAX_REPORT_ROWS)) {
+      lines.push(
+        `  ${label(row.key).padEnd(28)} ${`${row.runs} run${row.runs === 1 ? "" : "s"}`.padStart(9)} ` +
+          `${formatTokenCount(row.inputTokens).padStart(6)} in ${formatTokenCount(row.outputTokens).padStart(6)} out ` +
+          `${formatPremium(row.premiumRequests).padStart(6)} premium  ${formatDuration(row.durationMs)}`
+      );
+    }
+    if (rows.length > MAX_REPORT_ROWS) lines.push(`  … ${rows.length - MAX_REPORT_ROWS} more (see --csv)`);
+  };
+
+  section("By day", report.byDay);
+  section("By session", report.bySession, (key) => {
+    const name = options.sessionNames?.get(key);
+    return name ? `${name.slice(0, 20)} (${key.slice(0, 6)})` : key;
+  });
+  section("By model", report.byModel);
+  section("By command", report.byCommand);
+  return lines.join("\n");
+}
+
+function csvField(value: unknown): string {
+  const text = value instanceof Date ? value.toISOString() : value === null || value === undefined ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** One row per run, with a header row. */
+export function usageToCsv(entries: UsageEntry[]): string {
+  const rows = entries.map((entry) => CSV_COLUMNS.map((column) => csvField(entry[column])).join(","));
+  return [CSV_COLUMNS.join(","), ...rows].join("\n") + "\n";
+}
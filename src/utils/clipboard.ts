@@ -0,0 +1,37 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+
+const execFileAsync = promisify(execFile);
+
+const CLIPBOARD_TIMEOUT_MS = 2000;
+
+// Tried in order; the first one that runs wins
+const READ_COMMANDS: Array<[string, string[]]> =
+  process.platform === "darwin"
+    ? [["pbpaste", []]]
+    : process.platform === "win32"
+      ? [["powershell", ["-NoProfile", "-Command", "Get-Clipboard -Raw"]]]
+      : [
+          ["wl-paste", ["--no-newline"]],
+          ["xclip", ["-selection", "clipboard", "-o"]],
+          ["xsel", ["--clipboard", "--output"]],
+        ];
+
+/**
+ * Reads the system clipboard as text. Returns null when no clipboard tool is
+ * available (e.g. over SSH without a display).
+ */
+export async function readClipboard(): Promise<string | null> {
+  for (const [command, args] of READ_COMMANDS) {
+    try {
+      const { stdout } = await execFileAsync(command, args, {
+        encoding: "utf8",
+        timeout: CLIPBOARD_TIMEOUT_MS,
+      });
+      return stdout;
+    } catch {
+      // Not installed or no display; try the next one
+    }
+  }
+  return null;
+}
@@ -0,0 +1,40 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, resolve } from "node:path";
+
+export type ConfigScope = "project" | "user";
+
+const CONFIG_DIR = ".anvil";
+
+/**
+ * Absolute path inside the project (`<cwd>/.anvil/`) or user (`~/.anvil/`)
+ * config directory.
+ */
+export function getConfigPath(scope: ConfigScope, ...segments: string[]): string {
+  const root = scope === "project" ? process.cwd() : homedir();
+  return resolve(root, CONFIG_DIR, ...segments);
+}
+
+/**
+ * Read and parse a JSON config file.
+ * Returns null when the file does not exist; throws on malformed JSON so
+ * callers can surface the problem instead of silently ignoring the file.
+ */
+export function readJsonConfig<T>(filePath: string): T | null {
+  if (!existsSync(filePath)) return null;
+  const raw = readFileSync(filePath, "utf-8");
+  try {
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid JSON in ${filePath}: ${message}`);
+  }
+}
+
+/**
+ * Write a JSON config file, creating the config directory if needed.
+ */
+export function writeJsonConfig(filePath: string, value: unknown): void {
+  mkdirSync(dirname(filePath), { recursive: true });
+  writeFileSync(filePath, JSON.stringify(value, null, 2) + "\n", "utf-8");
+}
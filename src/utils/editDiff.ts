@@ -0,0 +1,36 @@
+import { createPatch } from "diff";
+
+export interface EditToolArgs {
+  path?: string;
+  oldStr?: string;
+  newStr?: string;
+}
+
+export function isEditTool(toolName: string): boolean {
+  return toolName === "edit" || toolName === "edit_file" || toolName === "str_replace";
+}
+
+export function getEditToolArgs(args?: Record<string, unknown>): EditToolArgs | null {
+  if (!args) return null;
+  
+  const path = args.path ?? args.filePath ?? args.file;
+  const oldStr = args.old_str ?? args.oldStr ?? args.search;
+  const newStr = args.new_str ?? args.newStr ?? args.replace;
+  
+  if (typeof oldStr === "string" && typeof newStr === "string") {
+    return {
+      path: typeof path === "string" ? path : undefined,
+      oldStr,
+      newStr,
+    };
+  }
+  return null;
+}
+
+/** Unified diff for an edit tool call, or null when the call isn't a diff-able edit. */
+export function getEditDiff(toolName: string, args?: Record<string, unknown>): string | null {
+  if (!isEditTool(toolName)) return null;
+  const edit = getEditToolArgs(args);
+  if (!edit) return null;
+  return createPatch(edit.path ?? "file", edit.oldStr!, edit.newStr!);
+}
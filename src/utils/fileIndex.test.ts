@@ -0,0 +1,24 @@
+import { describe, expect, test } from "bun:test";
+import { formatMention, parseMention } from "./fileIndex.js";
+
+describe("parseMention", () => {
+  test("parses paths, single lines and ranges", () => {
+    expect(parseMention("src/a.ts")).toEqual({ path: "src/a.ts" });
+    expect(parseMention("src/a.ts#L42")).toEqual({ path: "src/a.ts", startLine: 42, endLine: 42 });
+    expect(parseMention("src/a.ts#L200-260")).toEqual({ path: "src/a.ts", startLine: 200, endLine: 260 });
+    expect(parseMention("src/a.ts#L200-L260")).toEqual({ path: "src/a.ts", startLine: 200, endLine: 260 });
+  });
+
+  test("swaps a reversed range", () => {
+    expect(parseMention("src/a.ts#L10-5")).toEqual({ path: "src/a.ts", startLine: 5, endLine: 10 });
+  });
+
+  test.each(["src/a.ts#L0", "src/a.ts#L0-5", "src/a.ts#L5-0"])("doesn't take %p as a line range", (text) => {
+    expect(parseMention(text)).toEqual({ path: text });
+  });
+
+  test("formats back to the mention text", () => {
+    expect(formatMention(parseMention("src/a.ts#L42"))).toBe("src/a.ts#L42");
+    expect(formatMention(parseMention("src/a.ts#L10-5"))).toBe("src/a.ts#L5-10");
+  });
+});
@@ -0,0 +1,154 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { existsSync, statSync } from "node:fs";
+import { resolve } from "node:path";
+import type { PromptAttachment } from "../harness/events.js";
+
+const execFileAsync = promisify(execFile);
+
+export interface FileEntry {
+  /** Path relative to the project root; directories end with "/" */
+  path: string;
+  isDirectory: boolean;
+}
+
+export interface ParsedMention {
+  path: string;
+  startLine?: number;
+  endLine?: number;
+}
+
+// Cached result so the picker opens instantly after the first listing
+let cachedEntries: FileEntry[] = [];
+
+const MAX_BUFFER = 32 * 1024 * 1024;
+
+/**
+ * Returns the last cached project file list synchronously.
+ */
+export function getProjectFiles(): FileEntry[] {
+  return cachedEntries;
+}
+
+/**
+ * Lists tracked and untracked-but-not-ignored files via `git ls-files`, plus
+ * every directory that contains one. Updates the cache and returns the result.
+ */
+export async function getProjectFilesAsync(): Promise<FileEntry[]> {
+  try {
+    const { stdout } = await execFileAsync(
+      "git",
+      ["ls-files", "--cached", "--others", "--exclude-standard"],
+      { encoding: "utf8", maxBuffer: MAX_BUFFER }
+    );
+    const files = Array.from(new Set(stdout.split("\n").filter(Boolean)));
+    const directories = new Set<string>();
+    for (const file of files) {
+      let slash = file.lastIndexOf("/");
+      while (slash > 0) {
+        const dir = file.slice(0, slash + 1);
+        if (directories.has(dir)) break;
+        directories.add(dir);
+        slash = file.lastIndexOf("/", slash - 1);
+      }
+    }
+    cachedEntries = [
+      ...Array.from(directories).sort().map((path) => ({ path, isDirectory: true })),
+      ...files.sort().map((path) => ({ path, isDirectory: false })),
+    ];
+  } catch {
+    // Not a git repository (or git missing); mentions still work when typed out
+    cachedEntries = [];
+  }
+  return cachedEntries;
+}
+
+/**
+ * Score `candidate` against a fuzzy `query` (characters in order, not
+ * necessarily adjacent). Returns null when it doesn't match. Consecutive
+ * runs and matches in the file name score higher; shorter paths win ties.
+ */
+export function fuzzyScore(query: string, candidate: string): number | null {
+  if (!query) return 0;
+  const needle = query.toLowerCase();
+  const haystack = candidate.toLowerCase();
+  const nameStart = haystack.replace(/\/$/, "").lastIndexOf("/") + 1;
+
+  let score = 0;
+  let from = 0;
+  let previous = -2;
+  for (const char of needle) {
+    const index = haystack.indexOf(char, from);
+    if (index === -1) return null;
+    score += 1;
+    if (index === previous + 1) score += 4;
+    if (index >= nameStart) score += 2;
+    // Word starts, including camelCase humps
+    if (index === 0 || "/-_.".includes(haystack[index - 1]) || candidate[index] !== haystack[index]) score += 3;
+    previous = index;
+    from = index + 1;
+  }
+  return score * 100 - candidate.length;
+}
+
+export function fuzzyFilter(query: string, entries: FileEntry[], limit: number): FileEntry[] {
+  const scored: Array<{ entry: FileEntry; score: number }> = [];
+  for (const entry of entries) {
+    const score = fuzzyScore(query, entry.path);
+    if (score !== null) scored.push({ entry, score });
+  }
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map((s) => s.entry);
+}
+
+/**
+ * Parse a mention body such as `src/a.ts`, `src/` or `src/a.ts#L200-260`
+ * (also `#L42` for a single line). Lines are 1-based: a range naming line 0
+ * isn't a range, so the whole text is taken as the path. A reversed range
+ * (`#L260-200`) is swapped.
+ */
+export function parseMention(text: string): ParsedMention {
+  const match = text.match(/^(.*)#L(\d+)(?:-L?(\d+))?$/);
+  if (!match) return { path: text };
+  const startLine = Number(match[2]);
+  const endLine = match[3] ? Number(match[3]) : startLine;
+  if (startLine < 1 || endLine < 1) return { path: text };
+  return {
+    path: match[1],
+    startLine: Math.min(startLine, endLine),
+    endLine: Math.max(startLine, endLine),
+  };
+}
+
+export function formatMention(mention: ParsedMention): string {
+  if (mention.startLine === undefined) return mention.path;
+  return mention.endLine !== undefined && mention.endLine !== mention.startLine
+    ? `${mention.path}#L${mention.startLine}-${mention.endLine}`
+    : `${mention.path}#L${mention.startLine}`;
+}
+
+/**
+ * Turn a mention into an attachment, or null when the path doesn't exist.
+ * Relative paths resolve against the project root.
+ */
+export function mentionToAttachment(mention: ParsedMention): PromptAttachment | null {
+  const absolute = resolve(process.cwd(), mention.path);
+  if (!existsSync(absolute)) return null;
+  const displayName = formatMention(mention);
+
+  if (statSync(absolute).isDirectory()) {
+    return { type: "directory", path: absolute, displayName };
+  }
+  if (mention.startLine !== undefined) {
+    return {
+      type: "selection",
+      filePath: absolute,
+      displayName,
+      startLine: mention.startLine,
+      endLine: mention.endLine ?? mention.startLine,
+    };
+  }
+  return { type: "file", path: absolute, displayName };
+}